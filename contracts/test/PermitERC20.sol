@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.0;
+
+import "@openzeppelin/contracts/token/ERC20/extensions/draft-ERC20Permit.sol";
+
+/**
+ * @dev ERC20 supporting the EIP-2612 permit, with the supply minted to the deployer.
+ */
+contract PermitERC20 is ERC20Permit {
+    constructor(
+        string memory name,
+        string memory symbol,
+        uint256 supply
+    ) ERC20(name, symbol) ERC20Permit(name) {
+        _mint(_msgSender(), supply);
+    }
+}
@@ -7,6 +7,16 @@ import 'hardhat-contract-sizer'
 import 'solidity-docgen'
 import {task} from 'hardhat/config'
 import {log} from './config/logging'
+import './scripts/tasks/bond'
+import './scripts/tasks/dao'
+import './scripts/tasks/deploy'
+import './scripts/tasks/emergency'
+import './scripts/tasks/events'
+import './scripts/tasks/keeper'
+import './scripts/tasks/monitor'
+import './scripts/tasks/roles'
+import './scripts/tasks/staking'
+import './scripts/tasks/upgrade'
 
 /*
  * This is a sample Hardhat task. To learn how to create your own go to https://hardhat.org/guides/create-task.html
@@ -0,0 +1,355 @@
+import {existsSync, readFileSync, writeFileSync} from 'fs'
+import {HardhatRuntimeEnvironment} from 'hardhat/types'
+import {BigNumber, Signer} from 'ethers'
+import {
+    BondMediator,
+    SingleCollateralMultiRewardBond
+} from '../../typechain-types'
+import {log} from '../../config/logging'
+import {managedBonds} from './managed-bond'
+import {daoIds} from '../dao/dao-report'
+import {
+    TokenAmountReport,
+    TokenAmounts,
+    erc20At,
+    tokenAmount,
+    tokenAmounts
+} from '../utils/erc20'
+import {
+    SpecObject,
+    readSpecFile,
+    specAddress,
+    specAmount,
+    specArray,
+    specObject
+} from '../utils/spec-file'
+import {
+    executeTransaction,
+    logOptionalEventLogs
+} from '../utils/transaction-event-log'
+import {claimRewardEventLogs} from '../../test/event/bond/time-lock-multi-reward-bond-events'
+
+/**
+ * Guarantor opted into having their rewards claimed.
+ */
+export type GuarantorConfig = {
+    account: string
+    /**
+     * Whole tokens of each reward token, keyed by its address, one of which
+     * must be claimable before claiming. Any amount of a reward token without
+     * a threshold is enough.
+     */
+    thresholds: {[tokens: string]: string}
+}
+
+/**
+ * Rewards claimed by a guarantor from a Bond in a single transaction.
+ */
+export type ClaimRecord = {
+    bond: string
+    symbol: string
+    transactionHash: string
+    blockNumber: number
+    claimedAt: string
+    /** Rewards received, without the pools already claimed in full. */
+    rewards: TokenAmountReport[]
+}
+
+/**
+ * Claims of each guarantor, keyed by their lowercase address.
+ */
+export type ClaimHistory = {[guarantor: string]: ClaimRecord[]}
+
+/**
+ * Column headers for the rows of claimHistoryRows().
+ */
+export const CLAIM_HISTORY_COLUMNS = [
+    'Guarantor',
+    'Claimed at',
+    'Bond',
+    'Symbol',
+    'Reward',
+    'Amount',
+    'Transaction'
+]
+
+/**
+ * Reads the guarantors from the configuration file, with the thresholds of
+ * each guarantor overriding the thresholds shared by every guarantor.
+ */
+export function readAutoClaimConfig(path: string): GuarantorConfig[] {
+    const spec = readSpecFile(path)
+    const shared =
+        typeof spec.thresholds === 'undefined'
+            ? {}
+            : thresholds(
+                  specObject(spec.thresholds, 'thresholds'),
+                  'thresholds'
+              )
+    const guarantors = specArray(spec.guarantors, 'guarantors').map(
+        (value, i) => {
+            const field = `guarantors[${i}]`
+            const guarantor = specObject(value, field)
+
+            return {
+                account: specAddress(guarantor.account, `${field}.account`),
+                thresholds: {
+                    ...shared,
+                    ...(typeof guarantor.thresholds !== 'undefined' &&
+                        thresholds(
+                            specObject(
+                                guarantor.thresholds,
+                                `${field}.thresholds`
+                            ),
+                            `${field}.thresholds`
+                        ))
+                }
+            }
+        }
+    )
+
+    if (guarantors.length === 0) {
+        throw Error(`Auto-claim config ${path} has no guarantors`)
+    }
+
+    return guarantors
+}
+
+/**
+ * Reads the claim history, or an empty history when the file does not exist.
+ */
+export function readClaimHistory(path: string): ClaimHistory {
+    if (!existsSync(path)) {
+        return {}
+    }
+
+    return <ClaimHistory>JSON.parse(readFileSync(path, 'utf8'))
+}
+
+export function writeClaimHistory(path: string, history: ClaimHistory): void {
+    writeFileSync(path, `${JSON.stringify(history, null, 2)}\n`)
+}
+
+/**
+ * Claims all the available rewards of each guarantor from every Bond of the
+ * BondMediator, when a reward has reached its threshold, recording each claim
+ * in the history.
+ *
+ * Rewards are only available to guarantors with reward debt, accrued by
+ * holding the debt tokens of the Bond, which remains after redeeming them.
+ *
+ * @param saveHistory persists the history, called after every claim.
+ * @return the claims made.
+ */
+export async function autoClaim(
+    hre: HardhatRuntimeEnvironment,
+    mediator: BondMediator,
+    guarantors: GuarantorConfig[],
+    history: ClaimHistory,
+    saveHistory: (updated: ClaimHistory) => void
+): Promise<ClaimRecord[]> {
+    const signers = await guarantorSigners(hre, guarantors)
+    const tokens = tokenAmounts(hre)
+    const claims: ClaimRecord[] = []
+
+    for (const bond of await claimableBonds(hre, mediator)) {
+        for (const guarantor of guarantors) {
+            const guarantorBond = bond.connect(signers[guarantor.account])
+
+            if (await isClaimDue(hre, guarantorBond, guarantor)) {
+                const claim = await claimRewards(guarantorBond, tokens)
+                const key = guarantor.account.toLowerCase()
+
+                history[key] = [...(history[key] ?? []), claim]
+                saveHistory(history)
+                claims.push(claim)
+            }
+        }
+    }
+
+    return claims
+}
+
+/**
+ * Flattens the history into a row per reward claimed, optionally only for the
+ * one guarantor.
+ */
+export function claimHistoryRows(
+    history: ClaimHistory,
+    guarantor?: string
+): string[][] {
+    return Object.entries(history)
+        .filter(
+            ([account]) =>
+                typeof guarantor !== 'string' ||
+                account === guarantor.toLowerCase()
+        )
+        .flatMap(([account, claims]) =>
+            claims.flatMap((claim) =>
+                claim.rewards.map((reward) => [
+                    account,
+                    claim.claimedAt,
+                    claim.bond,
+                    claim.symbol,
+                    reward.symbol,
+                    reward.amount,
+                    claim.transactionHash
+                ])
+            )
+        )
+}
+
+/**
+ * Signers of the guarantors, keyed by their configured address, failing
+ * when any guarantor is not an account of the network.
+ */
+async function guarantorSigners(
+    hre: HardhatRuntimeEnvironment,
+    guarantors: GuarantorConfig[]
+): Promise<{[account: string]: Signer}> {
+    const signers = await hre.ethers.getSigners()
+    const found: {[account: string]: Signer} = {}
+
+    for (const guarantor of guarantors) {
+        const signer = signers.find(
+            (account) =>
+                account.address.toLowerCase() ===
+                guarantor.account.toLowerCase()
+        )
+
+        if (typeof signer === 'undefined') {
+            throw Error(
+                `Guarantor ${guarantor.account} is not an account of the ${hre.network.name} network`
+            )
+        }
+
+        found[guarantor.account] = signer
+    }
+
+    return found
+}
+
+/**
+ * Bonds of every DAO of the BondMediator currently accepting claims.
+ */
+async function claimableBonds(
+    hre: HardhatRuntimeEnvironment,
+    mediator: BondMediator
+): Promise<SingleCollateralMultiRewardBond[]> {
+    const claimable: SingleCollateralMultiRewardBond[] = []
+
+    for (const daoId of await daoIds(mediator)) {
+        for (const address of await managedBonds(mediator, daoId)) {
+            const bond = <SingleCollateralMultiRewardBond>(
+                await hre.ethers.getContractAt(
+                    'SingleCollateralMultiRewardBond',
+                    address
+                )
+            )
+
+            if (await isClaimable(bond)) {
+                claimable.push(bond)
+            }
+        }
+    }
+
+    return claimable
+}
+
+/**
+ * Whether the Bond accepts claims, being unpaused and with redemption allowed.
+ *
+ * Rewards without a time lock are reported as available before redemption is
+ * allowed, when claiming them would fail.
+ */
+async function isClaimable(
+    bond: SingleCollateralMultiRewardBond
+): Promise<boolean> {
+    return !(await bond.paused()) && (await bond.redemptionTimestamp()).gt(0)
+}
+
+/**
+ * Whether an available reward of the guarantor has reached its threshold.
+ *
+ * @param bond connected to the signer of the guarantor.
+ */
+async function isClaimDue(
+    hre: HardhatRuntimeEnvironment,
+    bond: SingleCollateralMultiRewardBond,
+    guarantor: GuarantorConfig
+): Promise<boolean> {
+    for (const reward of await bond.availableRewards()) {
+        if (
+            reward.amount.gt(0) &&
+            reward.amount.gte(await threshold(hre, guarantor, reward.tokens))
+        ) {
+            return true
+        }
+    }
+
+    return false
+}
+
+async function threshold(
+    hre: HardhatRuntimeEnvironment,
+    guarantor: GuarantorConfig,
+    tokens: string
+): Promise<BigNumber> {
+    const configured = Object.entries(guarantor.thresholds).find(
+        ([address]) => address.toLowerCase() === tokens.toLowerCase()
+    )
+
+    return configured
+        ? tokenAmount(await erc20At(hre, tokens), configured[1])
+        : BigNumber.from(0)
+}
+
+async function claimRewards(
+    bond: SingleCollateralMultiRewardBond,
+    tokens: TokenAmounts
+): Promise<ClaimRecord> {
+    const claimant = await bond.signer.getAddress()
+
+    log.info('Claiming the rewards of %s from Bond %s', claimant, bond.address)
+
+    const receipt = await executeTransaction(bond.claimAllAvailableRewards())
+    const rewards: TokenAmountReport[] = []
+
+    for (const claimed of logOptionalEventLogs(
+        bond,
+        receipt,
+        'ClaimReward',
+        claimRewardEventLogs
+    )) {
+        if (claimed.amount.gt(0)) {
+            rewards.push(await tokens(claimed.tokens, claimed.amount))
+        }
+    }
+
+    const block = await bond.provider.getBlock(receipt.blockNumber)
+
+    return {
+        bond: bond.address,
+        symbol: await bond.symbol(),
+        transactionHash: receipt.transactionHash,
+        blockNumber: receipt.blockNumber,
+        claimedAt: new Date(block.timestamp * 1000).toISOString(),
+        rewards
+    }
+}
+
+function thresholds(
+    spec: SpecObject,
+    field: string
+): {[tokens: string]: string} {
+    const amounts: {[tokens: string]: string} = {}
+
+    for (const [tokens, amount] of Object.entries(spec)) {
+        amounts[specAddress(tokens, `${field} key ${tokens}`)] = specAmount(
+            amount,
+            `${field}.${tokens}`
+        )
+    }
+
+    return amounts
+}
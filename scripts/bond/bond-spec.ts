@@ -0,0 +1,148 @@
+import {HardhatRuntimeEnvironment} from 'hardhat/types'
+import {BigNumber} from 'ethers'
+import {BondMediator} from '../../typechain-types'
+import {Bond} from '../../typechain-types/contracts/bond/BondMediator'
+import {log} from '../../config/logging'
+import {erc20At, tokenAmount} from '../utils/erc20'
+import {
+    readSpecFile,
+    specAddress,
+    specAmount,
+    specArray,
+    specObject,
+    specSeconds,
+    specString,
+    specTimestamp
+} from '../utils/spec-file'
+
+const UINT128_MAX = BigNumber.from(2).pow(128).sub(1)
+
+/**
+ * Arguments for creating a managed Bond, read from a specification file.
+ */
+export type ManagedBondSpec = {
+    metadata: Bond.MetaDataStruct
+    configuration: Bond.SettingsStruct
+    rewards: Bond.TimeLockRewardPoolStruct[]
+}
+
+/**
+ * Reads and validates the Bond specification file.
+ *
+ * Amounts are human-readable (e.g. "1250.5"), with the token decimals applied;
+ * debt tokens are swapped one to one with collateral, sharing its decimals.
+ *
+ * @param path location of the JSON specification file.
+ * @param daoId DAO the Bond is being created for.
+ * @param mediator used to check the collateral is whitelisted for the DAO.
+ * @param batched whether the Bond is being created in a Safe batch, where an
+ *          earlier transaction may whitelist the collateral.
+ */
+export async function readBondSpec(
+    hre: HardhatRuntimeEnvironment,
+    path: string,
+    daoId: bigint,
+    mediator: BondMediator,
+    batched = false
+): Promise<ManagedBondSpec> {
+    const spec = readSpecFile(path)
+    const metadata = specObject(spec.metadata, 'metadata')
+    const settings = specObject(spec.settings, 'settings')
+
+    const collateralTokens = specAddress(
+        settings.collateralTokens,
+        'settings.collateralTokens'
+    )
+    if (!(await mediator.isAllowedDaoCollateral(daoId, collateralTokens))) {
+        const reason = `Collateral ${collateralTokens} is not whitelisted for DAO ${daoId}`
+
+        if (!batched) {
+            throw Error(reason)
+        }
+
+        log.warn('%s, expecting the batch to whitelist it first', reason)
+    }
+
+    const expiryTimestamp = specTimestamp(
+        settings.expiryTimestamp,
+        'settings.expiryTimestamp'
+    )
+    const now = (await hre.ethers.provider.getBlock('latest')).timestamp
+    if (expiryTimestamp <= now) {
+        throw Error(
+            `Expiry ${new Date(
+                expiryTimestamp * 1000
+            ).toISOString()} is not in the future`
+        )
+    }
+
+    const collateral = await erc20At(hre, collateralTokens)
+    const debtTokenAmount = await tokenAmount(
+        collateral,
+        specAmount(settings.debtTokenAmount, 'settings.debtTokenAmount')
+    )
+    const minimumDeposit = await tokenAmount(
+        collateral,
+        specAmount(settings.minimumDeposit, 'settings.minimumDeposit')
+    )
+    if (debtTokenAmount.isZero()) {
+        throw Error('Debt token amount must be greater than zero')
+    }
+    if (minimumDeposit.gt(debtTokenAmount)) {
+        throw Error('Minimum deposit is greater than the debt token amount')
+    }
+
+    return {
+        metadata: {
+            name: specString(metadata.name, 'metadata.name'),
+            symbol: specString(metadata.symbol, 'metadata.symbol'),
+            data: specString(metadata.data ?? '', 'metadata.data')
+        },
+        configuration: {
+            debtTokenAmount,
+            collateralTokens,
+            expiryTimestamp,
+            minimumDeposit
+        },
+        rewards: await rewardPools(
+            hre,
+            specArray(spec.rewards ?? [], 'rewards')
+        )
+    }
+}
+
+async function rewardPools(
+    hre: HardhatRuntimeEnvironment,
+    rewards: unknown[]
+): Promise<Bond.TimeLockRewardPoolStruct[]> {
+    const pools: Bond.TimeLockRewardPoolStruct[] = []
+    const rewardTokens = new Set<string>()
+
+    for (let i = 0; i < rewards.length; i++) {
+        const reward = specObject(rewards[i], `rewards[${i}]`)
+        const tokens = specAddress(reward.tokens, `rewards[${i}].tokens`)
+
+        if (rewardTokens.has(tokens.toLowerCase())) {
+            throw Error(`Reward tokens ${tokens} appear more than once`)
+        }
+        rewardTokens.add(tokens.toLowerCase())
+
+        const amount = await tokenAmount(
+            await erc20At(hre, tokens),
+            specAmount(reward.amount, `rewards[${i}].amount`)
+        )
+        if (amount.isZero() || amount.gt(UINT128_MAX)) {
+            throw Error(
+                `Reward amount for ${tokens} is zero or exceeds uint128`
+            )
+        }
+
+        pools.push({
+            tokens,
+            amount,
+            timeLock: specSeconds(reward.timeLock, `rewards[${i}].timeLock`)
+        })
+    }
+
+    return pools
+}
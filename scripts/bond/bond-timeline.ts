@@ -0,0 +1,448 @@
+import {HardhatRuntimeEnvironment} from 'hardhat/types'
+import {BigNumber, constants, utils} from 'ethers'
+import {
+    BondFactory,
+    SingleCollateralMultiRewardBond
+} from '../../typechain-types'
+import {log} from '../../config/logging'
+import {createBondEventLogs} from '../../test/event/bond/bond-creator-events'
+import {
+    allowRedemptionEventLogs,
+    debtIssueEventLogs,
+    depositEventLogs,
+    expireEventLogs,
+    fullCollateralEventLogs,
+    partialCollateralEventLogs,
+    redemptionEventLogs,
+    slashDepositsEventLogs,
+    withdrawCollateralEventLogs
+} from '../../test/event/bond/single-collateral-bond-events'
+import {
+    claimRewardEventLogs,
+    redemptionTimestampUpdateEventLogs
+} from '../../test/event/bond/time-lock-multi-reward-bond-events'
+import {erc20TransferEventLogs} from '../../test/event/erc20/erc20-events'
+import {erc20SweepEventLogs} from '../../test/event/sweep/sweep-erc20-events'
+import {TokenAmounts, tokenAmounts} from '../utils/erc20'
+import {formatMarkdownTable} from '../utils/table'
+
+/**
+ * Debt token balance of each guarantor, in whole tokens.
+ */
+export type GuarantorBalances = {[guarantor: string]: string}
+
+/**
+ * Single step in the lifecycle of a Bond, with the guarantor balances after it.
+ */
+export type TimelineEntry = {
+    blockNumber: number
+    logIndex: number
+    timestamp: string
+    transactionHash: string
+    event: string
+    description: string
+    balances: GuarantorBalances
+}
+
+export type BondTimeline = {
+    bond: string
+    name: string
+    symbol: string
+    collateralTokens: string
+    fromBlock: number
+    toBlock: number
+    entries: TimelineEntry[]
+}
+
+/**
+ * Bond events making up the lifecycle, with a Transfer only included when
+ * moving debt tokens between guarantors.
+ */
+const LIFECYCLE_EVENTS = [
+    'Deposit',
+    'DebtIssue',
+    'PartialCollateral',
+    'FullCollateral',
+    'SlashDeposits',
+    'AllowRedemption',
+    'RedemptionTimestampUpdate',
+    'Redemption',
+    'ClaimReward',
+    'Expire',
+    'WithdrawCollateral',
+    'ERC20Sweep',
+    'Transfer'
+]
+
+type LifecycleEvent = {
+    blockNumber: number
+    logIndex: number
+    transactionHash: string
+    parsed: utils.LogDescription
+}
+
+/**
+ * Reconstructs the lifecycle of the Bond from its events, and the CreateBond
+ * event of the factory that created it.
+ *
+ * Guarantor balances are tracked from the debt tokens issued on deposit,
+ * transferred between guarantors and burnt on redemption.
+ */
+export async function bondTimeline(
+    hre: HardhatRuntimeEnvironment,
+    bond: SingleCollateralMultiRewardBond,
+    factory: BondFactory,
+    fromBlock: number
+): Promise<BondTimeline> {
+    const toBlock = await hre.ethers.provider.getBlockNumber()
+    const events = await lifecycleEvents(hre, bond, factory, fromBlock, toBlock)
+    const tokens = tokenAmounts(hre)
+    const debt = (value: BigNumber) => amount(tokens, bond.address, value)
+    const balances = new Map<string, BigNumber>()
+    const timestamps = new Map<number, string>()
+    const entries: TimelineEntry[] = []
+
+    log.info(
+        'Reconstructing the timeline of Bond %s from %s events',
+        bond.address,
+        events.length
+    )
+
+    for (const event of events) {
+        const {name, args} = event.parsed
+        let description: string
+
+        switch (name) {
+            case 'CreateBond': {
+                const created = createBondEventLogs([args])[0]
+                description = `Created by ${
+                    created.instigator
+                } issuing ${await debt(
+                    created.configuration.debtTokenAmount
+                )}, treasury ${created.treasury}`
+                break
+            }
+            case 'Deposit': {
+                const deposit = depositEventLogs([args])[0]
+                description = `${deposit.depositor} deposited ${await amount(
+                    tokens,
+                    deposit.collateralTokens,
+                    deposit.collateralAmount
+                )}`
+                break
+            }
+            case 'DebtIssue': {
+                const issue = debtIssueEventLogs([args])[0]
+                credit(balances, issue.receiver, issue.debtAmount)
+                description = `${issue.receiver} issued ${await debt(
+                    issue.debtAmount
+                )}`
+                break
+            }
+            case 'Transfer': {
+                const transfer = erc20TransferEventLogs([args])[0]
+                debit(balances, transfer.from, transfer.value)
+                credit(balances, transfer.to, transfer.value)
+                description = `${transfer.from} transferred ${await debt(
+                    transfer.value
+                )} to ${transfer.to}`
+                break
+            }
+            case 'PartialCollateral': {
+                const partial = partialCollateralEventLogs([args])[0]
+                description = `Partial collateral of ${await amount(
+                    tokens,
+                    partial.collateralTokens,
+                    partial.collateralAmount
+                )} with ${await debt(partial.debtRemaining)} remaining`
+                break
+            }
+            case 'FullCollateral': {
+                const full = fullCollateralEventLogs([args])[0]
+                description = `Full collateral of ${await amount(
+                    tokens,
+                    full.collateralTokens,
+                    full.collateralAmount
+                )}`
+                break
+            }
+            case 'SlashDeposits': {
+                const slash = slashDepositsEventLogs([args])[0]
+                description = `${slash.instigator} slashed ${await amount(
+                    tokens,
+                    slash.collateralTokens,
+                    slash.collateralAmount
+                )}: ${slash.reason}`
+                break
+            }
+            case 'AllowRedemption': {
+                const allow = allowRedemptionEventLogs([args])[0]
+                description = `${allow.authorizer} allowed redemption: ${allow.reason}`
+                break
+            }
+            case 'RedemptionTimestampUpdate': {
+                const update = redemptionTimestampUpdateEventLogs([args])[0]
+                description = `Redemption timestamp set to ${isoDate(
+                    update.timestamp.toNumber()
+                )}`
+                break
+            }
+            case 'Redemption': {
+                const redemption = redemptionEventLogs([args])[0]
+                debit(balances, redemption.redeemer, redemption.debtAmount)
+                description = `${redemption.redeemer} redeemed ${await debt(
+                    redemption.debtAmount
+                )} for ${await amount(
+                    tokens,
+                    redemption.collateralTokens,
+                    redemption.collateralAmount
+                )}`
+                break
+            }
+            case 'ClaimReward': {
+                const claim = claimRewardEventLogs([args])[0]
+                description = `${claim.instigator} claimed ${await amount(
+                    tokens,
+                    claim.tokens,
+                    claim.amount
+                )}`
+                break
+            }
+            case 'Expire': {
+                const expire = expireEventLogs([args])[0]
+                description = `${
+                    expire.instigator
+                } expired the Bond, moving ${await amount(
+                    tokens,
+                    expire.collateralTokens,
+                    expire.collateralAmount
+                )} to ${expire.treasury}`
+                break
+            }
+            case 'WithdrawCollateral': {
+                const withdraw = withdrawCollateralEventLogs([args])[0]
+                description = `${withdraw.instigator} withdrew ${await amount(
+                    tokens,
+                    withdraw.collateralTokens,
+                    withdraw.collateralAmount
+                )} to ${withdraw.treasury}`
+                break
+            }
+            default: {
+                const sweep = erc20SweepEventLogs([args])[0]
+                description = `${sweep.instigator} swept ${await amount(
+                    tokens,
+                    sweep.tokens,
+                    sweep.amount
+                )} to ${sweep.beneficiary}`
+            }
+        }
+
+        entries.push({
+            blockNumber: event.blockNumber,
+            logIndex: event.logIndex,
+            timestamp: await blockTimestamp(hre, timestamps, event.blockNumber),
+            transactionHash: event.transactionHash,
+            event: name,
+            description,
+            balances: await guarantorBalances(tokens, bond, balances)
+        })
+    }
+
+    return {
+        bond: bond.address,
+        name: await bond.name(),
+        symbol: await bond.symbol(),
+        collateralTokens: await bond.collateralTokens(),
+        fromBlock,
+        toBlock,
+        entries
+    }
+}
+
+/**
+ * Formats the timeline as a Markdown document, suitable for an audit report.
+ */
+export function bondTimelineMarkdown(timeline: BondTimeline): string {
+    const guarantors = [
+        ...new Set(
+            timeline.entries.flatMap((entry) => Object.keys(entry.balances))
+        )
+    ]
+    const last = timeline.entries[timeline.entries.length - 1]
+
+    return [
+        `# ${timeline.name} (${timeline.symbol})`,
+        '',
+        `- Bond: ${timeline.bond}`,
+        `- Collateral tokens: ${timeline.collateralTokens}`,
+        `- Blocks: ${timeline.fromBlock} to ${timeline.toBlock}`,
+        '',
+        '## Timeline',
+        '',
+        formatMarkdownTable(
+            ['Time', 'Block', 'Event', 'Description', 'Transaction'],
+            timeline.entries.map((entry) => [
+                entry.timestamp,
+                String(entry.blockNumber),
+                entry.event,
+                entry.description,
+                entry.transactionHash
+            ])
+        ),
+        '',
+        '## Guarantor balances',
+        '',
+        formatMarkdownTable(
+            ['Time', 'Event', ...guarantors],
+            timeline.entries.map((entry) => [
+                entry.timestamp,
+                entry.event,
+                ...guarantors.map(
+                    (guarantor) => entry.balances[guarantor] ?? '0'
+                )
+            ])
+        ),
+        '',
+        '## Final balances',
+        '',
+        formatMarkdownTable(
+            ['Guarantor', timeline.symbol],
+            guarantors.map((guarantor) => [
+                guarantor,
+                last?.balances[guarantor] ?? '0'
+            ])
+        ),
+        ''
+    ].join('\n')
+}
+
+/**
+ * Lifecycle events of the Bond and its factory, in chronological order.
+ */
+async function lifecycleEvents(
+    hre: HardhatRuntimeEnvironment,
+    bond: SingleCollateralMultiRewardBond,
+    factory: BondFactory,
+    fromBlock: number,
+    toBlock: number
+): Promise<LifecycleEvent[]> {
+    const events: LifecycleEvent[] = (
+        await factory.queryFilter(
+            factory.filters.CreateBond(bond.address),
+            fromBlock,
+            toBlock
+        )
+    ).map((event) => ({
+        blockNumber: event.blockNumber,
+        logIndex: event.logIndex,
+        transactionHash: event.transactionHash,
+        parsed: factory.interface.parseLog(event)
+    }))
+
+    for (const entry of await hre.ethers.provider.getLogs({
+        address: bond.address,
+        fromBlock,
+        toBlock
+    })) {
+        const parsed = bond.interface.parseLog(entry)
+
+        if (isLifecycleEvent(bond.address, parsed)) {
+            events.push({
+                blockNumber: entry.blockNumber,
+                logIndex: entry.logIndex,
+                transactionHash: entry.transactionHash,
+                parsed
+            })
+        }
+    }
+
+    return events.sort(
+        (a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+    )
+}
+
+/**
+ * Mints, burns and the debt tokens the Bond issues from its own balance are
+ * covered by the DebtIssue and Redemption events.
+ */
+function isLifecycleEvent(bond: string, parsed: utils.LogDescription): boolean {
+    if (parsed.name !== 'Transfer') {
+        return LIFECYCLE_EVENTS.includes(parsed.name)
+    }
+
+    const transfer = erc20TransferEventLogs([parsed.args])[0]
+
+    return ![constants.AddressZero, bond].some((excluded) =>
+        [transfer.from, transfer.to].some(
+            (party) => party.toLowerCase() === excluded.toLowerCase()
+        )
+    )
+}
+
+function credit(
+    balances: Map<string, BigNumber>,
+    guarantor: string,
+    debtAmount: BigNumber
+): void {
+    balances.set(
+        guarantor,
+        (balances.get(guarantor) ?? BigNumber.from(0)).add(debtAmount)
+    )
+}
+
+function debit(
+    balances: Map<string, BigNumber>,
+    guarantor: string,
+    debtAmount: BigNumber
+): void {
+    balances.set(
+        guarantor,
+        (balances.get(guarantor) ?? BigNumber.from(0)).sub(debtAmount)
+    )
+}
+
+async function guarantorBalances(
+    tokens: TokenAmounts,
+    bond: SingleCollateralMultiRewardBond,
+    balances: Map<string, BigNumber>
+): Promise<GuarantorBalances> {
+    const formatted: GuarantorBalances = {}
+
+    for (const [guarantor, balance] of balances) {
+        formatted[guarantor] = (await tokens(bond.address, balance)).amount
+    }
+
+    return formatted
+}
+
+async function amount(
+    tokens: TokenAmounts,
+    address: string,
+    value: BigNumber
+): Promise<string> {
+    const formatted = await tokens(address, value)
+
+    return `${formatted.amount} ${formatted.symbol}`
+}
+
+async function blockTimestamp(
+    hre: HardhatRuntimeEnvironment,
+    timestamps: Map<number, string>,
+    blockNumber: number
+): Promise<string> {
+    let timestamp = timestamps.get(blockNumber)
+
+    if (!timestamp) {
+        timestamp = isoDate(
+            (await hre.ethers.provider.getBlock(blockNumber)).timestamp
+        )
+        timestamps.set(blockNumber, timestamp)
+    }
+
+    return timestamp
+}
+
+function isoDate(seconds: number): string {
+    return new Date(seconds * 1000).toISOString()
+}
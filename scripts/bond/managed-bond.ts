@@ -0,0 +1,89 @@
+import {HardhatRuntimeEnvironment} from 'hardhat/types'
+import {
+    BondMediator,
+    SingleCollateralMultiRewardBond
+} from '../../typechain-types'
+
+/**
+ * Selection of a Bond managed by a DAO, either by address or by its index
+ * within the DAO.
+ */
+export type BondSelection = {
+    daoId: bigint
+    bond?: string
+    index?: bigint
+}
+
+/**
+ * Attaches to the selected Bond, failing unless the DAO manages it.
+ */
+export async function managedBondAt(
+    hre: HardhatRuntimeEnvironment,
+    mediator: BondMediator,
+    selection: BondSelection
+): Promise<SingleCollateralMultiRewardBond> {
+    const address = await managedBondAddress(mediator, selection)
+
+    return <SingleCollateralMultiRewardBond>(
+        await hre.ethers.getContractAt(
+            'SingleCollateralMultiRewardBond',
+            address
+        )
+    )
+}
+
+/**
+ * Addresses of every Bond managed by the DAO.
+ */
+export async function managedBonds(
+    mediator: BondMediator,
+    daoId: bigint
+): Promise<string[]> {
+    const count = (await mediator.bondCount(daoId)).toNumber()
+    const bonds: string[] = []
+
+    for (let index = 0; index < count; index++) {
+        bonds.push(await mediator.bondAt(daoId, index))
+    }
+
+    return bonds
+}
+
+async function managedBondAddress(
+    mediator: BondMediator,
+    selection: BondSelection
+): Promise<string> {
+    const {daoId, bond, index} = selection
+
+    if (typeof bond === 'string' && typeof index === 'bigint') {
+        throw Error('Select the Bond by either address or index, not both')
+    }
+
+    if (typeof index === 'bigint') {
+        const count = (await mediator.bondCount(daoId)).toBigInt()
+
+        if (index >= count) {
+            throw Error(
+                `Bond index ${index} is out of range, DAO ${daoId} has ${count} Bonds`
+            )
+        }
+
+        return mediator.bondAt(daoId, index)
+    }
+
+    if (typeof bond === 'string') {
+        const bonds = await managedBonds(mediator, daoId)
+
+        if (
+            !bonds.some(
+                (managed) => managed.toLowerCase() === bond.toLowerCase()
+            )
+        ) {
+            throw Error(`Bond ${bond} is not managed by DAO ${daoId}`)
+        }
+
+        return bond
+    }
+
+    throw Error('Select the Bond by either address or index')
+}
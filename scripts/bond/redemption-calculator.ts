@@ -0,0 +1,211 @@
+import {BigNumber, CallOverrides, providers, utils} from 'ethers'
+
+/**
+ * Accuracy of the redemption ratio, matching _REDEMPTION_RATIO_ACCURACY of
+ * ERC20SingleCollateralBond.
+ */
+export const REDEMPTION_RATIO_ACCURACY = 10000n
+
+/**
+ * Balances of an ERC20SingleCollateralBond that determine the collateral
+ * returned on redemption.
+ */
+export type RedemptionState = {
+    /** Collateral held by the Bond, after any slashing and redemptions. */
+    collateral: bigint
+    /** Collateral moved to the treasury by slashing. */
+    collateralSlashed: bigint
+    /**
+     * Debt tokens without matching collateral deposits, those held by the Bond
+     * until redemption is allowed, then the excess recorded at that time.
+     */
+    debtTokens: bigint
+    /** Debt tokens, both those held by guarantors and the Bond. */
+    totalSupply: bigint
+}
+
+/**
+ * Outcome of a single redemption, with the state of the Bond afterwards.
+ */
+export type Redemption = {
+    debtAmount: bigint
+    collateralAmount: bigint
+    state: RedemptionState
+}
+
+/**
+ * Bond functions providing the redemption state, satisfied by any
+ * ERC20SingleCollateralBond.
+ */
+export type RedemptionStateSource = {
+    address: string
+    provider: providers.Provider
+    collateral(overrides?: CallOverrides): Promise<BigNumber>
+    collateralSlashed(overrides?: CallOverrides): Promise<BigNumber>
+    debtTokens(overrides?: CallOverrides): Promise<BigNumber>
+    excessDebtTokens(overrides?: CallOverrides): Promise<BigNumber>
+    totalSupply(overrides?: CallOverrides): Promise<BigNumber>
+    redeemable(overrides?: CallOverrides): Promise<boolean>
+}
+
+const ALLOW_REDEMPTION_TOPIC = utils.id('AllowRedemption(address,string)')
+
+/**
+ * Mirrors _hasBeenSlashed, with the debt tokens remaining being the excess
+ * recorded when redemption is allowed.
+ */
+export function hasBeenSlashed(state: RedemptionState): boolean {
+    return state.collateral !== state.totalSupply - state.debtTokens
+}
+
+/**
+ * Mirrors _calculateRedemptionRatio, evaluated against the state when
+ * redemption is allowed.
+ */
+export function calculateRedemptionRatio(state: RedemptionState): bigint {
+    return (
+        (REDEMPTION_RATIO_ACCURACY * state.collateral) /
+        (state.totalSupply - state.debtTokens)
+    )
+}
+
+/**
+ * Redemption ratio the Bond records when redemption is allowed, which remains
+ * zero unless the Bond has been slashed.
+ */
+export function redemptionRatio(state: RedemptionState): bigint {
+    return hasBeenSlashed(state) ? calculateRedemptionRatio(state) : 0n
+}
+
+/**
+ * Mirrors _applyRedemptionRation.
+ */
+export function applyRedemptionRatio(ratio: bigint, amount: bigint): bigint {
+    return (ratio * amount) / REDEMPTION_RATIO_ACCURACY
+}
+
+/**
+ * Mirrors _redemptionAmount, the collateral returned for redeeming the amount
+ * of debt tokens.
+ */
+export function redemptionAmount(
+    state: RedemptionState,
+    ratio: bigint,
+    amount: bigint
+): bigint {
+    return state.collateral === state.totalSupply - state.debtTokens
+        ? amount
+        : applyRedemptionRatio(ratio, amount)
+}
+
+/**
+ * Applies a redemption as redeem() would, giving the collateral returned and
+ * the resulting state for any following redemptions.
+ */
+export function simulateRedemption(
+    state: RedemptionState,
+    ratio: bigint,
+    amount: bigint
+): Redemption {
+    if (amount <= 0n) {
+        throw Error('Redemption amount must be greater than zero')
+    }
+    if (amount > state.totalSupply - state.debtTokens) {
+        throw Error(
+            `Redemption of ${amount} exceeds the ${
+                state.totalSupply - state.debtTokens
+            } debt tokens held by guarantors`
+        )
+    }
+
+    const collateralAmount = redemptionAmount(state, ratio, amount)
+
+    return {
+        debtAmount: amount,
+        collateralAmount,
+        state: {
+            ...state,
+            collateral: state.collateral - collateralAmount,
+            totalSupply: state.totalSupply - amount
+        }
+    }
+}
+
+/**
+ * Applies a hypothetical slash, as slash() would before redemption.
+ */
+export function simulateSlash(
+    state: RedemptionState,
+    amount: bigint
+): RedemptionState {
+    if (amount <= 0n) {
+        throw Error('Slash amount must be greater than zero')
+    }
+    if (amount > state.collateral) {
+        throw Error(
+            `Slash of ${amount} exceeds the ${state.collateral} collateral held`
+        )
+    }
+
+    return {
+        ...state,
+        collateral: state.collateral - amount,
+        collateralSlashed: state.collateralSlashed + amount
+    }
+}
+
+/**
+ * Reads the redemption state of the Bond, by default from the latest block.
+ *
+ * Once redeemable, the Bond uses the excess debt tokens it recorded when
+ * redemption was allowed, ignoring any debt tokens it has received since.
+ */
+export async function readRedemptionState(
+    bond: RedemptionStateSource,
+    blockTag?: providers.BlockTag
+): Promise<RedemptionState> {
+    const overrides = typeof blockTag === 'undefined' ? {} : {blockTag}
+    const debtTokens = (await bond.redeemable(overrides))
+        ? await bond.excessDebtTokens(overrides)
+        : await bond.debtTokens(overrides)
+
+    return {
+        collateral: (await bond.collateral(overrides)).toBigInt(),
+        collateralSlashed: (await bond.collateralSlashed(overrides)).toBigInt(),
+        debtTokens: debtTokens.toBigInt(),
+        totalSupply: (await bond.totalSupply(overrides)).toBigInt()
+    }
+}
+
+/**
+ * Redemption ratio of the Bond, either as recorded when redemption was allowed
+ * or as it would be if redemption were allowed now.
+ *
+ * As the ratio is private to the Bond, once redeemable it is recalculated
+ * from the state at the end of the block that allowed redemption, which
+ * assumes no redemptions followed in that same block.
+ *
+ * @param fromBlock block to search for the AllowRedemption event from.
+ */
+export async function readRedemptionRatio(
+    bond: RedemptionStateSource,
+    fromBlock: number
+): Promise<bigint> {
+    if (!(await bond.redeemable())) {
+        return redemptionRatio(await readRedemptionState(bond))
+    }
+
+    const allowed = await bond.provider.getLogs({
+        address: bond.address,
+        topics: [ALLOW_REDEMPTION_TOPIC],
+        fromBlock
+    })
+
+    if (allowed.length === 0) {
+        throw Error(`No AllowRedemption event found for Bond ${bond.address}`)
+    }
+
+    return redemptionRatio(
+        await readRedemptionState(bond, allowed[0].blockNumber)
+    )
+}
@@ -0,0 +1,186 @@
+import {HardhatRuntimeEnvironment} from 'hardhat/types'
+import {SingleCollateralMultiRewardBond} from '../../typechain-types'
+import {tokenAmounts} from '../utils/erc20'
+
+/**
+ * When a reward pool unlocks for a claimant, with the amounts in whole tokens.
+ */
+export type RewardUnlock = {
+    claimant: string
+    tokens: string
+    symbol: string
+    timeLockSeconds: number
+    /** Absent until the Bond has a redemption timestamp. */
+    unlockTimestamp?: string
+    unlocked: boolean
+    claimable: string
+    rewardDebt: string
+}
+
+export type RewardSchedule = {
+    bond: string
+    symbol: string
+    /** Absent until the Bond has a redemption timestamp. */
+    redemptionTimestamp?: string
+    asOf: string
+    unlocks: RewardUnlock[]
+}
+
+/**
+ * Column headers for the rows of rewardScheduleRows().
+ */
+export const REWARD_SCHEDULE_COLUMNS = [
+    'Claimant',
+    'Reward',
+    'Time lock (s)',
+    'Unlocks',
+    'Unlocked',
+    'Claimable',
+    'Reward debt'
+]
+
+/**
+ * Every claimant assigned reward debt by the Bond, from the RewardDebt events,
+ * excluding the Bond itself for the debt tokens it holds before issuing them.
+ */
+export async function rewardClaimants(
+    bond: SingleCollateralMultiRewardBond,
+    fromBlock: number
+): Promise<string[]> {
+    const claimants = new Set<string>()
+
+    for (const event of await bond.queryFilter(
+        bond.filters.RewardDebt(),
+        fromBlock
+    )) {
+        claimants.add(event.args.claimant)
+    }
+    claimants.delete(bond.address)
+
+    return [...claimants]
+}
+
+/**
+ * Schedule of when each reward pool unlocks for each claimant, being the
+ * redemption timestamp plus the time lock of the pool, with what they may
+ * claim as of the latest block.
+ */
+export async function rewardSchedule(
+    hre: HardhatRuntimeEnvironment,
+    bond: SingleCollateralMultiRewardBond,
+    claimants: string[]
+): Promise<RewardSchedule> {
+    const tokens = tokenAmounts(hre)
+    const now = (await hre.ethers.provider.getBlock('latest')).timestamp
+    const redemptionTimestamp = (await bond.redemptionTimestamp()).toNumber()
+    const pools = await bond.timeLockRewardPools()
+    const unlocks: RewardUnlock[] = []
+
+    // Without a signer, the call may be made from any claimant
+    const reader = bond.connect(hre.ethers.provider)
+
+    for (const claimant of claimants) {
+        const available = await reader.availableRewards({from: claimant})
+
+        for (let i = 0; i < pools.length; i++) {
+            const pool = pools[i]
+            const timeLock = pool.timeLock.toNumber()
+            const unlockTimestamp =
+                redemptionTimestamp > 0 ? redemptionTimestamp + timeLock : 0
+            const debt = await tokens(
+                pool.tokens,
+                await bond.rewardDebt(claimant, pool.tokens)
+            )
+
+            unlocks.push({
+                claimant,
+                tokens: pool.tokens,
+                symbol: debt.symbol,
+                timeLockSeconds: timeLock,
+                ...(unlockTimestamp > 0 && {
+                    unlockTimestamp: isoDate(unlockTimestamp)
+                }),
+                unlocked: unlockTimestamp > 0 && now >= unlockTimestamp,
+                claimable: (await tokens(pool.tokens, available[i].amount))
+                    .amount,
+                rewardDebt: debt.amount
+            })
+        }
+    }
+
+    return {
+        bond: bond.address,
+        symbol: await bond.symbol(),
+        ...(redemptionTimestamp > 0 && {
+            redemptionTimestamp: isoDate(redemptionTimestamp)
+        }),
+        asOf: isoDate(now),
+        unlocks
+    }
+}
+
+/**
+ * Flattens the schedule into a row per claimant and reward pool.
+ */
+export function rewardScheduleRows(schedule: RewardSchedule): string[][] {
+    return schedule.unlocks.map((unlock) => [
+        unlock.claimant,
+        unlock.symbol,
+        String(unlock.timeLockSeconds),
+        unlock.unlockTimestamp ?? 'redemption timestamp not set',
+        String(unlock.unlocked),
+        unlock.claimable,
+        unlock.rewardDebt
+    ])
+}
+
+/**
+ * Formats the schedule as an iCalendar (RFC 5545), with an event for every
+ * reward unlock that still has reward debt to claim.
+ */
+export function rewardScheduleICalendar(schedule: RewardSchedule): string {
+    const stamp = icalDate(schedule.asOf)
+    const events = schedule.unlocks
+        .filter(
+            (unlock) =>
+                typeof unlock.unlockTimestamp === 'string' &&
+                Number(unlock.rewardDebt) > 0
+        )
+        .flatMap((unlock) => [
+            'BEGIN:VEVENT',
+            `UID:${schedule.bond}-${unlock.claimant}-${unlock.tokens}`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART:${icalDate(String(unlock.unlockTimestamp))}`,
+            `SUMMARY:${icalText(
+                `${unlock.rewardDebt} ${unlock.symbol} reward unlocks on ${schedule.symbol}`
+            )}`,
+            `DESCRIPTION:${icalText(
+                `Reward of ${unlock.rewardDebt} ${unlock.symbol} (${unlock.tokens}) claimable by ${unlock.claimant} from Bond ${schedule.bond}`
+            )}`,
+            'END:VEVENT'
+        ])
+
+    return [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//performance-bonds//reward-schedule//EN',
+        ...events,
+        'END:VCALENDAR',
+        ''
+    ].join('\r\n')
+}
+
+/**
+ * Converts an ISO date into the iCalendar UTC date-time form.
+ */
+function icalDate(iso: string): string {
+    return iso.replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function icalText(text: string): string {
+    return text.replace(/[\\;,]/g, (match) => `\\${match}`)
+}
+
+function isoDate(seconds: number): string {
+    return new Date(seconds * 1000).toISOString()
+}
@@ -0,0 +1,304 @@
+import {HardhatRuntimeEnvironment} from 'hardhat/types'
+import {BigNumber, utils} from 'ethers'
+import {
+    BondMediator,
+    SingleCollateralMultiRewardBond,
+    StakingPool,
+    StakingPoolMediator
+} from '../../typechain-types'
+import {RewardType} from '../../test/event/staking/staking-events'
+import {managedBonds} from '../bond/managed-bond'
+import {managedStakingPools} from '../staking/managed-staking-pool'
+import {TokenAmountReport, TokenAmounts, tokenAmounts} from '../utils/erc20'
+
+export type BondReport = {
+    address: string
+    name: string
+    symbol: string
+    collateral: TokenAmountReport
+    debtTokensOutstanding: string
+    redeemable: boolean
+    paused: boolean
+    expiry: string
+}
+
+export type StakingPoolReport = {
+    address: string
+    treasury: string
+    rewardType: string
+    stakeToken: string
+    stakeSymbol: string
+    minTotalPoolStake: string
+    maxTotalPoolStake: string
+    minimumContribution: string
+    totalStaked: string
+    epochStart: string
+    epochDurationSeconds: number
+    rewardsAvailable: string
+    rewards: TokenAmountReport[]
+    emergencyMode: boolean
+    paused: boolean
+}
+
+/**
+ * Configuration and holdings of a DAO within a single mediator.
+ */
+export type DaoReport = {
+    mediator: string
+    daoId: string
+    treasury: string
+    metaData: string
+    collateralWhitelist: string[]
+    bonds: BondReport[]
+    stakingPools: StakingPoolReport[]
+}
+
+/**
+ * Reports on every DAO of the BondMediator, with the Bonds they manage.
+ */
+export async function bondMediatorReport(
+    hre: HardhatRuntimeEnvironment,
+    mediator: BondMediator
+): Promise<DaoReport[]> {
+    const tokens = tokenAmounts(hre)
+    const reports: DaoReport[] = []
+
+    for (const daoId of await daoIds(mediator)) {
+        const bonds: BondReport[] = []
+
+        for (const address of await managedBonds(mediator, daoId)) {
+            bonds.push(
+                await bondReport(
+                    <SingleCollateralMultiRewardBond>(
+                        await hre.ethers.getContractAt(
+                            'SingleCollateralMultiRewardBond',
+                            address
+                        )
+                    ),
+                    tokens
+                )
+            )
+        }
+
+        reports.push({
+            ...(await daoReport('BondMediator', mediator, daoId)),
+            bonds
+        })
+    }
+
+    return reports
+}
+
+/**
+ * Reports on every DAO of the StakingPoolMediator, with the StakingPools they
+ * manage.
+ */
+export async function stakingPoolMediatorReport(
+    hre: HardhatRuntimeEnvironment,
+    mediator: StakingPoolMediator
+): Promise<DaoReport[]> {
+    const tokens = tokenAmounts(hre)
+    const reports: DaoReport[] = []
+
+    for (const daoId of await daoIds(mediator)) {
+        const stakingPools: StakingPoolReport[] = []
+
+        for (const address of await managedStakingPools(mediator, daoId)) {
+            stakingPools.push(
+                await stakingPoolReport(
+                    <StakingPool>(
+                        await hre.ethers.getContractAt('StakingPool', address)
+                    ),
+                    tokens
+                )
+            )
+        }
+
+        reports.push({
+            ...(await daoReport('StakingPoolMediator', mediator, daoId)),
+            stakingPools
+        })
+    }
+
+    return reports
+}
+
+/**
+ * Column headers for the rows of daoReportRows().
+ */
+export const DAO_REPORT_COLUMNS = [
+    'Mediator',
+    'DAO',
+    'DAO treasury',
+    'DAO meta data',
+    'Whitelisted collateral',
+    'Kind',
+    'Address',
+    'Tokens',
+    'Symbol',
+    'Amount',
+    'Debt outstanding',
+    'Redeemable',
+    'Paused',
+    'Emergency mode',
+    'Ends'
+]
+
+/**
+ * Flattens the reports into a row per Bond and StakingPool, with the
+ * collateral held by a Bond and the stake held by a StakingPool as the amount.
+ *
+ * Every row starts with the configuration of its DAO, with a DAO managing
+ * neither Bonds nor StakingPools given a row of only its configuration.
+ */
+export function daoReportRows(reports: DaoReport[]): string[][] {
+    return reports.flatMap((dao) => {
+        const configuration = [
+            dao.mediator,
+            dao.daoId,
+            dao.treasury,
+            dao.metaData,
+            dao.collateralWhitelist.join(' ')
+        ]
+        const rows = [
+            ...dao.bonds.map((bond) => [
+                ...configuration,
+                'Bond',
+                bond.address,
+                bond.collateral.tokens,
+                bond.collateral.symbol,
+                bond.collateral.amount,
+                bond.debtTokensOutstanding,
+                String(bond.redeemable),
+                String(bond.paused),
+                '',
+                bond.expiry
+            ]),
+            ...dao.stakingPools.map((stakingPool) => [
+                ...configuration,
+                'StakingPool',
+                stakingPool.address,
+                stakingPool.stakeToken,
+                stakingPool.stakeSymbol,
+                stakingPool.totalStaked,
+                '',
+                '',
+                String(stakingPool.paused),
+                String(stakingPool.emergencyMode),
+                epochEnd(stakingPool)
+            ])
+        ]
+
+        if (rows.length === 0) {
+            rows.push([
+                ...configuration,
+                ...Array<string>(
+                    DAO_REPORT_COLUMNS.length - configuration.length
+                ).fill('')
+            ])
+        }
+
+        return rows
+    })
+}
+
+/**
+ * IDs of every DAO created on the mediator.
+ */
+export async function daoIds(
+    mediator: BondMediator | StakingPoolMediator
+): Promise<bigint[]> {
+    const highest = (await mediator.highestDaoId()).toBigInt()
+    const ids: bigint[] = []
+
+    for (let daoId = 1n; daoId <= highest; daoId++) {
+        ids.push(daoId)
+    }
+
+    return ids
+}
+
+async function daoReport(
+    name: string,
+    mediator: BondMediator | StakingPoolMediator,
+    daoId: bigint
+): Promise<DaoReport> {
+    return {
+        mediator: name,
+        daoId: daoId.toString(),
+        treasury: await mediator.daoTreasury(daoId),
+        metaData: await mediator.daoMetaData(daoId),
+        collateralWhitelist: await mediator.daoCollateralSymbolWhitelist(daoId),
+        bonds: [],
+        stakingPools: []
+    }
+}
+
+async function bondReport(
+    bond: SingleCollateralMultiRewardBond,
+    tokens: TokenAmounts
+): Promise<BondReport> {
+    const collateralTokens = await bond.collateralTokens()
+
+    return {
+        address: bond.address,
+        name: await bond.name(),
+        symbol: await bond.symbol(),
+        collateral: await tokens(collateralTokens, await bond.collateral()),
+        debtTokensOutstanding: utils.formatUnits(
+            await bond.debtTokensOutstanding(),
+            await bond.decimals()
+        ),
+        redeemable: await bond.redeemable(),
+        paused: await bond.paused(),
+        expiry: isoDate((await bond.expiryTimestamp()).toNumber())
+    }
+}
+
+async function stakingPoolReport(
+    stakingPool: StakingPool,
+    tokens: TokenAmounts
+): Promise<StakingPoolReport> {
+    const config = await stakingPool.stakingPoolData()
+    const stake = async (amount: BigNumber) =>
+        (await tokens(config.stakeToken, amount)).amount
+    const staked = await tokens(
+        config.stakeToken,
+        await stakingPool.totalStakedAmount()
+    )
+    const rewards: TokenAmountReport[] = []
+
+    for (const reward of config.rewardTokens) {
+        rewards.push(await tokens(reward.tokens, reward.maxAmount))
+    }
+
+    return {
+        address: stakingPool.address,
+        treasury: config.treasury,
+        rewardType: RewardType[config.rewardType],
+        stakeToken: config.stakeToken,
+        stakeSymbol: staked.symbol,
+        minTotalPoolStake: await stake(config.minTotalPoolStake),
+        maxTotalPoolStake: await stake(config.maxTotalPoolStake),
+        minimumContribution: await stake(config.minimumContribution),
+        totalStaked: staked.amount,
+        epochStart: isoDate(config.epochStartTimestamp),
+        epochDurationSeconds: config.epochDuration,
+        rewardsAvailable: isoDate(
+            await stakingPool.rewardsAvailableTimestamp()
+        ),
+        rewards,
+        emergencyMode: await stakingPool.emergencyMode(),
+        paused: await stakingPool.paused()
+    }
+}
+
+function epochEnd(stakingPool: StakingPoolReport): string {
+    const epochStart = Date.parse(stakingPool.epochStart) / 1000
+
+    return isoDate(epochStart + stakingPool.epochDurationSeconds)
+}
+
+function isoDate(seconds: number): string {
+    return new Date(seconds * 1000).toISOString()
+}
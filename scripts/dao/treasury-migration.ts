@@ -0,0 +1,166 @@
+import {HardhatRuntimeEnvironment} from 'hardhat/types'
+import {
+    BondMediator,
+    SingleCollateralMultiRewardBond
+} from '../../typechain-types'
+import {log} from '../../config/logging'
+import {managedBonds} from '../bond/managed-bond'
+import {BatchArgs} from '../utils/safe-batch'
+import {logEventLogs, submitTransaction} from '../utils/transaction-event-log'
+import {beneficiaryUpdateEventLogs} from '../../test/event/sweep/token-sweeo-events'
+
+export type TreasuryMigrationOptions = BatchArgs & {
+    /** Report the Bonds to migrate, without migrating them. */
+    dryRun: boolean
+}
+
+export type MigrationOutcome =
+    | 'aligned'
+    | 'migrated'
+    | 'batched'
+    | 'dry run'
+    | 'paused'
+    | 'failed'
+
+export type BondTreasury = {
+    bond: string
+    symbol: string
+    /** Treasury of the Bond before the migration. */
+    treasury: string
+    outcome: MigrationOutcome
+    transactionHash?: string
+}
+
+export type TreasuryMigration = {
+    daoId: string
+    daoTreasury: string
+    bonds: BondTreasury[]
+}
+
+/**
+ * Column headers for the rows of treasuryMigrationRows().
+ */
+export const TREASURY_MIGRATION_COLUMNS = [
+    'Bond',
+    'Symbol',
+    'Treasury',
+    'Outcome',
+    'Transaction'
+]
+
+/**
+ * Replaces the treasury of every Bond of the DAO that differs from the
+ * treasury of the DAO, as changing the DAO treasury leaves its existing Bonds
+ * with the treasury they were created with.
+ *
+ * Paused Bonds refuse a replacement treasury, so are reported rather than
+ * migrated. A failure is reported and the remaining Bonds are still migrated.
+ */
+export async function migrateTreasury(
+    hre: HardhatRuntimeEnvironment,
+    mediator: BondMediator,
+    daoId: bigint,
+    options: TreasuryMigrationOptions
+): Promise<TreasuryMigration> {
+    const daoTreasury = await mediator.daoTreasury(daoId)
+
+    if (daoTreasury === hre.ethers.constants.AddressZero) {
+        throw Error(`No DAO ${daoId} with BondMediator`)
+    }
+
+    const bonds: BondTreasury[] = []
+
+    for (const address of await managedBonds(mediator, daoId)) {
+        const bond = <SingleCollateralMultiRewardBond>(
+            await hre.ethers.getContractAt(
+                'SingleCollateralMultiRewardBond',
+                address
+            )
+        )
+        const treasury = await bond.treasury()
+        const migrated: Pick<BondTreasury, 'outcome' | 'transactionHash'> =
+            treasury === daoTreasury
+                ? {outcome: 'aligned'}
+                : await migrate(mediator, daoId, bond, daoTreasury, options)
+
+        bonds.push({
+            bond: address,
+            symbol: await bond.symbol(),
+            treasury,
+            ...migrated
+        })
+    }
+
+    return {daoId: daoId.toString(), daoTreasury, bonds}
+}
+
+/**
+ * Flattens the migration into a row per Bond.
+ */
+export function treasuryMigrationRows(
+    migration: TreasuryMigration
+): string[][] {
+    return migration.bonds.map((bond) => [
+        bond.bond,
+        bond.symbol,
+        bond.treasury,
+        bond.outcome,
+        bond.transactionHash ?? ''
+    ])
+}
+
+async function migrate(
+    mediator: BondMediator,
+    daoId: bigint,
+    bond: SingleCollateralMultiRewardBond,
+    daoTreasury: string,
+    options: TreasuryMigrationOptions
+): Promise<Pick<BondTreasury, 'outcome' | 'transactionHash'>> {
+    if (await bond.paused()) {
+        log.warn('Bond %s is paused, its treasury cannot be set', bond.address)
+        return {outcome: 'paused'}
+    }
+
+    if (options.dryRun) {
+        log.info(
+            'Dry run, Bond %s treasury would be set to %s',
+            bond.address,
+            daoTreasury
+        )
+        return {outcome: 'dry run'}
+    }
+
+    log.info('Setting the treasury of Bond %s to %s', bond.address, daoTreasury)
+
+    try {
+        const receipt = await submitTransaction(
+            options,
+            mediator,
+            mediator.populateTransaction.bondSetTreasury(
+                daoId,
+                bond.address,
+                daoTreasury
+            )
+        )
+
+        if (receipt === null) {
+            return {outcome: 'batched'}
+        }
+
+        logEventLogs(
+            bond,
+            receipt,
+            'BeneficiaryUpdate',
+            beneficiaryUpdateEventLogs
+        )
+
+        return {outcome: 'migrated', transactionHash: receipt.transactionHash}
+    } catch (error) {
+        log.error(
+            'Bond %s treasury failed to be set: %s',
+            bond.address,
+            error instanceof Error ? error.message : error
+        )
+        return {outcome: 'failed'}
+    }
+}
@@ -1,8 +1,13 @@
 import {BitDAO} from '../../typechain-types'
 import {deployContract} from '../utils/contract'
+import {DeployStep, deployContractStep} from '../utils/deploy-step'
 import {signer} from '../../test/framework/contracts'
 
-export async function deployBitDao(): Promise<void> {
-    const deployer = await signer(0)
-    await deployContract<BitDAO>('BitDAO', deployer.address)
+export function bitDaoSteps(): DeployStep[] {
+    return [
+        deployContractStep('BitDAO', async () => {
+            const deployer = await signer(0)
+            return deployContract<BitDAO>('BitDAO', deployer.address)
+        })
+    ]
 }
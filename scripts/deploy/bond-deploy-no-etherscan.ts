@@ -1,16 +1,22 @@
+import {network} from 'hardhat'
 import {BondFactory, BondMediator} from '../../typechain-types'
 import {deployContract, deployContractWithProxy} from '../utils/contract'
+import {DeployStep, deployContractStep} from '../utils/deploy-step'
+import {deployedAddress} from '../utils/deployment-manifest'
 
-export async function deployPerformanceBonds(
+export function performanceBondSteps(
     tokenSweepBeneficiary: string
-): Promise<void> {
-    const factory = await deployContract<BondFactory>(
-        'BondFactory',
-        tokenSweepBeneficiary
-    )
-    await deployContractWithProxy<BondMediator>(
-        'BondMediator',
-        factory.address,
-        tokenSweepBeneficiary
-    )
+): DeployStep[] {
+    return [
+        deployContractStep('BondFactory', async () =>
+            deployContract<BondFactory>('BondFactory', tokenSweepBeneficiary)
+        ),
+        deployContractStep('BondMediator', async () =>
+            deployContractWithProxy<BondMediator>(
+                'BondMediator',
+                deployedAddress(network.name, 'BondFactory'),
+                tokenSweepBeneficiary
+            )
+        )
+    ]
 }
@@ -1,26 +1,12 @@
-import {BondFactory, BondMediator} from '../../typechain-types'
-import {
-    awaitContractPropagation,
-    deployContract,
-    deployContractWithProxy,
-    verifyContract
-} from '../utils/contract'
+import {DeployStep, verifyContractStep} from '../utils/deploy-step'
+import {performanceBondSteps as deployPerformanceBondSteps} from './bond-deploy-no-etherscan'
 
-export async function deployPerformanceBonds(
+export function performanceBondSteps(
     tokenSweepBeneficiary: string
-): Promise<void> {
-    const factory = await deployContract<BondFactory>(
-        'BondFactory',
-        tokenSweepBeneficiary
-    )
-    const mediator = await deployContractWithProxy<BondMediator>(
-        'BondMediator',
-        factory.address,
-        tokenSweepBeneficiary
-    )
-
-    await awaitContractPropagation()
-
-    await verifyContract<BondFactory>(factory)
-    await verifyContract<BondMediator>(mediator)
+): DeployStep[] {
+    return [
+        ...deployPerformanceBondSteps(tokenSweepBeneficiary),
+        verifyContractStep('BondFactory'),
+        verifyContractStep('BondMediator')
+    ]
 }
@@ -1,12 +1,17 @@
 import {run} from 'hardhat'
 import {log} from '../../config/logging'
-import {deployBitDao} from './bitdao-deploy-no-etherscan'
-import {deployPerformanceBonds} from './bond-deploy-no-etherscan'
+import {deployAllSteps} from './deploy-all-steps'
+import {runDeploySteps} from '../utils/deploy-step'
+import {addressEnvironmentVariable} from '../utils/environment-variable'
 
 async function main() {
+    const tokenSweepBeneficiary = addressEnvironmentVariable(
+        'TOKEN_SWEEP_BENEFICIARY'
+    )
+
     await run('compile')
-    await deployBitDao()
-    await deployPerformanceBonds()
+
+    await runDeploySteps(deployAllSteps(tokenSweepBeneficiary, false))
 }
 
 main()
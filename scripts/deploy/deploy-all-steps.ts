@@ -0,0 +1,31 @@
+import {DeployStep} from '../utils/deploy-step'
+import {bitDaoSteps} from './bitdao-deploy-no-etherscan'
+import {performanceBondSteps} from './bond-deploy'
+import {performanceBondSteps as localPerformanceBondSteps} from './bond-deploy-no-etherscan'
+import {stakingPoolSteps} from './staking-deploy'
+import {stakingPoolSteps as localStakingPoolSteps} from './staking-deploy-no-etherscan'
+
+/**
+ * Every step to deploy both the Performance Bonds and Staking Pools.
+ *
+ * @param tokenSweepBeneficiary receiver of any ERC20 tokens swept.
+ * @param etherscan whether to verify the contracts with Etherscan, otherwise
+ *          being a local deployment that includes the BitDAO token contract.
+ */
+export function deployAllSteps(
+    tokenSweepBeneficiary: string,
+    etherscan: boolean
+): DeployStep[] {
+    if (etherscan) {
+        return [
+            ...performanceBondSteps(tokenSweepBeneficiary),
+            ...stakingPoolSteps(tokenSweepBeneficiary)
+        ]
+    }
+
+    return [
+        ...bitDaoSteps(),
+        ...localPerformanceBondSteps(tokenSweepBeneficiary),
+        ...localStakingPoolSteps(tokenSweepBeneficiary)
+    ]
+}
@@ -1,6 +1,7 @@
 import {run} from 'hardhat'
 import {log} from '../../config/logging'
-import {deployPerformanceBonds} from './bond-deploy'
+import {deployAllSteps} from './deploy-all-steps'
+import {runDeploySteps} from '../utils/deploy-step'
 import {addressEnvironmentVariable} from '../utils/environment-variable'
 
 async function main() {
@@ -10,7 +11,7 @@ async function main() {
 
     await run('compile')
 
-    await deployPerformanceBonds(tokenSweepBeneficiary)
+    await runDeploySteps(deployAllSteps(tokenSweepBeneficiary, true))
 }
 
 main()
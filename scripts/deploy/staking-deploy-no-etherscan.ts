@@ -0,0 +1,40 @@
+import {ethers, network} from 'hardhat'
+import {StakingPoolFactory, StakingPoolMediator} from '../../typechain-types'
+import {deployContract, deployContractWithProxy} from '../utils/contract'
+import {DeployStep, deployContractStep} from '../utils/deploy-step'
+import {deployedAddress} from '../utils/deployment-manifest'
+
+export function stakingPoolSteps(tokenSweepBeneficiary: string): DeployStep[] {
+    return [
+        deployContractStep('StakingPoolFactory', async () =>
+            deployContract<StakingPoolFactory>('StakingPoolFactory')
+        ),
+        {
+            name: 'Initialize StakingPoolFactory',
+            isComplete: async () => {
+                const owner = await (await stakingPoolFactory()).owner()
+                return owner !== ethers.constants.AddressZero
+            },
+            execute: async () => {
+                const factory = await stakingPoolFactory()
+                await (await factory.initialize(tokenSweepBeneficiary)).wait()
+            }
+        },
+        deployContractStep('StakingPoolMediator', async () =>
+            deployContractWithProxy<StakingPoolMediator>(
+                'StakingPoolMediator',
+                deployedAddress(network.name, 'StakingPoolFactory'),
+                tokenSweepBeneficiary
+            )
+        )
+    ]
+}
+
+async function stakingPoolFactory(): Promise<StakingPoolFactory> {
+    return <StakingPoolFactory>(
+        await ethers.getContractAt(
+            'StakingPoolFactory',
+            deployedAddress(network.name, 'StakingPoolFactory')
+        )
+    )
+}
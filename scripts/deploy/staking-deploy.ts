@@ -0,0 +1,10 @@
+import {DeployStep, verifyContractStep} from '../utils/deploy-step'
+import {stakingPoolSteps as deployStakingPoolSteps} from './staking-deploy-no-etherscan'
+
+export function stakingPoolSteps(tokenSweepBeneficiary: string): DeployStep[] {
+    return [
+        ...deployStakingPoolSteps(tokenSweepBeneficiary),
+        verifyContractStep('StakingPoolFactory'),
+        verifyContractStep('StakingPoolMediator')
+    ]
+}
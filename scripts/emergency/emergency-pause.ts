@@ -0,0 +1,335 @@
+import {HardhatRuntimeEnvironment} from 'hardhat/types'
+import {PopulatedTransaction} from 'ethers'
+import {
+    BondMediator,
+    SingleCollateralMultiRewardBond,
+    StakingPool,
+    StakingPoolMediator
+} from '../../typechain-types'
+import {log} from '../../config/logging'
+import {managedBonds} from '../bond/managed-bond'
+import {managedStakingPools} from '../staking/managed-staking-pool'
+import {BatchArgs} from '../utils/safe-batch'
+import {logEventLogs, submitTransaction} from '../utils/transaction-event-log'
+import {
+    pausedEventLogs,
+    unpausedEventLogs
+} from '../../test/event/pausable/pausable-events'
+
+export type EmergencyAction = 'pause' | 'unpause'
+
+export type EmergencyOptions = BatchArgs & {
+    /** Also pause or unpause the mediators themselves. */
+    mediators: boolean
+}
+
+export type PausableKind =
+    | 'Bond'
+    | 'StakingPool'
+    | 'BondMediator'
+    | 'StakingPoolMediator'
+
+export type PauseOutcome =
+    | 'paused'
+    | 'unpaused'
+    | 'batched'
+    | 'unchanged'
+    | 'mediator paused'
+    | 'failed'
+
+export type PauseChange = {
+    kind: PausableKind
+    address: string
+    outcome: PauseOutcome
+    transactionHash?: string
+}
+
+export type EmergencyReport = {
+    daoId: string
+    action: EmergencyAction
+    changes: PauseChange[]
+}
+
+/**
+ * Column headers for the rows of emergencyReportRows().
+ */
+export const EMERGENCY_REPORT_COLUMNS = [
+    'Kind',
+    'Address',
+    'Outcome',
+    'Transaction'
+]
+
+type Mediator = BondMediator | StakingPoolMediator
+
+type PauseTarget = {
+    kind: PausableKind
+    contract: Mediator | SingleCollateralMultiRewardBond | StakingPool
+    /** Mediator managing the Bond or StakingPool, sending its transaction. */
+    mediator?: Mediator
+    transaction: () => Promise<PopulatedTransaction>
+}
+
+/**
+ * Pauses every Bond and StakingPool of the DAO not already paused, then
+ * optionally the mediators, which would otherwise refuse pausing their Bonds
+ * and StakingPools.
+ *
+ * A failure is reported and the remaining contracts are still paused.
+ */
+export async function pauseDao(
+    hre: HardhatRuntimeEnvironment,
+    bondMediator: BondMediator,
+    stakingPoolMediator: StakingPoolMediator,
+    daoId: bigint,
+    options: EmergencyOptions
+): Promise<EmergencyReport> {
+    const targets = [
+        ...(await managedTargets(
+            hre,
+            bondMediator,
+            stakingPoolMediator,
+            daoId,
+            'pause'
+        )),
+        ...(options.mediators
+            ? mediatorTargets(bondMediator, stakingPoolMediator, 'pause')
+            : [])
+    ]
+
+    return {
+        daoId: daoId.toString(),
+        action: 'pause',
+        changes: await changePause(targets, 'pause', options)
+    }
+}
+
+/**
+ * Optionally unpauses the mediators, then unpauses every Bond and StakingPool
+ * of the DAO that is paused.
+ *
+ * A failure is reported and the remaining contracts are still unpaused.
+ */
+export async function unpauseDao(
+    hre: HardhatRuntimeEnvironment,
+    bondMediator: BondMediator,
+    stakingPoolMediator: StakingPoolMediator,
+    daoId: bigint,
+    options: EmergencyOptions
+): Promise<EmergencyReport> {
+    const targets = [
+        ...(options.mediators
+            ? mediatorTargets(bondMediator, stakingPoolMediator, 'unpause')
+            : []),
+        ...(await managedTargets(
+            hre,
+            bondMediator,
+            stakingPoolMediator,
+            daoId,
+            'unpause'
+        ))
+    ]
+
+    return {
+        daoId: daoId.toString(),
+        action: 'unpause',
+        changes: await changePause(targets, 'unpause', options)
+    }
+}
+
+/**
+ * Flattens the report into a row per contract.
+ */
+export function emergencyReportRows(report: EmergencyReport): string[][] {
+    return report.changes.map((change) => [
+        change.kind,
+        change.address,
+        change.outcome,
+        change.transactionHash ?? ''
+    ])
+}
+
+/**
+ * Sends or batches the transaction of each target not already in the state
+ * being changed to, in order.
+ *
+ * Whether each mediator is paused is tracked across the targets, as the chain
+ * does not reflect the transactions still waiting in a batch.
+ */
+async function changePause(
+    targets: PauseTarget[],
+    action: EmergencyAction,
+    options: EmergencyOptions
+): Promise<PauseChange[]> {
+    const mediatorPaused = new Map<string, boolean>()
+    const changes: PauseChange[] = []
+
+    for (const target of targets) {
+        const {kind, contract, mediator} = target
+        const change: PauseChange = {
+            kind,
+            address: contract.address,
+            outcome: 'unchanged'
+        }
+
+        if ((await contract.paused()) !== (action === 'pause')) {
+            if (mediator && (await isPaused(mediator, mediatorPaused))) {
+                log.warn(
+                    '%s %s is managed by the paused mediator %s',
+                    kind,
+                    contract.address,
+                    mediator.address
+                )
+                change.outcome = 'mediator paused'
+            } else {
+                Object.assign(change, await submit(target, action, options))
+
+                if (!mediator && change.outcome !== 'failed') {
+                    mediatorPaused.set(contract.address, action === 'pause')
+                }
+            }
+        }
+
+        changes.push(change)
+    }
+
+    return changes
+}
+
+async function submit(
+    target: PauseTarget,
+    action: EmergencyAction,
+    options: EmergencyOptions
+): Promise<{outcome: PauseOutcome; transactionHash?: string}> {
+    const {kind, contract, mediator} = target
+
+    log.info(
+        '%s %s %s',
+        action === 'pause' ? 'Pausing' : 'Unpausing',
+        kind,
+        contract.address
+    )
+
+    try {
+        const receipt = await submitTransaction(
+            options,
+            mediator ?? contract,
+            target.transaction()
+        )
+
+        if (receipt === null) {
+            return {outcome: 'batched'}
+        }
+
+        if (action === 'pause') {
+            logEventLogs(contract, receipt, 'Paused', pausedEventLogs)
+        } else {
+            logEventLogs(contract, receipt, 'Unpaused', unpausedEventLogs)
+        }
+
+        return {
+            outcome: action === 'pause' ? 'paused' : 'unpaused',
+            transactionHash: receipt.transactionHash
+        }
+    } catch (error) {
+        log.error(
+            '%s %s failed to %s: %s',
+            kind,
+            contract.address,
+            action,
+            error instanceof Error ? error.message : error
+        )
+        return {outcome: 'failed'}
+    }
+}
+
+function isPaused(
+    mediator: Mediator,
+    mediatorPaused: Map<string, boolean>
+): Promise<boolean> {
+    const tracked = mediatorPaused.get(mediator.address)
+
+    return typeof tracked === 'boolean'
+        ? Promise.resolve(tracked)
+        : mediator.paused()
+}
+
+async function managedTargets(
+    hre: HardhatRuntimeEnvironment,
+    bondMediator: BondMediator,
+    stakingPoolMediator: StakingPoolMediator,
+    daoId: bigint,
+    action: EmergencyAction
+): Promise<PauseTarget[]> {
+    const targets: PauseTarget[] = []
+
+    for (const address of await managedBonds(bondMediator, daoId)) {
+        targets.push({
+            kind: 'Bond',
+            contract: <SingleCollateralMultiRewardBond>(
+                await hre.ethers.getContractAt(
+                    'SingleCollateralMultiRewardBond',
+                    address
+                )
+            ),
+            mediator: bondMediator,
+            transaction: () =>
+                action === 'pause'
+                    ? bondMediator.populateTransaction.bondPause(daoId, address)
+                    : bondMediator.populateTransaction.bondUnpause(
+                          daoId,
+                          address
+                      )
+        })
+    }
+
+    for (const address of await managedStakingPools(
+        stakingPoolMediator,
+        daoId
+    )) {
+        targets.push({
+            kind: 'StakingPool',
+            contract: <StakingPool>(
+                await hre.ethers.getContractAt('StakingPool', address)
+            ),
+            mediator: stakingPoolMediator,
+            transaction: () =>
+                action === 'pause'
+                    ? stakingPoolMediator.populateTransaction.stakingPoolPause(
+                          daoId,
+                          address
+                      )
+                    : stakingPoolMediator.populateTransaction.stakingPoolUnpause(
+                          daoId,
+                          address
+                      )
+        })
+    }
+
+    return targets
+}
+
+function mediatorTargets(
+    bondMediator: BondMediator,
+    stakingPoolMediator: StakingPoolMediator,
+    action: EmergencyAction
+): PauseTarget[] {
+    return [
+        {
+            kind: 'BondMediator',
+            contract: bondMediator,
+            transaction: () =>
+                action === 'pause'
+                    ? bondMediator.populateTransaction.pause()
+                    : bondMediator.populateTransaction.unpause()
+        },
+        {
+            kind: 'StakingPoolMediator',
+            contract: stakingPoolMediator,
+            transaction: () =>
+                action === 'pause'
+                    ? stakingPoolMediator.populateTransaction.pause()
+                    : stakingPoolMediator.populateTransaction.unpause()
+        }
+    ]
+}
@@ -0,0 +1,163 @@
+import Database from 'better-sqlite3'
+
+/**
+ * Contract whose events are indexed, either from the deployment manifest or
+ * discovered from the events of another indexed contract.
+ */
+export type IndexedContract = {
+    address: string
+    name: string
+    discoveredBlock: number
+}
+
+/**
+ * Decoded event, with the arguments as JSON.
+ */
+export type IndexedEvent = {
+    blockNumber: number
+    blockHash: string
+    transactionHash: string
+    logIndex: number
+    address: string
+    contract: string
+    event: string
+    args: string
+}
+
+/**
+ * Hash of a block the index has been completed up to, used to detect a reorg.
+ */
+export type Checkpoint = {
+    blockNumber: number
+    blockHash: string
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS contracts (
+    address TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    discovered_block INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    address TEXT NOT NULL,
+    contract TEXT NOT NULL,
+    event TEXT NOT NULL,
+    args TEXT NOT NULL,
+    PRIMARY KEY (transaction_hash, log_index)
+);
+CREATE INDEX IF NOT EXISTS events_by_block ON events (block_number);
+CREATE INDEX IF NOT EXISTS events_by_address ON events (address);
+CREATE INDEX IF NOT EXISTS events_by_name ON events (event);
+CREATE TABLE IF NOT EXISTS checkpoints (
+    block_number INTEGER PRIMARY KEY,
+    block_hash TEXT NOT NULL
+);
+`
+
+/**
+ * Number of recent checkpoints kept, bounding how deep a reorg can be
+ * recovered from without re-indexing from the start.
+ */
+const CHECKPOINTS_KEPT = 256
+
+/**
+ * SQLite store of the indexed contracts, their events and the checkpoints.
+ */
+export class EventDatabase {
+    private readonly db: Database.Database
+
+    constructor(path: string) {
+        this.db = new Database(path)
+        this.db.pragma('journal_mode = WAL')
+        this.db.exec(SCHEMA)
+    }
+
+    contracts(): IndexedContract[] {
+        return <IndexedContract[]>(
+            this.db
+                .prepare(
+                    'SELECT address, name, discovered_block AS discoveredBlock FROM contracts'
+                )
+                .all()
+        )
+    }
+
+    addContract(contract: IndexedContract): void {
+        this.db
+            .prepare(
+                'INSERT OR IGNORE INTO contracts (address, name, discovered_block) VALUES (?, ?, ?)'
+            )
+            .run(contract.address, contract.name, contract.discoveredBlock)
+    }
+
+    /**
+     * Checkpoints from the most recent, going back in time.
+     */
+    checkpoints(): Checkpoint[] {
+        return <Checkpoint[]>(
+            this.db
+                .prepare(
+                    'SELECT block_number AS blockNumber, block_hash AS blockHash FROM checkpoints ORDER BY block_number DESC'
+                )
+                .all()
+        )
+    }
+
+    /**
+     * Atomically stores the events, contracts discovered from them and the
+     * checkpoint marking the range as complete.
+     */
+    commit(
+        events: IndexedEvent[],
+        discovered: IndexedContract[],
+        checkpoint: Checkpoint
+    ): void {
+        const insertEvent = this.db.prepare(
+            `INSERT OR REPLACE INTO events (block_number, block_hash, transaction_hash, log_index, address, contract, event, args)
+             VALUES (@blockNumber, @blockHash, @transactionHash, @logIndex, @address, @contract, @event, @args)`
+        )
+        const insertCheckpoint = this.db.prepare(
+            'INSERT OR REPLACE INTO checkpoints (block_number, block_hash) VALUES (?, ?)'
+        )
+        const pruneCheckpoints = this.db.prepare(
+            'DELETE FROM checkpoints WHERE block_number NOT IN (SELECT block_number FROM checkpoints ORDER BY block_number DESC LIMIT ?)'
+        )
+
+        this.db.transaction(() => {
+            for (const event of events) {
+                insertEvent.run(event)
+            }
+            for (const contract of discovered) {
+                this.addContract(contract)
+            }
+            insertCheckpoint.run(checkpoint.blockNumber, checkpoint.blockHash)
+            pruneCheckpoints.run(CHECKPOINTS_KEPT)
+        })()
+    }
+
+    /**
+     * Discards everything after the block, for when those blocks were
+     * orphaned by a reorg.
+     */
+    rewind(blockNumber: number): void {
+        this.db.transaction(() => {
+            this.db
+                .prepare('DELETE FROM events WHERE block_number > ?')
+                .run(blockNumber)
+            this.db
+                .prepare('DELETE FROM contracts WHERE discovered_block > ?')
+                .run(blockNumber)
+            this.db
+                .prepare('DELETE FROM checkpoints WHERE block_number > ?')
+                .run(blockNumber)
+        })()
+    }
+
+    close(): void {
+        this.db.close()
+    }
+}
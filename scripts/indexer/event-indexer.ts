@@ -0,0 +1,323 @@
+import {artifacts} from 'hardhat'
+import {BigNumber, providers, utils} from 'ethers'
+import {JsonFragment, Result} from '@ethersproject/abi'
+import {log} from '../../config/logging'
+import {DeploymentManifest} from '../utils/deployment-manifest'
+import {EventDatabase, IndexedContract, IndexedEvent} from './event-database'
+
+/**
+ * Kinds of contract with events to index.
+ */
+export const INDEXED_CONTRACTS = [
+    'BondFactory',
+    'BondMediator',
+    'SingleCollateralMultiRewardBond',
+    'StakingPool',
+    'StakingPoolFactory',
+    'StakingPoolMediator'
+]
+
+/**
+ * Interfaces for decoding the events of each kind of indexed contract, read
+ * from their artifacts when first needed.
+ */
+const INTERFACES = new Map<string, utils.Interface>()
+
+/**
+ * Events announcing a new contract to index, with the argument holding
+ * its address.
+ */
+const DISCOVERY_EVENTS: {
+    [event: string]: {argument: string; contract: string}
+} = {
+    CreateBond: {
+        argument: 'bond',
+        contract: 'SingleCollateralMultiRewardBond'
+    },
+    AddBond: {argument: 'bond', contract: 'SingleCollateralMultiRewardBond'},
+    StakingPoolCreated: {argument: 'stakingPool', contract: 'StakingPool'},
+    AddStakingPool: {argument: 'stakingPool', contract: 'StakingPool'}
+}
+
+/**
+ * Contracts of the deployment manifest with events to index, each from the
+ * block it was deployed in.
+ */
+export function manifestContracts(
+    manifest: DeploymentManifest
+): IndexedContract[] {
+    return Object.values(manifest.contracts)
+        .filter((deployed) => INDEXED_CONTRACTS.includes(deployed.name))
+        .map((deployed) => ({
+            address: deployed.address,
+            name: deployed.name,
+            discoveredBlock: deployed.blockNumber
+        }))
+}
+
+export type IndexerOptions = {
+    fromBlock: number
+    toBlock?: number
+    confirmations: number
+    batchSize: number
+}
+
+/**
+ * Indexes the events of the contracts in the database, from where the last
+ * checkpoint finished (or the fromBlock) up to the toBlock (or the latest
+ * block with enough confirmations).
+ *
+ * Before continuing, the latest checkpoint is compared against the chain, with
+ * any orphaned blocks from a reorg being discarded and indexed again.
+ *
+ * @return the last block indexed.
+ */
+export async function indexEvents(
+    provider: providers.Provider,
+    db: EventDatabase,
+    options: IndexerOptions
+): Promise<number> {
+    const head =
+        (await provider.getBlockNumber()) - Math.max(options.confirmations, 0)
+    const toBlock = Math.min(options.toBlock ?? head, head)
+    let fromBlock = Math.max(
+        options.fromBlock,
+        (await lastValidCheckpoint(provider, db, options.fromBlock)) + 1
+    )
+
+    while (fromBlock <= toBlock) {
+        const batchEnd = Math.min(fromBlock + options.batchSize - 1, toBlock)
+
+        await indexBatch(provider, db, fromBlock, batchEnd)
+        fromBlock = batchEnd + 1
+    }
+
+    return toBlock
+}
+
+/**
+ * Finds the most recent checkpoint still on the canonical chain, rewinding
+ * the database to it when more recent checkpoints have been orphaned.
+ *
+ * @return block of the valid checkpoint, or the block before fromBlock
+ *          when there is none.
+ */
+async function lastValidCheckpoint(
+    provider: providers.Provider,
+    db: EventDatabase,
+    fromBlock: number
+): Promise<number> {
+    const checkpoints = db.checkpoints()
+
+    for (let i = 0; i < checkpoints.length; i++) {
+        const checkpoint = checkpoints[i]
+        const block = await provider.getBlock(checkpoint.blockNumber)
+
+        if (block?.hash === checkpoint.blockHash) {
+            if (i > 0) {
+                log.warn(
+                    'Reorg detected, rewinding the index to block %s',
+                    checkpoint.blockNumber
+                )
+                db.rewind(checkpoint.blockNumber)
+            }
+
+            return checkpoint.blockNumber
+        }
+    }
+
+    if (checkpoints.length > 0) {
+        log.warn(
+            'Reorg deeper than every checkpoint, re-indexing from block %s',
+            fromBlock
+        )
+        db.rewind(fromBlock - 1)
+    }
+
+    return fromBlock - 1
+}
+
+async function indexBatch(
+    provider: providers.Provider,
+    db: EventDatabase,
+    fromBlock: number,
+    toBlock: number
+): Promise<void> {
+    const known = new Map(
+        db
+            .contracts()
+            .map((contract) => [contract.address.toLowerCase(), contract])
+    )
+    const events: IndexedEvent[] = []
+    const discovered: IndexedContract[] = []
+    let pending = [...known.values()]
+
+    // Contracts discovered in the batch may have emitted events later in it
+    while (pending.length > 0) {
+        const found: IndexedContract[] = []
+
+        for (const contract of pending) {
+            for (const event of await contractEvents(
+                provider,
+                contract,
+                fromBlock,
+                toBlock
+            )) {
+                events.push(event.indexed)
+
+                const created = discoveredContract(event)
+                if (created && !known.has(created.address.toLowerCase())) {
+                    known.set(created.address.toLowerCase(), created)
+                    found.push(created)
+                }
+            }
+        }
+
+        discovered.push(...found)
+        pending = found
+    }
+
+    const block = await provider.getBlock(toBlock)
+    db.commit(events, discovered, {
+        blockNumber: toBlock,
+        blockHash: block.hash
+    })
+
+    log.info(
+        'Indexed blocks %s to %s: %s events, %s new contracts',
+        fromBlock,
+        toBlock,
+        events.length,
+        discovered.length
+    )
+}
+
+/**
+ * Event decoded by the interface of its contract kind.
+ */
+export type DecodedEvent = {
+    indexed: IndexedEvent
+    fragment: utils.EventFragment
+    args: Result
+}
+
+/**
+ * Events of the contract in the block range, skipping any logs that are not
+ * events of its contract kind.
+ */
+export async function contractEvents(
+    provider: providers.Provider,
+    contract: IndexedContract,
+    fromBlock: number,
+    toBlock: number
+): Promise<DecodedEvent[]> {
+    const events: DecodedEvent[] = []
+
+    for (const entry of await provider.getLogs({
+        address: contract.address,
+        fromBlock: Math.max(fromBlock, contract.discoveredBlock),
+        toBlock
+    })) {
+        const event = decodeEvent(contract, entry)
+
+        if (event) {
+            events.push(event)
+        }
+    }
+
+    return events
+}
+
+export function decodeEvent(
+    contract: IndexedContract,
+    entry: providers.Log
+): DecodedEvent | null {
+    try {
+        const parsed = contractInterface(contract.name).parseLog(entry)
+
+        return {
+            fragment: parsed.eventFragment,
+            args: parsed.args,
+            indexed: {
+                blockNumber: entry.blockNumber,
+                blockHash: entry.blockHash,
+                transactionHash: entry.transactionHash,
+                logIndex: entry.logIndex,
+                address: entry.address,
+                contract: contract.name,
+                event: parsed.name,
+                args: JSON.stringify(
+                    namedValues(parsed.eventFragment.inputs, parsed.args)
+                )
+            }
+        }
+    } catch (error) {
+        log.warn(
+            'Skipping log %s:%s of %s, not an event of %s',
+            entry.transactionHash,
+            entry.logIndex,
+            entry.address,
+            contract.name
+        )
+        return null
+    }
+}
+
+/**
+ * Contract announced by the event, when it is a discovery event.
+ */
+export function discoveredContract(
+    event: DecodedEvent
+): IndexedContract | null {
+    const discovery = DISCOVERY_EVENTS[event.indexed.event]
+
+    return discovery
+        ? {
+              address: String(event.args[discovery.argument]),
+              name: discovery.contract,
+              discoveredBlock: event.indexed.blockNumber
+          }
+        : null
+}
+
+function contractInterface(name: string): utils.Interface {
+    const decoder =
+        INTERFACES.get(name) ??
+        new utils.Interface(
+            <JsonFragment[]>artifacts.readArtifactSync(name).abi
+        )
+    INTERFACES.set(name, decoder)
+
+    return decoder
+}
+
+/**
+ * Converts decoded values into JSON friendly values, with structs as objects
+ * keyed by their field names and BigNumbers as decimal strings.
+ */
+function namedValues(
+    params: utils.ParamType[],
+    values: Result
+): {[name: string]: unknown} {
+    const named: {[name: string]: unknown} = {}
+
+    params.forEach((param, i) => {
+        named[param.name] = jsonValue(param, values[i])
+    })
+
+    return named
+}
+
+function jsonValue(param: utils.ParamType, value: unknown): unknown {
+    if (BigNumber.isBigNumber(value)) {
+        return value.toString()
+    }
+    if (param.baseType === 'array' && Array.isArray(value)) {
+        return value.map((element) => jsonValue(param.arrayChildren, element))
+    }
+    if (param.baseType === 'tuple' && Array.isArray(value)) {
+        return namedValues(param.components, <Result>value)
+    }
+
+    return value
+}
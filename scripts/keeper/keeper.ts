@@ -0,0 +1,392 @@
+import {existsSync, readFileSync, writeFileSync} from 'fs'
+import {HardhatRuntimeEnvironment} from 'hardhat/types'
+import {BigNumber, utils} from 'ethers'
+import {
+    BondMediator,
+    SingleCollateralMultiRewardBond,
+    StakingPool,
+    StakingPoolMediator
+} from '../../typechain-types'
+import {log} from '../../config/logging'
+import {managedBonds} from '../bond/managed-bond'
+import {daoIds} from '../dao/dao-report'
+import {managedStakingPools} from '../staking/managed-staking-pool'
+import {erc20At} from '../utils/erc20'
+
+/**
+ * Transaction calling expire() on a Bond, recorded before waiting on it.
+ */
+export type ExpirySubmission = {
+    transactionHash: string
+    submittedAt: string
+}
+
+/**
+ * State kept between runs of the keeper, keyed by the lowercase address of
+ * the Bond or StakingPool.
+ */
+export type KeeperState = {
+    /** Submissions yet to be confirmed, which are not to be repeated. */
+    expirySubmissions: {[bond: string]: ExpirySubmission}
+    /** When each StakingPool was first reported with its rewards available. */
+    rewardsAvailableReported: {[stakingPool: string]: string}
+}
+
+export type KeeperOptions = {
+    /** Report what would be submitted, without submitting. */
+    dryRun: boolean
+    /** Most transactions to submit in a run. */
+    maxTransactions: number
+    /** Most wei to spend on gas in a run, when limited. */
+    maxGasCost?: BigNumber
+    /** Persists the state, called on every change. */
+    saveState: (state: KeeperState) => void
+}
+
+export type ExpiryOutcome =
+    | 'expired'
+    | 'failed'
+    | 'dry run'
+    | 'pending'
+    | 'over budget'
+
+export type BondExpiry = {
+    daoId: string
+    bond: string
+    symbol: string
+    expiry: string
+    outcome: ExpiryOutcome
+    transactionHash?: string
+}
+
+export type RewardsAvailable = {
+    daoId: string
+    stakingPool: string
+    rewardsAvailable: string
+    redeemable: boolean
+    /** Whether an earlier run has already reported the StakingPool. */
+    reported: boolean
+}
+
+export type KeeperReport = {
+    asOf: string
+    expiries: BondExpiry[]
+    rewardsAvailable: RewardsAvailable[]
+    /** Gas spent in wei, or estimated on a dry run. */
+    gasCost: string
+}
+
+/**
+ * Column headers for the rows of keeperReportRows().
+ */
+export const KEEPER_REPORT_COLUMNS = [
+    'Kind',
+    'DAO',
+    'Address',
+    'Due',
+    'Outcome',
+    'Transaction'
+]
+
+/**
+ * Reads the keeper state, or an empty state when the file does not exist.
+ */
+export function readKeeperState(path: string): KeeperState {
+    if (!existsSync(path)) {
+        return {expirySubmissions: {}, rewardsAvailableReported: {}}
+    }
+
+    return <KeeperState>JSON.parse(readFileSync(path, 'utf8'))
+}
+
+export function writeKeeperState(path: string, state: KeeperState): void {
+    writeFileSync(path, `${JSON.stringify(state, null, 2)}\n`)
+}
+
+/**
+ * Calls expire() on every Bond of the BondMediator that is beyond its expiry,
+ * not redeemable and still holding collateral, within the budget, then
+ * reports every StakingPool of the StakingPoolMediator with its rewards
+ * available.
+ *
+ * Submissions are recorded in the state before waiting on them, with a Bond
+ * being skipped while its earlier submission remains pending.
+ */
+export async function runKeeper(
+    hre: HardhatRuntimeEnvironment,
+    bondMediator: BondMediator,
+    stakingPoolMediator: StakingPoolMediator,
+    state: KeeperState,
+    options: KeeperOptions
+): Promise<KeeperReport> {
+    const now = (await hre.ethers.provider.getBlock('latest')).timestamp
+    const budget = {transactions: 0, gasCost: BigNumber.from(0)}
+    const expiries: BondExpiry[] = []
+
+    await forgetSettledSubmissions(hre, state, options)
+
+    for (const daoId of await daoIds(bondMediator)) {
+        for (const address of await managedBonds(bondMediator, daoId)) {
+            const bond = <SingleCollateralMultiRewardBond>(
+                await hre.ethers.getContractAt(
+                    'SingleCollateralMultiRewardBond',
+                    address
+                )
+            )
+
+            if (await isExpirable(hre, bond, now)) {
+                const outcome = await expire(bond, state, options, budget)
+
+                expiries.push({
+                    daoId: daoId.toString(),
+                    bond: address,
+                    symbol: await bond.symbol(),
+                    expiry: isoDate((await bond.expiryTimestamp()).toNumber()),
+                    ...outcome
+                })
+            }
+        }
+    }
+
+    return {
+        asOf: isoDate(now),
+        expiries,
+        rewardsAvailable: await reportRewardsAvailable(
+            hre,
+            stakingPoolMediator,
+            state,
+            options,
+            now
+        ),
+        gasCost: budget.gasCost.toString()
+    }
+}
+
+/**
+ * Flattens the report into a row per Bond expiry and StakingPool.
+ */
+export function keeperReportRows(report: KeeperReport): string[][] {
+    return [
+        ...report.expiries.map((expiry) => [
+            'Bond expiry',
+            expiry.daoId,
+            expiry.bond,
+            expiry.expiry,
+            expiry.outcome,
+            expiry.transactionHash ?? ''
+        ]),
+        ...report.rewardsAvailable.map((pool) => [
+            'StakingPool rewards available',
+            pool.daoId,
+            pool.stakingPool,
+            pool.rewardsAvailable,
+            pool.redeemable ? 'redeemable' : 'staking period incomplete',
+            ''
+        ])
+    ]
+}
+
+async function isExpirable(
+    hre: HardhatRuntimeEnvironment,
+    bond: SingleCollateralMultiRewardBond,
+    now: number
+): Promise<boolean> {
+    if ((await bond.expiryTimestamp()).gt(now) || (await bond.redeemable())) {
+        return false
+    }
+
+    const collateral = await erc20At(hre, await bond.collateralTokens())
+
+    return (await collateral.balanceOf(bond.address)).gt(0)
+}
+
+async function expire(
+    bond: SingleCollateralMultiRewardBond,
+    state: KeeperState,
+    options: KeeperOptions,
+    budget: {transactions: number; gasCost: BigNumber}
+): Promise<{outcome: ExpiryOutcome; transactionHash?: string}> {
+    const key = bond.address.toLowerCase()
+    const submissions = state.expirySubmissions
+    const submitted = submissions[key]
+
+    if (submitted) {
+        log.info(
+            'Bond %s expiry still pending in transaction %s',
+            bond.address,
+            submitted.transactionHash
+        )
+        return {outcome: 'pending', transactionHash: submitted.transactionHash}
+    }
+
+    let estimate: BigNumber
+    try {
+        estimate = (await bond.estimateGas.expire()).mul(
+            await bond.provider.getGasPrice()
+        )
+    } catch (error) {
+        log.warn(
+            'Bond %s cannot be expired: %s',
+            bond.address,
+            error instanceof Error ? error.message : error
+        )
+        return {outcome: 'failed'}
+    }
+
+    if (
+        budget.transactions >= options.maxTransactions ||
+        (options.maxGasCost &&
+            budget.gasCost.add(estimate).gt(options.maxGasCost))
+    ) {
+        log.warn('Bond %s expiry is over the budget of the run', bond.address)
+        return {outcome: 'over budget'}
+    }
+
+    budget.transactions++
+
+    if (options.dryRun) {
+        budget.gasCost = budget.gasCost.add(estimate)
+        log.info(
+            'Dry run, Bond %s would be expired for an estimated %s ETH',
+            bond.address,
+            utils.formatEther(estimate)
+        )
+        return {outcome: 'dry run'}
+    }
+
+    const transaction = await bond.expire()
+    submissions[key] = {
+        transactionHash: transaction.hash,
+        submittedAt: new Date().toISOString()
+    }
+    options.saveState(state)
+    log.info(
+        'Expiring Bond %s in transaction %s',
+        bond.address,
+        transaction.hash
+    )
+
+    try {
+        const receipt = await transaction.wait()
+        budget.gasCost = budget.gasCost.add(
+            receipt.gasUsed.mul(receipt.effectiveGasPrice)
+        )
+        return {outcome: 'expired', transactionHash: transaction.hash}
+    } catch (error) {
+        log.error(
+            'Bond %s expiry failed: %s',
+            bond.address,
+            error instanceof Error ? error.message : error
+        )
+        return {outcome: 'failed', transactionHash: transaction.hash}
+    } finally {
+        delete submissions[key]
+        options.saveState(state)
+    }
+}
+
+/**
+ * Forgets the submissions no longer waiting to be mined, having been mined or
+ * dropped by an earlier run that did not see them through, e.g. on a crash.
+ */
+async function forgetSettledSubmissions(
+    hre: HardhatRuntimeEnvironment,
+    state: KeeperState,
+    options: KeeperOptions
+): Promise<void> {
+    const provider = hre.ethers.provider
+
+    for (const [bond, submitted] of Object.entries(state.expirySubmissions)) {
+        const hash = submitted.transactionHash
+
+        if (
+            (await provider.getTransactionReceipt(hash)) !== null ||
+            (await provider.getTransaction(hash)) === null
+        ) {
+            delete state.expirySubmissions[bond]
+
+            if (!options.dryRun) {
+                options.saveState(state)
+            }
+        }
+    }
+}
+
+async function reportRewardsAvailable(
+    hre: HardhatRuntimeEnvironment,
+    mediator: StakingPoolMediator,
+    state: KeeperState,
+    options: KeeperOptions,
+    now: number
+): Promise<RewardsAvailable[]> {
+    const available: RewardsAvailable[] = []
+
+    for (const daoId of await daoIds(mediator)) {
+        for (const address of await managedStakingPools(mediator, daoId)) {
+            const stakingPool = <StakingPool>(
+                await hre.ethers.getContractAt('StakingPool', address)
+            )
+            const timestamp = await stakingPool.rewardsAvailableTimestamp()
+
+            if (timestamp <= now) {
+                const reported = reportedRewardsAvailable(
+                    state,
+                    options,
+                    daoId.toString(),
+                    address,
+                    timestamp,
+                    now
+                )
+
+                available.push({
+                    daoId: daoId.toString(),
+                    stakingPool: address,
+                    rewardsAvailable: isoDate(timestamp),
+                    redeemable: await stakingPool.isRedeemable(),
+                    reported
+                })
+            }
+        }
+    }
+
+    return available
+}
+
+/**
+ * Reports the rewards of the StakingPool being available, unless already
+ * reported by an earlier run.
+ *
+ * @return whether the rewards had already been reported.
+ */
+function reportedRewardsAvailable(
+    state: KeeperState,
+    options: KeeperOptions,
+    daoId: string,
+    stakingPool: string,
+    timestamp: number,
+    now: number
+): boolean {
+    const key = stakingPool.toLowerCase()
+
+    if (key in state.rewardsAvailableReported) {
+        return true
+    }
+
+    log.info(
+        'StakingPool %s of DAO %s has its rewards available since %s',
+        stakingPool,
+        daoId,
+        isoDate(timestamp)
+    )
+
+    if (!options.dryRun) {
+        state.rewardsAvailableReported[key] = isoDate(now)
+        options.saveState(state)
+    }
+
+    return false
+}
+
+function isoDate(seconds: number): string {
+    return new Date(seconds * 1000).toISOString()
+}
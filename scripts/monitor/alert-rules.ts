@@ -0,0 +1,180 @@
+import {utils} from 'ethers'
+import {
+    SpecObject,
+    readSpecFile,
+    specArray,
+    specObject,
+    specString
+} from '../utils/spec-file'
+import {
+    AlertSink,
+    SEVERITIES,
+    Severity,
+    fileSink,
+    logSink,
+    webhookSink
+} from './alert-sinks'
+import {AlertArgs, MONITORED_EVENTS} from './monitored-events'
+
+/**
+ * Raises an alert of the severity for every matching event.
+ */
+export type AlertRule = {
+    event: string
+    /** Contract names or addresses emitting the event, when not every one. */
+    contracts?: string[]
+    /** Values the event arguments must have, when not every value. */
+    args?: AlertArgs
+    severity: Severity
+}
+
+/**
+ * Rules and the sinks their alerts are sent to, read from a rules file.
+ */
+export type AlertConfig = {
+    rules: AlertRule[]
+    sinks: AlertSink[]
+}
+
+/**
+ * Event emitted by a monitored contract, to be matched against the rules.
+ */
+export type MonitoredEvent = {
+    event: string
+    contract: string
+    address: string
+    args: AlertArgs
+}
+
+/**
+ * Reads the rules file, with the alerts only being logged when it has no
+ * sinks.
+ */
+export function readAlertConfig(path: string): AlertConfig {
+    const spec = readSpecFile(path)
+    const rules = specArray(spec.rules, 'rules').map((rule, i) =>
+        alertRule(specObject(rule, `rules[${i}]`), `rules[${i}]`)
+    )
+    const sinks =
+        typeof spec.sinks === 'undefined'
+            ? [logSink()]
+            : specArray(spec.sinks, 'sinks').map((sink, i) =>
+                  alertSink(specObject(sink, `sinks[${i}]`), `sinks[${i}]`)
+              )
+
+    if (rules.length === 0) {
+        throw Error(`Rules file ${path} has no rules`)
+    }
+
+    return {rules, sinks}
+}
+
+/**
+ * Severity of the most severe rule matching the event, or null when no
+ * rule matches.
+ */
+export function alertSeverity(
+    rules: AlertRule[],
+    monitored: MonitoredEvent
+): Severity | null {
+    const severities = rules
+        .filter((rule) => matches(rule, monitored))
+        .map((rule) => SEVERITIES.indexOf(rule.severity))
+
+    return severities.length > 0 ? SEVERITIES[Math.max(...severities)] : null
+}
+
+function matches(rule: AlertRule, monitored: MonitoredEvent): boolean {
+    return (
+        rule.event === monitored.event &&
+        (typeof rule.contracts === 'undefined' ||
+            rule.contracts.some(
+                (contract) =>
+                    contract === monitored.contract ||
+                    contract.toLowerCase() === monitored.address.toLowerCase()
+            )) &&
+        Object.entries(rule.args ?? {}).every(
+            ([name, value]) =>
+                monitored.args[name]?.toLowerCase() === value.toLowerCase()
+        )
+    )
+}
+
+function alertRule(spec: SpecObject, field: string): AlertRule {
+    const event = specString(spec.event, `${field}.event`)
+
+    if (!MONITORED_EVENTS.includes(event)) {
+        throw Error(
+            `Spec ${field}.event is not one of: ${MONITORED_EVENTS.join(', ')}`
+        )
+    }
+
+    return {
+        event,
+        ...(typeof spec.contracts !== 'undefined' && {
+            contracts: specArray(spec.contracts, `${field}.contracts`).map(
+                (contract, i) =>
+                    contractFilter(contract, `${field}.contracts[${i}]`)
+            )
+        }),
+        ...(typeof spec.args !== 'undefined' && {
+            args: alertArgsFilter(specObject(spec.args, `${field}.args`), field)
+        }),
+        severity: severity(spec.severity, `${field}.severity`)
+    }
+}
+
+function alertSink(spec: SpecObject, field: string): AlertSink {
+    const type = specString(spec.type, `${field}.type`)
+    const minimum =
+        typeof spec.severity === 'undefined'
+            ? 'info'
+            : severity(spec.severity, `${field}.severity`)
+
+    if (type === 'log') {
+        return logSink(minimum)
+    }
+    if (type === 'file') {
+        return fileSink(specString(spec.path, `${field}.path`), minimum)
+    }
+    if (type === 'webhook') {
+        return webhookSink(specString(spec.url, `${field}.url`), minimum)
+    }
+
+    throw Error(`Spec ${field}.type is not one of: log, file, webhook`)
+}
+
+/**
+ * Contracts are either a kind of indexed contract (e.g. BondMediator) or an
+ * address.
+ */
+function contractFilter(value: unknown, field: string): string {
+    const contract = specString(value, field)
+
+    if (contract.startsWith('0x') && !utils.isAddress(contract)) {
+        throw Error(`Spec ${field} is not an Ethereum address`)
+    }
+
+    return contract
+}
+
+function alertArgsFilter(spec: SpecObject, field: string): AlertArgs {
+    const args: AlertArgs = {}
+
+    for (const [name, value] of Object.entries(spec)) {
+        args[name] = specString(value, `${field}.args.${name}`)
+    }
+
+    return args
+}
+
+function severity(value: unknown, field: string): Severity {
+    const named = specString(value, field)
+    const found = SEVERITIES.find((known) => known === named)
+
+    if (typeof found === 'undefined') {
+        throw Error(`Spec ${field} is not one of: ${SEVERITIES.join(', ')}`)
+    }
+
+    return found
+}
@@ -0,0 +1,167 @@
+import {appendFileSync} from 'fs'
+import {request as httpRequest} from 'http'
+import {request as httpsRequest} from 'https'
+import {log} from '../../config/logging'
+import {AlertArgs} from './monitored-events'
+
+export const SEVERITIES = ['info', 'warning', 'critical'] as const
+
+export type Severity = typeof SEVERITIES[number]
+
+/**
+ * Event that matched an alert rule, with the rule severity.
+ */
+export type Alert = {
+    severity: Severity
+    event: string
+    contract: string
+    address: string
+    blockNumber: number
+    transactionHash: string
+    logIndex: number
+    args: AlertArgs
+}
+
+/**
+ * Destination the alerts are dispatched to.
+ */
+export type AlertSink = {
+    name: string
+    /** Alerts below the severity are not sent to the sink. */
+    severity: Severity
+    send: (alert: Alert) => Promise<void>
+}
+
+const LOG_LEVELS: {
+    [severity in Severity]: (format: string, ...params: unknown[]) => void
+} = {
+    info: (format, ...params) => log.info(format, ...params),
+    warning: (format, ...params) => log.warn(format, ...params),
+    critical: (format, ...params) => log.error(format, ...params)
+}
+
+const WEBHOOK_TIMEOUT_MS = 10000
+
+/**
+ * Logs the alerts at the level matching their severity.
+ */
+export function logSink(severity: Severity = 'info'): AlertSink {
+    return {
+        name: 'log',
+        severity,
+        send: (alert) => {
+            LOG_LEVELS[alert.severity](
+                '%s alert: %s on %s %s in transaction %s, %j',
+                alert.severity.toUpperCase(),
+                alert.event,
+                alert.contract,
+                alert.address,
+                alert.transactionHash,
+                alert.args
+            )
+
+            return Promise.resolve()
+        }
+    }
+}
+
+/**
+ * Appends the alerts to the file as JSON lines.
+ */
+export function fileSink(path: string, severity: Severity = 'info'): AlertSink {
+    return {
+        name: `file ${path}`,
+        severity,
+        send: (alert) => {
+            appendFileSync(path, `${JSON.stringify(alert)}\n`)
+
+            return Promise.resolve()
+        }
+    }
+}
+
+/**
+ * POSTs the alerts as JSON to the URL, failing unless the response status
+ * is 2xx.
+ */
+export function webhookSink(
+    url: string,
+    severity: Severity = 'info'
+): AlertSink {
+    return {
+        name: `webhook ${url}`,
+        severity,
+        send: (alert) => post(url, JSON.stringify(alert))
+    }
+}
+
+/**
+ * Sends the alert to every sink that accepts its severity, with any failing
+ * sink being logged rather than stopping the others.
+ *
+ * @return number of sinks the alert was sent to.
+ */
+export async function dispatchAlert(
+    sinks: AlertSink[],
+    alert: Alert
+): Promise<number> {
+    let sent = 0
+
+    for (const sink of sinks) {
+        if (atLeast(alert.severity, sink.severity)) {
+            try {
+                await sink.send(alert)
+                sent++
+            } catch (error) {
+                log.error(
+                    'Failed sending %s alert to %s: %s',
+                    alert.event,
+                    sink.name,
+                    error instanceof Error ? error.message : error
+                )
+            }
+        }
+    }
+
+    return sent
+}
+
+function atLeast(severity: Severity, minimum: Severity): boolean {
+    return SEVERITIES.indexOf(severity) >= SEVERITIES.indexOf(minimum)
+}
+
+function post(url: string, body: string): Promise<void> {
+    const request = url.startsWith('https:') ? httpsRequest : httpRequest
+
+    return new Promise((resolve, reject) => {
+        const outgoing = request(
+            url,
+            {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Content-Length': Buffer.byteLength(body)
+                },
+                timeout: WEBHOOK_TIMEOUT_MS
+            },
+            (response) => {
+                response.resume()
+                response.on('end', () => {
+                    const status = response.statusCode ?? 0
+
+                    if (status >= 200 && status < 300) {
+                        resolve()
+                    } else {
+                        reject(Error(`Webhook responded with status ${status}`))
+                    }
+                })
+            }
+        )
+
+        outgoing.on('timeout', () => {
+            outgoing.destroy(Error('Webhook timed out'))
+        })
+        outgoing.on('error', reject)
+        outgoing.end(body)
+    })
+}
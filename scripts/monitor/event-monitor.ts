@@ -0,0 +1,177 @@
+import {providers} from 'ethers'
+import {log} from '../../config/logging'
+import {IndexedContract} from '../indexer/event-database'
+import {
+    DecodedEvent,
+    contractEvents,
+    discoveredContract
+} from '../indexer/event-indexer'
+import {AlertConfig, alertSeverity} from './alert-rules'
+import {dispatchAlert} from './alert-sinks'
+import {alertArgs} from './monitored-events'
+
+/**
+ * Contracts being monitored, keyed by their lowercase address, and the last
+ * block their events have been monitored up to.
+ */
+export type MonitorState = {
+    contracts: Map<string, IndexedContract>
+    lastBlock: number
+}
+
+/**
+ * Alerts dispatched while monitoring, and the last block monitored up to.
+ */
+export type MonitorProgress = {
+    alerts: number
+    lastBlock: number
+}
+
+export type MonitorOptions = {
+    /** Events before the block are only used to discover contracts. */
+    alertFromBlock: number
+    confirmations: number
+    batchSize: number
+}
+
+/**
+ * Initial state for monitoring the contracts, from the block after the last.
+ */
+export function monitorState(
+    contracts: IndexedContract[],
+    lastBlock: number
+): MonitorState {
+    return {
+        contracts: new Map(
+            contracts.map((contract) => [
+                contract.address.toLowerCase(),
+                contract
+            ])
+        ),
+        lastBlock
+    }
+}
+
+/**
+ * Monitors the events of the contracts after the last block of the state, up
+ * to the latest block with enough confirmations, dispatching an alert for
+ * every event matching a rule and adding any newly created Bonds and Staking
+ * Pools to the contracts.
+ *
+ * Waiting for confirmations avoids alerting on events a reorg may discard.
+ *
+ * @return the alerts dispatched and the block to continue monitoring after.
+ */
+export async function monitorEvents(
+    provider: providers.Provider,
+    state: MonitorState,
+    config: AlertConfig,
+    options: MonitorOptions
+): Promise<MonitorProgress> {
+    const head =
+        (await provider.getBlockNumber()) - Math.max(options.confirmations, 0)
+    let alerts = 0
+    let lastBlock = state.lastBlock
+
+    while (lastBlock < head) {
+        const fromBlock = lastBlock + 1
+        const toBlock = Math.min(fromBlock + options.batchSize - 1, head)
+        const events = await monitorBatch(provider, state, fromBlock, toBlock)
+
+        for (const event of events) {
+            if (
+                event.indexed.blockNumber >= options.alertFromBlock &&
+                (await alert(config, event))
+            ) {
+                alerts++
+            }
+        }
+
+        lastBlock = toBlock
+    }
+
+    return {alerts, lastBlock}
+}
+
+/**
+ * Events of the contracts in the block range, in chain order, including
+ * those of the contracts discovered within the range.
+ */
+async function monitorBatch(
+    provider: providers.Provider,
+    state: MonitorState,
+    fromBlock: number,
+    toBlock: number
+): Promise<DecodedEvent[]> {
+    const events: DecodedEvent[] = []
+    let pending = [...state.contracts.values()]
+
+    while (pending.length > 0) {
+        const found: IndexedContract[] = []
+
+        for (const contract of pending) {
+            for (const event of await contractEvents(
+                provider,
+                contract,
+                fromBlock,
+                toBlock
+            )) {
+                events.push(event)
+
+                const created = discoveredContract(event)
+                const key = created?.address.toLowerCase() ?? ''
+                if (created && !state.contracts.has(key)) {
+                    log.info('Monitoring %s %s', created.name, created.address)
+                    state.contracts.set(key, created)
+                    found.push(created)
+                }
+            }
+        }
+
+        pending = found
+    }
+
+    return events.sort(
+        (a, b) =>
+            a.indexed.blockNumber - b.indexed.blockNumber ||
+            a.indexed.logIndex - b.indexed.logIndex
+    )
+}
+
+/**
+ * Dispatches an alert for the event when it matches a rule.
+ *
+ * @return whether an alert was dispatched.
+ */
+async function alert(
+    config: AlertConfig,
+    event: DecodedEvent
+): Promise<boolean> {
+    const name = event.indexed.event
+
+    if (!config.rules.some((rule) => rule.event === name)) {
+        return false
+    }
+
+    const monitored = {
+        event: name,
+        contract: event.indexed.contract,
+        address: event.indexed.address,
+        args: alertArgs(name, event.args)
+    }
+    const severity = alertSeverity(config.rules, monitored)
+
+    if (severity === null) {
+        return false
+    }
+
+    await dispatchAlert(config.sinks, {
+        ...monitored,
+        severity,
+        blockNumber: event.indexed.blockNumber,
+        transactionHash: event.indexed.transactionHash,
+        logIndex: event.indexed.logIndex
+    })
+
+    return true
+}
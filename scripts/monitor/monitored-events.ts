@@ -0,0 +1,70 @@
+import {BigNumber, utils} from 'ethers'
+import {Result} from '@ethersproject/abi'
+import {slashDepositsEventLogs} from '../../test/event/bond/single-collateral-bond-events'
+import {daoTreasuryUpdateEventLogs} from '../../test/event/dao-configuration/dao-configuration-events'
+import {
+    pausedEventLogs,
+    unpausedEventLogs
+} from '../../test/event/pausable/pausable-events'
+import {
+    grantGlobalRoleEventLogs,
+    revokeGlobalRoleEventLogs
+} from '../../test/event/role-membership/role-membership-events'
+import {emergencyModeEventLogs} from '../../test/event/staking/staking-events'
+import {beneficiaryUpdateEventLogs} from '../../test/event/sweep/token-sweeo-events'
+
+/**
+ * Event arguments of an alert, with amounts in decimal and roles by name.
+ */
+export type AlertArgs = {[name: string]: string}
+
+type Converter = (events: Result[]) => object[]
+
+/**
+ * Converters for the events an alert rule may be written for.
+ */
+const CONVERTERS: {[event: string]: Converter} = {
+    BeneficiaryUpdate: beneficiaryUpdateEventLogs,
+    DaoTreasuryUpdate: daoTreasuryUpdateEventLogs,
+    EmergencyMode: emergencyModeEventLogs,
+    GrantGlobalRole: grantGlobalRoleEventLogs,
+    Paused: pausedEventLogs,
+    RevokeGlobalRole: revokeGlobalRoleEventLogs,
+    SlashDeposits: slashDepositsEventLogs,
+    Unpaused: unpausedEventLogs
+}
+
+export const MONITORED_EVENTS = Object.keys(CONVERTERS)
+
+/**
+ * Shape checks and converts the arguments of a monitored event into the
+ * arguments of its alert.
+ */
+export function alertArgs(event: string, args: Result): AlertArgs {
+    const converter = CONVERTERS[event]
+
+    if (!converter) {
+        throw Error(`Event ${event} is not monitored`)
+    }
+
+    const converted: AlertArgs = {}
+
+    for (const [name, value] of Object.entries(converter([args])[0])) {
+        converted[name] = alertValue(name, value)
+    }
+
+    return converted
+}
+
+function alertValue(name: string, value: unknown): string {
+    if (BigNumber.isBigNumber(value)) {
+        return value.toString()
+    }
+
+    // Global roles are emitted in their Bytes32 form
+    if (name === 'role' && typeof value === 'string') {
+        return utils.parseBytes32String(value)
+    }
+
+    return String(value)
+}
@@ -0,0 +1,161 @@
+import {PopulatedTransaction, utils} from 'ethers'
+import {BondMediator, StakingPoolMediator} from '../../typechain-types'
+import {
+    DAO_ADMIN,
+    DAO_CREATOR,
+    DAO_MEEPLE,
+    Role,
+    SUPER_USER,
+    SYSTEM_ADMIN
+} from '../../test/event/bond/roles'
+
+/**
+ * Mediator administering its roles with RoleAccessControl.
+ */
+export type Mediator = BondMediator | StakingPoolMediator
+
+/**
+ * How a role is administered with RoleAccessControl.
+ *
+ * Global roles apply across every DAO, with the daoId being ignored, while
+ * DAO roles are granted within a single DAO.
+ */
+export type ManagedRole = {
+    role: Role
+    daoScoped: boolean
+
+    /**
+     * Role needed by the sender to grant or revoke the role.
+     */
+    authority: Role
+    hasAuthority(
+        mediator: Mediator,
+        daoId: bigint,
+        account: string
+    ): Promise<boolean>
+    grant(
+        mediator: Mediator,
+        daoId: bigint,
+        account: string
+    ): Promise<PopulatedTransaction>
+    revoke(
+        mediator: Mediator,
+        daoId: bigint,
+        account: string
+    ): Promise<PopulatedTransaction>
+
+    /**
+     * Effective access, including that inherited from more powerful roles.
+     */
+    hasAccess(
+        mediator: Mediator,
+        daoId: bigint,
+        account: string
+    ): Promise<boolean>
+}
+
+export const ROLES: ManagedRole[] = [
+    {
+        role: SUPER_USER,
+        daoScoped: false,
+        authority: SUPER_USER,
+        hasAuthority: (mediator, _, account) =>
+            mediator.hasSuperUserAccess(account),
+        grant: (mediator, _, account) =>
+            mediator.populateTransaction.grantSuperUserRole(account),
+        revoke: (mediator, _, account) =>
+            mediator.populateTransaction.revokeSuperUserRole(account),
+        hasAccess: (mediator, _, account) =>
+            mediator.hasSuperUserAccess(account)
+    },
+    {
+        role: SYSTEM_ADMIN,
+        daoScoped: false,
+        authority: SYSTEM_ADMIN,
+        hasAuthority: (mediator, _, account) =>
+            mediator.hasSysAdminAccess(account),
+        grant: (mediator, _, account) =>
+            mediator.populateTransaction.grantSysAdminRole(account),
+        revoke: (mediator, _, account) =>
+            mediator.populateTransaction.revokeSysAdminRole(account),
+        hasAccess: (mediator, _, account) => mediator.hasSysAdminAccess(account)
+    },
+    {
+        role: DAO_CREATOR,
+        daoScoped: false,
+        authority: SUPER_USER,
+        hasAuthority: (mediator, _, account) =>
+            mediator.hasSuperUserAccess(account),
+        grant: (mediator, _, account) =>
+            mediator.populateTransaction.grantDaoCreatorRole(account),
+        revoke: (mediator, _, account) =>
+            mediator.populateTransaction.revokeDaoCreatorRole(account),
+        hasAccess: (mediator, _, account) =>
+            mediator.hasDaoCreatorAccess(account)
+    },
+    {
+        role: DAO_ADMIN,
+        daoScoped: true,
+        authority: DAO_ADMIN,
+        hasAuthority: (mediator, daoId, account) =>
+            mediator.hasDaoAdminAccess(daoId, account),
+        grant: (mediator, daoId, account) =>
+            mediator.populateTransaction.grantDaoAdminRole(daoId, account),
+        revoke: (mediator, daoId, account) =>
+            mediator.populateTransaction.revokeDaoAdminRole(daoId, account),
+        hasAccess: (mediator, daoId, account) =>
+            mediator.hasDaoAdminAccess(daoId, account)
+    },
+    {
+        role: DAO_MEEPLE,
+        daoScoped: true,
+        authority: DAO_ADMIN,
+        hasAuthority: (mediator, daoId, account) =>
+            mediator.hasDaoAdminAccess(daoId, account),
+        grant: (mediator, daoId, account) =>
+            mediator.populateTransaction.grantDaoMeepleRole(daoId, account),
+        revoke: (mediator, daoId, account) =>
+            mediator.populateTransaction.revokeDaoMeepleRole(daoId, account),
+        hasAccess: (mediator, daoId, account) =>
+            mediator.hasDaoMeepleAccess(daoId, account)
+    }
+]
+
+/**
+ * Retrieves the role by name, failing when unknown.
+ */
+export function managedRole(name: string): ManagedRole {
+    const managed = ROLES.find((role) => role.role.name === name)
+
+    if (!managed) {
+        throw Error(
+            `Unknown role: ${name}, expecting one of: ${ROLES.map(
+                (role) => role.role.name
+            ).join(', ')}`
+        )
+    }
+
+    return managed
+}
+
+/**
+ * Whether the account is a direct member of the role, ignoring any access
+ * inherited from more powerful roles.
+ */
+export async function isRoleMember(
+    mediator: Mediator,
+    managed: ManagedRole,
+    daoId: bigint,
+    account: string
+): Promise<boolean> {
+    return managed.daoScoped
+        ? mediator.hasDaoRole(daoId, managed.role.hex, account)
+        : mediator.hasGlobalRole(managed.role.hex, account)
+}
+
+/**
+ * Name of the role from its bytes32 form, as found in the event logs.
+ */
+export function roleName(hex: string): string {
+    return utils.parseBytes32String(hex)
+}
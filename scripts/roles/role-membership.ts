@@ -0,0 +1,231 @@
+import {HardhatRuntimeEnvironment} from 'hardhat/types'
+import {Event, utils} from 'ethers'
+import {RoleAccessControl} from '../../typechain-types'
+import {
+    ActualDaoRoleEvent,
+    grantDaoRoleEventLogs,
+    grantGlobalRoleEventLogs,
+    revokeDaoRoleEventLogs,
+    revokeGlobalRoleEventLogs
+} from '../../test/event/role-membership/role-membership-events'
+import {roleName} from './role-access'
+
+/**
+ * Account holding a role, with the grant that gave it.
+ */
+export type RoleMember = {
+    role: string
+    account: string
+    instigator: string
+    blockNumber: number
+    transactionHash: string
+
+    /**
+     * Result of checking the membership against the contract state.
+     */
+    onChain?: boolean
+}
+
+/**
+ * Role membership rebuilt from the event logs, with the DAO roles keyed by
+ * the DAO ID.
+ */
+export type RoleMembershipSnapshot = {
+    mediator: string
+    fromBlock: number
+    toBlock: number
+    global: RoleMember[]
+    daos: {[daoId: string]: RoleMember[]}
+}
+
+type RoleChange = {
+    event: Event
+    role: string
+    account: string
+    instigator: string
+    grant: boolean
+}
+
+/**
+ * Grant or revoke of either a global role or a role within a single DAO.
+ */
+type MembershipChange =
+    | (RoleChange & {scope: 'global'})
+    | (RoleChange & {scope: 'dao'; daoId: string})
+
+/**
+ * Attaches to the RoleAccessControl of the contract (e.g. a mediator).
+ */
+export async function roleAccessControlAt(
+    hre: HardhatRuntimeEnvironment,
+    address: string
+): Promise<RoleAccessControl> {
+    return <RoleAccessControl>(
+        await hre.ethers.getContractAt('RoleAccessControl', address)
+    )
+}
+
+/**
+ * Rebuilds the current role membership by replaying every grant and revoke
+ * emitted by the contract (e.g. a mediator), in the order they were emitted.
+ *
+ * @param fromBlock block to start scanning from, ideally the deployment block.
+ */
+export async function roleMembership(
+    roles: RoleAccessControl,
+    fromBlock: number
+): Promise<RoleMembershipSnapshot> {
+    const toBlock = await roles.provider.getBlockNumber()
+    const changes: MembershipChange[] = [
+        ...(
+            await roles.queryFilter(
+                roles.filters.GrantDaoRole(),
+                fromBlock,
+                toBlock
+            )
+        ).map(
+            (event): MembershipChange => ({
+                event,
+                grant: true,
+                scope: 'dao',
+                ...daoRoleChange(grantDaoRoleEventLogs([event.args])[0])
+            })
+        ),
+        ...(
+            await roles.queryFilter(
+                roles.filters.RevokeDaoRole(),
+                fromBlock,
+                toBlock
+            )
+        ).map(
+            (event): MembershipChange => ({
+                event,
+                grant: false,
+                scope: 'dao',
+                ...daoRoleChange(revokeDaoRoleEventLogs([event.args])[0])
+            })
+        ),
+        ...(
+            await roles.queryFilter(
+                roles.filters.GrantGlobalRole(),
+                fromBlock,
+                toBlock
+            )
+        ).map(
+            (event): MembershipChange => ({
+                event,
+                grant: true,
+                scope: 'global',
+                ...grantGlobalRoleEventLogs([event.args])[0]
+            })
+        ),
+        ...(
+            await roles.queryFilter(
+                roles.filters.RevokeGlobalRole(),
+                fromBlock,
+                toBlock
+            )
+        ).map(
+            (event): MembershipChange => ({
+                event,
+                grant: false,
+                scope: 'global',
+                ...revokeGlobalRoleEventLogs([event.args])[0]
+            })
+        )
+    ]
+
+    const global = new Map<string, RoleMember>()
+    const daos = new Map<string, Map<string, RoleMember>>()
+
+    for (const change of changes.sort(emitted)) {
+        const members = membersOf(global, daos, change)
+        const key = `${change.role}:${change.account}`
+
+        if (change.grant) {
+            members.set(key, {
+                role: roleName(change.role),
+                account: change.account,
+                instigator: change.instigator,
+                blockNumber: change.event.blockNumber,
+                transactionHash: change.event.transactionHash
+            })
+        } else {
+            members.delete(key)
+        }
+    }
+
+    return {
+        mediator: roles.address,
+        fromBlock,
+        toBlock,
+        global: [...global.values()],
+        daos: Object.fromEntries(
+            [...daos.entries()]
+                .filter(([, members]) => members.size > 0)
+                .map(([daoId, members]) => [daoId, [...members.values()]])
+        )
+    }
+}
+
+/**
+ * Checks each member in the snapshot still holds the role on-chain, recording
+ * the result against the member.
+ *
+ * @return count of members no longer holding their role.
+ */
+export async function verifyRoleMembership(
+    roles: RoleAccessControl,
+    snapshot: RoleMembershipSnapshot
+): Promise<number> {
+    let mismatches = 0
+
+    for (const member of snapshot.global) {
+        member.onChain = await roles.hasGlobalRole(
+            utils.formatBytes32String(member.role),
+            member.account
+        )
+        mismatches += member.onChain ? 0 : 1
+    }
+
+    for (const [daoId, members] of Object.entries(snapshot.daos)) {
+        for (const member of members) {
+            member.onChain = await roles.hasDaoRole(
+                daoId,
+                utils.formatBytes32String(member.role),
+                member.account
+            )
+            mismatches += member.onChain ? 0 : 1
+        }
+    }
+
+    return mismatches
+}
+
+function daoRoleChange(
+    event: ActualDaoRoleEvent
+): Omit<RoleChange, 'event' | 'grant'> & {daoId: string} {
+    return {...event, daoId: event.daoId.toString()}
+}
+
+function membersOf(
+    global: Map<string, RoleMember>,
+    daos: Map<string, Map<string, RoleMember>>,
+    change: MembershipChange
+): Map<string, RoleMember> {
+    if (change.scope === 'global') {
+        return global
+    }
+
+    const members = daos.get(change.daoId) ?? new Map<string, RoleMember>()
+    daos.set(change.daoId, members)
+
+    return members
+}
+
+function emitted(a: MembershipChange, b: MembershipChange): number {
+    return (
+        a.event.blockNumber - b.event.blockNumber ||
+        a.event.logIndex - b.event.logIndex
+    )
+}
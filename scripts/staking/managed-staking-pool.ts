@@ -0,0 +1,85 @@
+import {HardhatRuntimeEnvironment} from 'hardhat/types'
+import {StakingPool, StakingPoolMediator} from '../../typechain-types'
+
+/**
+ * Selection of a StakingPool managed by a DAO, either by address or by its
+ * index within the DAO.
+ */
+export type StakingPoolSelection = {
+    daoId: bigint
+    stakingPool?: string
+    index?: bigint
+}
+
+/**
+ * Attaches to the selected StakingPool, failing unless the DAO manages it.
+ */
+export async function managedStakingPoolAt(
+    hre: HardhatRuntimeEnvironment,
+    mediator: StakingPoolMediator,
+    selection: StakingPoolSelection
+): Promise<StakingPool> {
+    const address = await managedStakingPoolAddress(mediator, selection)
+
+    return <StakingPool>await hre.ethers.getContractAt('StakingPool', address)
+}
+
+/**
+ * Addresses of every StakingPool managed by the DAO.
+ */
+export async function managedStakingPools(
+    mediator: StakingPoolMediator,
+    daoId: bigint
+): Promise<string[]> {
+    const count = (await mediator.stakingPoolCount(daoId)).toNumber()
+    const stakingPools: string[] = []
+
+    for (let index = 0; index < count; index++) {
+        stakingPools.push(await mediator.stakingPoolAt(daoId, index))
+    }
+
+    return stakingPools
+}
+
+async function managedStakingPoolAddress(
+    mediator: StakingPoolMediator,
+    selection: StakingPoolSelection
+): Promise<string> {
+    const {daoId, stakingPool, index} = selection
+
+    if (typeof stakingPool === 'string' && typeof index === 'bigint') {
+        throw Error(
+            'Select the StakingPool by either address or index, not both'
+        )
+    }
+
+    if (typeof index === 'bigint') {
+        const count = (await mediator.stakingPoolCount(daoId)).toBigInt()
+
+        if (index >= count) {
+            throw Error(
+                `StakingPool index ${index} is out of range, DAO ${daoId} has ${count} StakingPools`
+            )
+        }
+
+        return mediator.stakingPoolAt(daoId, index)
+    }
+
+    if (typeof stakingPool === 'string') {
+        const stakingPools = await managedStakingPools(mediator, daoId)
+
+        if (
+            !stakingPools.some(
+                (managed) => managed.toLowerCase() === stakingPool.toLowerCase()
+            )
+        ) {
+            throw Error(
+                `StakingPool ${stakingPool} is not managed by DAO ${daoId}`
+            )
+        }
+
+        return stakingPool
+    }
+
+    throw Error('Select the StakingPool by either address or index')
+}
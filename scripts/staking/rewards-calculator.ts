@@ -0,0 +1,248 @@
+import {StakingPool} from '../../typechain-types'
+import {RewardType} from '../../test/event/staking/staking-events'
+
+/**
+ * Accuracy of the floating rewards per share, the 1 ether of StakingPool.
+ */
+export const FLOATING_REWARD_ACCURACY = 10n ** 18n
+
+/**
+ * Reward pool of a StakingPool, with the ratio being fixed from creation for
+ * a FIXED pool, or recomputed on every deposit for a FLOATING pool.
+ */
+export type RewardPool = {
+    tokens: string
+    maxAmount: bigint
+    ratio: bigint
+}
+
+/**
+ * Mirrors the User struct of StakingPool.
+ */
+export type Depositor = {
+    depositAmount: bigint
+    rewardAmounts: bigint[]
+}
+
+/**
+ * Configuration and deposits of a StakingPool that determine the rewards.
+ */
+export type StakingPoolRewardsState = {
+    rewardType: RewardType
+    minimumContribution: bigint
+    maxTotalPoolStake: bigint
+    rewardTokens: RewardPool[]
+    totalStaked: bigint
+    depositors: {[address: string]: Depositor}
+}
+
+/**
+ * Expected rewards of a depositor, ordered as the reward tokens.
+ */
+export type DepositorRewards = {
+    depositor: string
+    depositAmount: bigint
+    rewards: bigint[]
+}
+
+/**
+ * Mirrors _calculateFixedRewards, the reward amounts of a depositor after
+ * their deposit of the amount.
+ */
+export function calculateFixedRewards(
+    rewardTokens: RewardPool[],
+    rewardAmounts: bigint[],
+    amount: bigint
+): bigint[] {
+    return rewardTokens.map((reward, i) =>
+        checkedUint128(
+            (rewardAmounts[i] ?? 0n) + uint128(amount * reward.ratio)
+        )
+    )
+}
+
+/**
+ * Mirrors _calculateFloatingReward.
+ */
+export function calculateFloatingReward(
+    rewardAmountRatio: bigint,
+    depositAmount: bigint
+): bigint {
+    return uint128(
+        (rewardAmountRatio * depositAmount) / FLOATING_REWARD_ACCURACY
+    )
+}
+
+/**
+ * Mirrors _computeFloatingRewardsPerShare.
+ */
+export function computeFloatingRewardsPerShare(
+    availableTokenRewards: bigint,
+    total: bigint
+): bigint {
+    return (availableTokenRewards * FLOATING_REWARD_ACCURACY) / total
+}
+
+/**
+ * Applies a deposit as deposit() would, updating the floating ratios or the
+ * fixed rewards of the depositor.
+ */
+export function simulateDeposit(
+    state: StakingPoolRewardsState,
+    depositor: string,
+    amount: bigint
+): StakingPoolRewardsState {
+    if (amount < state.minimumContribution) {
+        throw Error(
+            `Deposit of ${amount} is below the minimum contribution of ${state.minimumContribution}`
+        )
+    }
+    if (state.totalStaked + amount > state.maxTotalPoolStake) {
+        throw Error(
+            `Deposit of ${amount} oversubscribes the max total pool stake of ${state.maxTotalPoolStake}`
+        )
+    }
+
+    const key = depositor.toLowerCase()
+    const previous = state.depositors[key] ?? {
+        depositAmount: 0n,
+        rewardAmounts: state.rewardTokens.map(() => 0n)
+    }
+    const totalStaked = state.totalStaked + amount
+    const user = {
+        depositAmount: checkedUint128(previous.depositAmount + amount),
+        rewardAmounts:
+            state.rewardType === RewardType.FIXED
+                ? calculateFixedRewards(
+                      state.rewardTokens,
+                      previous.rewardAmounts,
+                      amount
+                  )
+                : previous.rewardAmounts
+    }
+
+    return {
+        ...state,
+        rewardTokens:
+            state.rewardType === RewardType.FLOATING
+                ? state.rewardTokens.map((reward) => ({
+                      ...reward,
+                      ratio: computeFloatingRewardsPerShare(
+                          reward.maxAmount,
+                          totalStaked
+                      )
+                  }))
+                : state.rewardTokens,
+        totalStaked,
+        depositors: {...state.depositors, [key]: user}
+    }
+}
+
+/**
+ * Mirrors currentExpectedRewards, for a depositor yet to withdraw.
+ */
+export function expectedRewards(
+    state: StakingPoolRewardsState,
+    depositor: string
+): bigint[] {
+    const user = state.depositors[depositor.toLowerCase()]
+
+    return state.rewardTokens.map((reward, i) => {
+        if (!user) {
+            return 0n
+        }
+        if (state.rewardType === RewardType.FIXED) {
+            return user.rewardAmounts[i]
+        }
+        if (state.rewardType === RewardType.FLOATING) {
+            return calculateFloatingReward(reward.ratio, user.depositAmount)
+        }
+
+        return 0n
+    })
+}
+
+/**
+ * Expected rewards of every depositor, in order of their first deposit.
+ */
+export function depositorRewards(
+    state: StakingPoolRewardsState
+): DepositorRewards[] {
+    return Object.entries(state.depositors).map(([depositor, user]) => ({
+        depositor,
+        depositAmount: user.depositAmount,
+        rewards: expectedRewards(state, depositor)
+    }))
+}
+
+/**
+ * Rewards state of the StakingPool before any deposits, from its
+ * configuration.
+ */
+export async function initialRewardsState(
+    stakingPool: StakingPool
+): Promise<StakingPoolRewardsState> {
+    const config = await stakingPool.stakingPoolData()
+    const rewardType = <RewardType>config.rewardType
+
+    return {
+        rewardType,
+        minimumContribution: config.minimumContribution.toBigInt(),
+        maxTotalPoolStake: config.maxTotalPoolStake.toBigInt(),
+        rewardTokens: config.rewardTokens.map((reward) => ({
+            tokens: reward.tokens,
+            maxAmount: reward.maxAmount.toBigInt(),
+            ratio:
+                rewardType === RewardType.FLOATING
+                    ? 0n
+                    : reward.ratio.toBigInt()
+        })),
+        totalStaked: 0n,
+        depositors: {}
+    }
+}
+
+/**
+ * Reconstructs the rewards state by replaying the Deposit events of the
+ * StakingPool, from its configuration.
+ *
+ * Withdrawals are not replayed, giving the rewards of every depositor as of
+ * the end of the deposit period.
+ */
+export async function reconstructRewardsState(
+    stakingPool: StakingPool,
+    fromBlock: number
+): Promise<StakingPoolRewardsState> {
+    let state = await initialRewardsState(stakingPool)
+
+    for (const event of await stakingPool.queryFilter(
+        stakingPool.filters.Deposit(),
+        fromBlock
+    )) {
+        state = simulateDeposit(
+            state,
+            event.args.user,
+            event.args.depositAmount.toBigInt()
+        )
+    }
+
+    return state
+}
+
+/**
+ * Explicit conversion to uint128, truncating any higher bits.
+ */
+function uint128(value: bigint): bigint {
+    return BigInt.asUintN(128, value)
+}
+
+/**
+ * Checked uint128 arithmetic, that reverts on overflow.
+ */
+function checkedUint128(value: bigint): bigint {
+    if (value !== uint128(value)) {
+        throw Error(`Arithmetic overflow of uint128: ${value}`)
+    }
+
+    return value
+}
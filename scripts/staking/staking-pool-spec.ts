@@ -0,0 +1,288 @@
+import {HardhatRuntimeEnvironment} from 'hardhat/types'
+import {BigNumber} from 'ethers'
+import {StakingPoolMediator} from '../../typechain-types'
+import {StakingPoolLib} from '../../typechain-types/contracts/staking/StakingPoolMediator'
+import {RewardType} from '../../test/event/staking/staking-events'
+import {log} from '../../config/logging'
+import {erc20At, tokenAmount} from '../utils/erc20'
+import {
+    readSpecFile,
+    specAddress,
+    specAmount,
+    specArray,
+    specDuration,
+    specObject,
+    specString,
+    specTimestamp
+} from '../utils/spec-file'
+
+const UINT32_MAX = 0xffffffff
+const UINT128_MAX = BigNumber.from(2).pow(128).sub(1)
+
+/**
+ * Arguments for creating a managed StakingPool, read from a specification file.
+ */
+export type ManagedStakingPoolSpec = {
+    config: StakingPoolLib.ConfigStruct
+    launchPaused: boolean
+    rewardsAvailableTimestamp: number
+}
+
+/**
+ * Reads and validates the StakingPool specification file.
+ *
+ * Stake amounts are human-readable (e.g. "1250.5"), with the stake token
+ * decimals applied, as are the reward token max amounts. The ratio of a fixed
+ * reward is the raw multiplier of reward tokens per unit staked.
+ *
+ * @param path location of the JSON specification file.
+ * @param daoId DAO the StakingPool is being created for.
+ * @param mediator used to check the DAO and the stake token whitelisting.
+ * @param batched whether the StakingPool is being created in a Safe batch,
+ *          where an earlier transaction may whitelist the stake token.
+ */
+export async function readStakingPoolSpec(
+    hre: HardhatRuntimeEnvironment,
+    path: string,
+    daoId: bigint,
+    mediator: StakingPoolMediator,
+    batched = false
+): Promise<ManagedStakingPoolSpec> {
+    const spec = readSpecFile(path)
+    const config = specObject(spec.config, 'config')
+
+    const daoTreasury = await mediator.daoTreasury(daoId)
+    if (daoTreasury === hre.ethers.constants.AddressZero) {
+        throw Error(`No DAO ${daoId} with the StakingPoolMediator`)
+    }
+    const treasury = specAddress(
+        config.treasury ?? daoTreasury,
+        'config.treasury'
+    )
+
+    const stakeToken = specAddress(config.stakeToken, 'config.stakeToken')
+    if (!(await mediator.isAllowedDaoCollateral(daoId, stakeToken))) {
+        const reason = `Stake token ${stakeToken} is not whitelisted for DAO ${daoId}`
+
+        if (!batched) {
+            throw Error(reason)
+        }
+
+        log.warn('%s, expecting the batch to whitelist it first', reason)
+    }
+
+    const stake = await erc20At(hre, stakeToken)
+    const minTotalPoolStake = uint128(
+        await tokenAmount(
+            stake,
+            specAmount(
+                config.minTotalPoolStake ?? '0',
+                'config.minTotalPoolStake'
+            )
+        ),
+        'Minimum total pool stake'
+    )
+    const maxTotalPoolStake = uint128(
+        await tokenAmount(
+            stake,
+            specAmount(config.maxTotalPoolStake, 'config.maxTotalPoolStake')
+        ),
+        'Maximum total pool stake'
+    )
+    const minimumContribution = uint128(
+        await tokenAmount(
+            stake,
+            specAmount(config.minimumContribution, 'config.minimumContribution')
+        ),
+        'Minimum contribution'
+    )
+    if (maxTotalPoolStake.isZero()) {
+        throw Error('Maximum total pool stake must be greater than zero')
+    }
+    if (minTotalPoolStake.gt(maxTotalPoolStake)) {
+        throw Error('Minimum total pool stake is greater than the maximum')
+    }
+    if (minimumContribution.isZero()) {
+        throw Error('Minimum contribution must be greater than zero')
+    }
+    if (minimumContribution.gt(maxTotalPoolStake)) {
+        throw Error(
+            'Minimum contribution is greater than the maximum pool stake'
+        )
+    }
+
+    const epochStartTimestamp = uint32(
+        specTimestamp(config.epochStartTimestamp, 'config.epochStartTimestamp'),
+        'Epoch start'
+    )
+    const now = (await hre.ethers.provider.getBlock('latest')).timestamp
+    if (epochStartTimestamp < now) {
+        throw Error(
+            `Epoch start ${isoDate(epochStartTimestamp)} is in the past`
+        )
+    }
+
+    const epochDuration = uint32(
+        specDuration(config.epochDuration, 'config.epochDuration'),
+        'Epoch duration'
+    )
+    if (epochDuration === 0) {
+        throw Error('Epoch duration must be greater than zero')
+    }
+
+    const rewardsAvailableTimestamp = uint32(
+        specTimestamp(
+            spec.rewardsAvailableTimestamp,
+            'rewardsAvailableTimestamp'
+        ),
+        'Rewards available'
+    )
+    const epochEnd = epochStartTimestamp + epochDuration
+    if (rewardsAvailableTimestamp <= epochEnd) {
+        throw Error(
+            `Rewards available ${isoDate(
+                rewardsAvailableTimestamp
+            )} is not after the epoch end ${isoDate(epochEnd)}`
+        )
+    }
+
+    const rewardType = specRewardType(config.rewardType)
+    const launchPaused = spec.launchPaused ?? false
+    if (typeof launchPaused !== 'boolean') {
+        throw Error('Spec launchPaused is not a boolean')
+    }
+
+    return {
+        config: {
+            daoId,
+            minTotalPoolStake,
+            maxTotalPoolStake,
+            minimumContribution,
+            epochDuration,
+            epochStartTimestamp,
+            treasury,
+            stakeToken,
+            rewardTokens: await rewardTokens(
+                hre,
+                specArray(config.rewardTokens ?? [], 'config.rewardTokens'),
+                rewardType,
+                maxTotalPoolStake
+            ),
+            rewardType
+        },
+        launchPaused,
+        rewardsAvailableTimestamp
+    }
+}
+
+async function rewardTokens(
+    hre: HardhatRuntimeEnvironment,
+    rewards: unknown[],
+    rewardType: RewardType,
+    maxTotalPoolStake: BigNumber
+): Promise<StakingPoolLib.RewardStruct[]> {
+    if (rewardType === RewardType.NONE && rewards.length > 0) {
+        throw Error('Reward tokens given for a pool with reward type NONE')
+    }
+    if (rewardType !== RewardType.NONE && rewards.length === 0) {
+        throw Error(
+            `No reward tokens for reward type ${RewardType[rewardType]}`
+        )
+    }
+
+    const tokens: StakingPoolLib.RewardStruct[] = []
+    const rewardTokenAddresses = new Set<string>()
+
+    for (let i = 0; i < rewards.length; i++) {
+        const reward = specObject(rewards[i], `config.rewardTokens[${i}]`)
+        const address = specAddress(
+            reward.tokens,
+            `config.rewardTokens[${i}].tokens`
+        )
+
+        if (rewardTokenAddresses.has(address.toLowerCase())) {
+            throw Error(`Reward tokens ${address} appear more than once`)
+        }
+        rewardTokenAddresses.add(address.toLowerCase())
+
+        const maxAmount = await tokenAmount(
+            await erc20At(hre, address),
+            specAmount(reward.maxAmount, `config.rewardTokens[${i}].maxAmount`)
+        )
+        if (maxAmount.isZero()) {
+            throw Error(
+                `Reward max amount for ${address} must be greater than zero`
+            )
+        }
+
+        const ratio = BigNumber.from(
+            specRatio(reward.ratio, `config.rewardTokens[${i}].ratio`)
+        )
+        if (rewardType === RewardType.FIXED) {
+            if (ratio.isZero()) {
+                throw Error(
+                    `Fixed reward ratio for ${address} must be non-zero`
+                )
+            }
+            if (ratio.mul(maxTotalPoolStake).gt(maxAmount)) {
+                throw Error(
+                    `Reward max amount for ${address} cannot cover the fixed ratio at the maximum pool stake`
+                )
+            }
+        } else if (!ratio.isZero()) {
+            throw Error(
+                `Reward ratio for ${address} is only used with reward type FIXED`
+            )
+        }
+
+        tokens.push({tokens: address, maxAmount, ratio})
+    }
+
+    return tokens
+}
+
+function specRewardType(value: unknown): RewardType {
+    const name = specString(value, 'config.rewardType')
+    const rewardType = (<{[name: string]: unknown}>RewardType)[name]
+
+    if (typeof rewardType !== 'number') {
+        throw Error(
+            'Spec config.rewardType is not one of: NONE, FIXED, FLOATING'
+        )
+    }
+
+    return rewardType
+}
+
+/**
+ * Fixed reward ratios are raw integers, optional for the other reward types.
+ */
+function specRatio(value: unknown, field: string): string {
+    const ratio = typeof value === 'number' ? String(value) : value ?? '0'
+
+    if (typeof ratio !== 'string' || !/^\d+$/.test(ratio)) {
+        throw Error(`Spec ${field} is not an integer`)
+    }
+
+    return ratio
+}
+
+function uint128(amount: BigNumber, description: string): BigNumber {
+    if (amount.gt(UINT128_MAX)) {
+        throw Error(`${description} exceeds uint128`)
+    }
+
+    return amount
+}
+
+function uint32(seconds: number, description: string): number {
+    if (seconds > UINT32_MAX) {
+        throw Error(`${description} exceeds uint32`)
+    }
+
+    return seconds
+}
+
+function isoDate(seconds: number): string {
+    return new Date(seconds * 1000).toISOString()
+}
@@ -0,0 +1,79 @@
+import {CLIArgumentType} from 'hardhat/types'
+import {utils} from 'ethers'
+
+/**
+ * Ethereum address (EoA or contract), validated as the argument is parsed.
+ */
+export const address: CLIArgumentType<string> = {
+    name: 'address',
+    parse: (argName: string, strValue: string) => {
+        validateAddress(argName, strValue)
+        return strValue
+    },
+    validate: validateAddress
+}
+
+/**
+ * Comma separated list of Ethereum addresses, each validated as parsed.
+ */
+export const addresses: CLIArgumentType<string[]> = {
+    name: 'addresses',
+    parse: (argName: string, strValue: string) => {
+        const values = strValue.split(',').map((value) => value.trim())
+        values.forEach((value) => validateAddress(argName, value))
+        return values
+    },
+    validate: (argName: string, value: unknown) => {
+        if (!Array.isArray(value)) {
+            throw Error(`Argument ${argName} is not a list of addresses`)
+        }
+        value.forEach((element) => validateAddress(argName, element))
+    }
+}
+
+/**
+ * Unsigned integer, as used for IDs and token amounts.
+ */
+export const uint256: CLIArgumentType<bigint> = {
+    name: 'uint256',
+    parse: (argName: string, strValue: string) => {
+        if (!/^\d+$/.test(strValue)) {
+            throw Error(`Argument ${argName} is not an unsigned integer`)
+        }
+        return BigInt(strValue)
+    },
+    validate: (argName: string, value: unknown) => {
+        if (typeof value !== 'bigint' || value < 0n) {
+            throw Error(`Argument ${argName} is not an unsigned integer`)
+        }
+    }
+}
+
+/**
+ * Unix timestamp in seconds, given either as seconds or an ISO 8601 date.
+ */
+export const timestamp: CLIArgumentType<number> = {
+    name: 'timestamp',
+    parse: (argName: string, strValue: string) => {
+        if (/^\d+$/.test(strValue)) {
+            return Number(strValue)
+        }
+        if (Number.isNaN(Date.parse(strValue))) {
+            throw Error(
+                `Argument ${argName} is not a timestamp or ISO 8601 date`
+            )
+        }
+        return Math.floor(Date.parse(strValue) / 1000)
+    },
+    validate: (argName: string, value: unknown) => {
+        if (!Number.isInteger(value) || <number>value < 0) {
+            throw Error(`Argument ${argName} is not a timestamp`)
+        }
+    }
+}
+
+function validateAddress(argName: string, value: unknown): void {
+    if (typeof value !== 'string' || !utils.isAddress(value)) {
+        throw Error(`Argument ${argName} is not an Ethereum address`)
+    }
+}
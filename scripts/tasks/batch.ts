@@ -0,0 +1,23 @@
+import {ConfigurableTaskDefinition} from 'hardhat/types'
+import {address} from './argument-types'
+
+/**
+ * Adds the optional arguments for appending the transactions to a Safe
+ * Transaction Builder batch file, instead of sending them.
+ */
+export function batchParams(
+    definition: ConfigurableTaskDefinition
+): ConfigurableTaskDefinition {
+    return definition
+        .addOptionalParam(
+            'batch',
+            'Safe Transaction Builder JSON file to append the transactions to, instead of sending them'
+        )
+        .addOptionalParam(
+            'safe',
+            'Safe executing the batch, checked in place of the signer',
+            // eslint-disable-next-line no-undefined
+            undefined,
+            address
+        )
+}
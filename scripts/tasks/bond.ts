@@ -0,0 +1,1034 @@
+import {task, types} from 'hardhat/config'
+import {writeFileSync} from 'fs'
+import {ConfigurableTaskDefinition} from 'hardhat/types'
+import {BigNumber} from 'ethers'
+import {address, addresses, uint256} from './argument-types'
+import {batchParams} from './batch'
+import {BondMediatorArgs, bondMediatorParams} from './mediator'
+import {log} from '../../config/logging'
+import {BondSelection} from '../bond/managed-bond'
+import {deployment, readManifest} from '../utils/deployment-manifest'
+import {BatchArgs, isBatching} from '../utils/safe-batch'
+import {formatTable} from '../utils/table'
+import {sleep} from '../utils/sleep'
+
+type CreateBondArgs = BondMediatorArgs &
+    BatchArgs & {
+        daoId: bigint
+        spec: string
+    }
+
+type ManagedBondArgs = BondMediatorArgs & BondSelection
+
+type AdminBondArgs = ManagedBondArgs & BatchArgs
+
+type ReasonArgs = AdminBondArgs & {
+    reason: string
+}
+
+type SlashArgs = ReasonArgs & {
+    amount: string
+}
+
+type SetMetaDataArgs = AdminBondArgs & {
+    metadata: string
+}
+
+type SetTreasuryArgs = AdminBondArgs & {
+    treasury: string
+}
+
+type SweepArgs = AdminBondArgs & {
+    tokens: string
+    amount: string
+}
+
+type UpdateRewardTimeLockArgs = AdminBondArgs & {
+    tokens: string
+    timeLock: bigint
+}
+
+type TimelineArgs = ManagedBondArgs & {
+    fromBlock?: number
+    format: string
+    output?: string
+}
+
+const TIMELINE_FORMATS = ['markdown', 'json']
+
+type DepositArgs = ManagedBondArgs & {
+    amount: string
+    permit: boolean
+}
+
+type RedemptionForecastArgs = ManagedBondArgs & {
+    guarantor?: string
+    amount?: string
+    slash?: string
+    fromBlock?: number
+}
+
+type RewardScheduleArgs = ManagedBondArgs & {
+    claimants?: string[]
+    fromBlock?: number
+    format: string
+    output?: string
+}
+
+type AutoClaimArgs = BondMediatorArgs & {
+    claimConfig: string
+    history?: string
+    follow: boolean
+    pollInterval: number
+}
+
+type ClaimHistoryArgs = {
+    history?: string
+    guarantor?: string
+    format: string
+}
+
+const SCHEDULE_FORMATS = ['table', 'json', 'ical']
+
+const HISTORY_FORMATS = ['table', 'json']
+
+batchParams(
+    bondMediatorParams(
+        task('bond:create', 'Creates a managed Bond from a specification file')
+    )
+)
+    .addParam(
+        'daoId',
+        'ID of the DAO to create the Bond in',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        uint256
+    )
+    .addParam(
+        'spec',
+        'JSON file with the Bond metadata, settings and rewards',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        types.inputFile
+    )
+    .setAction(async (args: CreateBondArgs, hre) => {
+        // Modules that import Hardhat may only be loaded after the config
+        const {bondCreatorAt, bondMediatorAt} = await import(
+            '../utils/mediator'
+        )
+        const {readBondSpec} = await import('../bond/bond-spec')
+        const {logCreateBondEvents, logEventLogs, submitTransaction} =
+            await import('../utils/transaction-event-log')
+        const {addBondEventLogs} = await import(
+            '../../test/event/bond/bond-curator-events'
+        )
+
+        const mediator = await bondMediatorAt(hre, args)
+        const bond = await readBondSpec(
+            hre,
+            args.spec,
+            args.daoId,
+            mediator,
+            isBatching(args)
+        )
+
+        log.info('Creating a new managed Bond in DAO %s', args.daoId.toString())
+
+        const receipt = await submitTransaction(
+            args,
+            mediator,
+            mediator.populateTransaction.createManagedBond(
+                args.daoId,
+                bond.metadata,
+                bond.configuration,
+                bond.rewards
+            )
+        )
+
+        if (receipt !== null) {
+            logCreateBondEvents(await bondCreatorAt(hre, mediator), receipt)
+            logEventLogs(mediator, receipt, 'AddBond', addBondEventLogs)
+        }
+    })
+
+batchParams(
+    managedBondParams(
+        task(
+            'bond:allow-redemption',
+            'Allows the guarantors to redeem their debt tokens for collateral'
+        )
+    )
+)
+    .addParam('reason', 'Reason for allowing redemption')
+    .setAction(async (args: ReasonArgs, hre) => {
+        // Modules that import Hardhat may only be loaded after the config
+        const {bondMediatorAt} = await import('../utils/mediator')
+        const {managedBondAt} = await import('../bond/managed-bond')
+        const {logEventLogs, logOptionalEventLogs, submitTransaction} =
+            await import('../utils/transaction-event-log')
+        const {redeemableUpdateEventLogs} = await import(
+            '../../test/event/bond/redeemable-events'
+        )
+        const {allowRedemptionEventLogs, partialCollateralEventLogs} =
+            await import('../../test/event/bond/single-collateral-bond-events')
+        const {redemptionTimestampUpdateEventLogs} = await import(
+            '../../test/event/bond/time-lock-multi-reward-bond-events'
+        )
+
+        const mediator = await bondMediatorAt(hre, args)
+        const bond = await managedBondAt(hre, mediator, args)
+
+        log.info('Allowing redemption of Bond %s', bond.address)
+
+        const receipt = await submitTransaction(
+            args,
+            mediator,
+            mediator.populateTransaction.bondAllowRedemption(
+                args.daoId,
+                bond.address,
+                args.reason
+            )
+        )
+
+        if (receipt !== null) {
+            logEventLogs(
+                bond,
+                receipt,
+                'AllowRedemption',
+                allowRedemptionEventLogs
+            )
+            logEventLogs(
+                bond,
+                receipt,
+                'RedeemableUpdate',
+                redeemableUpdateEventLogs
+            )
+            logEventLogs(
+                bond,
+                receipt,
+                'RedemptionTimestampUpdate',
+                redemptionTimestampUpdateEventLogs
+            )
+            logOptionalEventLogs(
+                bond,
+                receipt,
+                'PartialCollateral',
+                partialCollateralEventLogs
+            )
+        }
+    })
+
+batchParams(managedBondParams(task('bond:pause', 'Pauses a Bond'))).setAction(
+    async (args: AdminBondArgs, hre) => {
+        // Modules that import Hardhat may only be loaded after the config
+        const {bondMediatorAt} = await import('../utils/mediator')
+        const {managedBondAt} = await import('../bond/managed-bond')
+        const {logEventLogs, submitTransaction} = await import(
+            '../utils/transaction-event-log'
+        )
+        const {pausedEventLogs} = await import(
+            '../../test/event/pausable/pausable-events'
+        )
+
+        const mediator = await bondMediatorAt(hre, args)
+        const bond = await managedBondAt(hre, mediator, args)
+
+        log.info('Pausing Bond %s', bond.address)
+
+        const receipt = await submitTransaction(
+            args,
+            mediator,
+            mediator.populateTransaction.bondPause(args.daoId, bond.address)
+        )
+
+        if (receipt !== null) {
+            logEventLogs(bond, receipt, 'Paused', pausedEventLogs)
+        }
+    }
+)
+
+batchParams(
+    managedBondParams(task('bond:unpause', 'Unpauses a Bond'))
+).setAction(async (args: AdminBondArgs, hre) => {
+    // Modules that import Hardhat may only be loaded after the config
+    const {bondMediatorAt} = await import('../utils/mediator')
+    const {managedBondAt} = await import('../bond/managed-bond')
+    const {logEventLogs, submitTransaction} = await import(
+        '../utils/transaction-event-log'
+    )
+    const {unpausedEventLogs} = await import(
+        '../../test/event/pausable/pausable-events'
+    )
+
+    const mediator = await bondMediatorAt(hre, args)
+    const bond = await managedBondAt(hre, mediator, args)
+
+    log.info('Unpausing Bond %s', bond.address)
+
+    const receipt = await submitTransaction(
+        args,
+        mediator,
+        mediator.populateTransaction.bondUnpause(args.daoId, bond.address)
+    )
+
+    if (receipt !== null) {
+        logEventLogs(bond, receipt, 'Unpaused', unpausedEventLogs)
+    }
+})
+
+batchParams(
+    managedBondParams(
+        task(
+            'bond:slash',
+            'Slashes collateral from a Bond, sending it to the treasury'
+        )
+    )
+)
+    .addParam('amount', 'Amount of collateral to slash, in whole tokens')
+    .addParam('reason', 'Reason for the slashing')
+    .setAction(async (args: SlashArgs, hre) => {
+        // Modules that import Hardhat may only be loaded after the config
+        const {bondMediatorAt} = await import('../utils/mediator')
+        const {managedBondAt} = await import('../bond/managed-bond')
+        const {erc20At, tokenAmount} = await import('../utils/erc20')
+        const {logEventLogs, submitTransaction} = await import(
+            '../utils/transaction-event-log'
+        )
+        const {slashDepositsEventLogs} = await import(
+            '../../test/event/bond/single-collateral-bond-events'
+        )
+
+        const mediator = await bondMediatorAt(hre, args)
+        const bond = await managedBondAt(hre, mediator, args)
+        const collateral = await erc20At(hre, await bond.collateralTokens())
+
+        log.info('Slashing %s from Bond %s', args.amount, bond.address)
+
+        const receipt = await submitTransaction(
+            args,
+            mediator,
+            mediator.populateTransaction.bondSlash(
+                args.daoId,
+                bond.address,
+                await tokenAmount(collateral, args.amount),
+                args.reason
+            )
+        )
+
+        if (receipt !== null) {
+            logEventLogs(bond, receipt, 'SlashDeposits', slashDepositsEventLogs)
+        }
+    })
+
+batchParams(
+    managedBondParams(
+        task('bond:set-metadata', 'Replaces the meta data of a Bond')
+    )
+)
+    .addParam('metadata', 'Replacement meta data for the Bond')
+    .setAction(async (args: SetMetaDataArgs, hre) => {
+        // Modules that import Hardhat may only be loaded after the config
+        const {bondMediatorAt} = await import('../utils/mediator')
+        const {managedBondAt} = await import('../bond/managed-bond')
+        const {logEventLogs, submitTransaction} = await import(
+            '../utils/transaction-event-log'
+        )
+        const {metaDataUpdateEventLogs} = await import(
+            '../../test/event/bond/meta-data-store-events'
+        )
+
+        const mediator = await bondMediatorAt(hre, args)
+        const bond = await managedBondAt(hre, mediator, args)
+
+        log.info('Setting the meta data of Bond %s', bond.address)
+
+        const receipt = await submitTransaction(
+            args,
+            mediator,
+            mediator.populateTransaction.bondSetMetaData(
+                args.daoId,
+                bond.address,
+                args.metadata
+            )
+        )
+
+        if (receipt !== null) {
+            logEventLogs(
+                bond,
+                receipt,
+                'MetaDataUpdate',
+                metaDataUpdateEventLogs
+            )
+        }
+    })
+
+batchParams(
+    managedBondParams(
+        task(
+            'bond:set-treasury',
+            'Replaces the treasury of a Bond, also the token sweep beneficiary'
+        )
+    )
+)
+    .addParam(
+        'treasury',
+        'Replacement treasury for the Bond',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        address
+    )
+    .setAction(async (args: SetTreasuryArgs, hre) => {
+        // Modules that import Hardhat may only be loaded after the config
+        const {bondMediatorAt} = await import('../utils/mediator')
+        const {managedBondAt} = await import('../bond/managed-bond')
+        const {logEventLogs, submitTransaction} = await import(
+            '../utils/transaction-event-log'
+        )
+        const {beneficiaryUpdateEventLogs} = await import(
+            '../../test/event/sweep/token-sweeo-events'
+        )
+
+        const mediator = await bondMediatorAt(hre, args)
+        const bond = await managedBondAt(hre, mediator, args)
+
+        log.info('Setting the treasury of Bond %s', bond.address)
+
+        const receipt = await submitTransaction(
+            args,
+            mediator,
+            mediator.populateTransaction.bondSetTreasury(
+                args.daoId,
+                bond.address,
+                args.treasury
+            )
+        )
+
+        if (receipt !== null) {
+            logEventLogs(
+                bond,
+                receipt,
+                'BeneficiaryUpdate',
+                beneficiaryUpdateEventLogs
+            )
+        }
+    })
+
+batchParams(
+    managedBondParams(
+        task(
+            'bond:sweep',
+            'Sweeps ERC20 tokens, other than the collateral, from a Bond'
+        )
+    )
+)
+    .addParam(
+        'tokens',
+        'ERC20 token contract to sweep',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        address
+    )
+    .addParam('amount', 'Amount of tokens to sweep, in whole tokens')
+    .setAction(async (args: SweepArgs, hre) => {
+        // Modules that import Hardhat may only be loaded after the config
+        const {bondMediatorAt} = await import('../utils/mediator')
+        const {managedBondAt} = await import('../bond/managed-bond')
+        const {erc20At, tokenAmount} = await import('../utils/erc20')
+        const {logEventLogs, submitTransaction} = await import(
+            '../utils/transaction-event-log'
+        )
+        const {erc20SweepEventLogs} = await import(
+            '../../test/event/sweep/sweep-erc20-events'
+        )
+
+        const mediator = await bondMediatorAt(hre, args)
+        const bond = await managedBondAt(hre, mediator, args)
+        const tokens = await erc20At(hre, args.tokens)
+
+        log.info('Sweeping %s tokens from Bond %s', args.amount, bond.address)
+
+        const receipt = await submitTransaction(
+            args,
+            mediator,
+            mediator.populateTransaction.bondSweepERC20Tokens(
+                args.daoId,
+                bond.address,
+                args.tokens,
+                await tokenAmount(tokens, args.amount)
+            )
+        )
+
+        if (receipt !== null) {
+            logEventLogs(bond, receipt, 'ERC20Sweep', erc20SweepEventLogs)
+        }
+    })
+
+batchParams(
+    managedBondParams(
+        task(
+            'bond:update-reward-time-lock',
+            'Replaces the time lock of a Bond reward pool'
+        )
+    )
+)
+    .addParam(
+        'tokens',
+        'ERC20 token contract of the reward pool',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        address
+    )
+    .addParam(
+        'timeLock',
+        'Seconds after redemption before the rewards may be claimed',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        uint256
+    )
+    .setAction(async (args: UpdateRewardTimeLockArgs, hre) => {
+        // Modules that import Hardhat may only be loaded after the config
+        const {bondMediatorAt} = await import('../utils/mediator')
+        const {managedBondAt} = await import('../bond/managed-bond')
+        const {logEventLogs, submitTransaction} = await import(
+            '../utils/transaction-event-log'
+        )
+        const {rewardTimeLockUpdateEventLogs} = await import(
+            '../../test/event/bond/time-lock-multi-reward-bond-events'
+        )
+
+        const mediator = await bondMediatorAt(hre, args)
+        const bond = await managedBondAt(hre, mediator, args)
+
+        log.info('Updating the reward time lock of Bond %s', bond.address)
+
+        const receipt = await submitTransaction(
+            args,
+            mediator,
+            mediator.populateTransaction.bondUpdateRewardTimeLock(
+                args.daoId,
+                bond.address,
+                args.tokens,
+                args.timeLock
+            )
+        )
+
+        if (receipt !== null) {
+            logEventLogs(
+                bond,
+                receipt,
+                'RewardTimeLockUpdate',
+                rewardTimeLockUpdateEventLogs
+            )
+        }
+    })
+
+batchParams(
+    managedBondParams(
+        task(
+            'bond:withdraw-collateral',
+            'Withdraws the remaining collateral of a redeemable Bond to the treasury'
+        )
+    )
+).setAction(async (args: AdminBondArgs, hre) => {
+    // Modules that import Hardhat may only be loaded after the config
+    const {bondMediatorAt} = await import('../utils/mediator')
+    const {managedBondAt} = await import('../bond/managed-bond')
+    const {logEventLogs, submitTransaction} = await import(
+        '../utils/transaction-event-log'
+    )
+    const {withdrawCollateralEventLogs} = await import(
+        '../../test/event/bond/single-collateral-bond-events'
+    )
+
+    const mediator = await bondMediatorAt(hre, args)
+    const bond = await managedBondAt(hre, mediator, args)
+
+    log.info('Withdrawing the collateral of Bond %s', bond.address)
+
+    const receipt = await submitTransaction(
+        args,
+        mediator,
+        mediator.populateTransaction.bondWithdrawCollateral(
+            args.daoId,
+            bond.address
+        )
+    )
+
+    if (receipt !== null) {
+        logEventLogs(
+            bond,
+            receipt,
+            'WithdrawCollateral',
+            withdrawCollateralEventLogs
+        )
+    }
+})
+
+managedBondParams(
+    task(
+        'bond:timeline',
+        'Reconstructs the lifecycle of a Bond from its events, with the guarantor balances'
+    )
+)
+    .addOptionalParam(
+        'fromBlock',
+        'Block to scan from, defaulting to the deployment block in the manifest',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        types.int
+    )
+    .addOptionalParam(
+        'format',
+        `Output format, one of: ${TIMELINE_FORMATS.join(', ')}`,
+        'markdown'
+    )
+    .addOptionalParam('output', 'File to write the timeline to, not stdout')
+    .setAction(async (args: TimelineArgs, hre) => {
+        // Modules that import Hardhat may only be loaded after the config
+        const {bondCreatorAt, bondMediatorAt} = await import(
+            '../utils/mediator'
+        )
+        const {bondTimeline, bondTimelineMarkdown} = await import(
+            '../bond/bond-timeline'
+        )
+        const {managedBondAt} = await import('../bond/managed-bond')
+
+        if (!TIMELINE_FORMATS.includes(args.format)) {
+            throw Error(
+                `Unknown format: ${
+                    args.format
+                }, expecting one of: ${TIMELINE_FORMATS.join(', ')}`
+            )
+        }
+
+        const mediator = await bondMediatorAt(hre, args)
+        const bond = await managedBondAt(hre, mediator, args)
+        const factory = await bondCreatorAt(hre, mediator)
+        const fromBlock =
+            args.fromBlock ??
+            (args.mediatorAddress
+                ? 0
+                : deployment(readManifest(hre.network.name), 'BondMediator')
+                      .blockNumber)
+
+        const timeline = await bondTimeline(hre, bond, factory, fromBlock)
+        const output =
+            args.format === 'json'
+                ? `${JSON.stringify(timeline, null, 2)}\n`
+                : bondTimelineMarkdown(timeline)
+
+        if (args.output) {
+            writeFileSync(args.output, output)
+            log.info('Bond timeline written to %s', args.output)
+        } else {
+            process.stdout.write(output)
+        }
+    })
+
+managedBondParams(
+    task(
+        'bond:deposit',
+        'Deposits collateral into a Bond, approving the collateral when needed'
+    )
+)
+    .addParam('amount', 'Collateral to deposit in whole tokens')
+    .addFlag(
+        'permit',
+        'Allow the Bond to spend the collateral with an EIP-2612 permit, when supported'
+    )
+    .setAction(async (args: DepositArgs, hre) => {
+        // Modules that import Hardhat may only be loaded after the config
+        const {bondMediatorAt} = await import('../utils/mediator')
+        const {managedBondAt} = await import('../bond/managed-bond')
+        const {erc20At, formatTokenAmount, tokenAmount} = await import(
+            '../utils/erc20'
+        )
+        const {BondHandle} = await import('../../sdk/bond-handle')
+
+        const mediator = await bondMediatorAt(hre, args)
+        const bond = await managedBondAt(hre, mediator, args)
+        const collateral = await erc20At(hre, await bond.collateralTokens())
+        const debt = await erc20At(hre, bond.address)
+        const amount = await tokenAmount(collateral, args.amount)
+
+        const guarantor = new BondHandle(bond.signer, bond.address)
+        const check = await guarantor.checkDeposit(amount)
+
+        log.info(
+            'Depositing %s into Bond %s',
+            await formatTokenAmount(collateral, amount),
+            bond.address
+        )
+        log.info(
+            'Minimum deposit: %s',
+            await formatTokenAmount(collateral, check.minimumDeposit)
+        )
+        log.info(
+            'Debt tokens remaining: %s, outstanding: %s',
+            await formatTokenAmount(debt, check.debtTokensRemaining),
+            await formatTokenAmount(debt, check.debtTokensOutstanding)
+        )
+        log.info(
+            'Current allowance: %s',
+            await formatTokenAmount(collateral, check.allowance)
+        )
+
+        const deposited = await guarantor.deposit(amount, {
+            permit: args.permit
+        })
+
+        log.info('Collateral spend allowed by %s', deposited.authorization)
+        log.info(
+            'Deposited: %s',
+            await formatTokenAmount(
+                collateral,
+                deposited.deposit.collateralAmount
+            )
+        )
+        log.info(
+            'Debt tokens issued: %s',
+            await formatTokenAmount(debt, deposited.debtIssue.debtAmount)
+        )
+
+        if (deposited.fullCollateral.length > 0) {
+            log.info('Bond %s now has full collateral', bond.address)
+        }
+    })
+
+managedBondParams(
+    task(
+        'bond:redemption-forecast',
+        'Calculates the collateral a guarantor receives on redeeming their debt tokens'
+    )
+)
+    .addOptionalParam(
+        'guarantor',
+        'Guarantor redeeming, defaulting to the signer',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        address
+    )
+    .addOptionalParam(
+        'amount',
+        'Debt tokens to redeem in whole tokens, defaulting to the guarantor balance'
+    )
+    .addOptionalParam(
+        'slash',
+        'Hypothetical further slash before redemption, in whole collateral tokens'
+    )
+    .addOptionalParam(
+        'fromBlock',
+        'Block to scan for redemption being allowed from, defaulting to the deployment block in the manifest',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        types.int
+    )
+    .setAction(async (args: RedemptionForecastArgs, hre) => {
+        // Modules that import Hardhat may only be loaded after the config
+        const {bondMediatorAt} = await import('../utils/mediator')
+        const {
+            REDEMPTION_RATIO_ACCURACY,
+            hasBeenSlashed,
+            readRedemptionRatio,
+            readRedemptionState,
+            redemptionRatio,
+            simulateRedemption,
+            simulateSlash
+        } = await import('../bond/redemption-calculator')
+        const {managedBondAt} = await import('../bond/managed-bond')
+        const {erc20At, formatTokenAmount, tokenAmount} = await import(
+            '../utils/erc20'
+        )
+
+        const mediator = await bondMediatorAt(hre, args)
+        const bond = await managedBondAt(hre, mediator, args)
+        const collateral = await erc20At(hre, await bond.collateralTokens())
+        const debt = await erc20At(hre, bond.address)
+        const guarantor = args.guarantor ?? (await bond.signer.getAddress())
+        const amount =
+            typeof args.amount === 'string'
+                ? await tokenAmount(debt, args.amount)
+                : await bond.balanceOf(guarantor)
+        let state = await readRedemptionState(bond)
+        let ratio: bigint
+
+        if (typeof args.slash === 'string') {
+            if (await bond.redeemable()) {
+                throw Error('Bond is redeemable, it can no longer be slashed')
+            }
+
+            state = simulateSlash(
+                state,
+                (await tokenAmount(collateral, args.slash)).toBigInt()
+            )
+            ratio = redemptionRatio(state)
+        } else {
+            const fromBlock =
+                args.fromBlock ??
+                (args.mediatorAddress
+                    ? 0
+                    : deployment(readManifest(hre.network.name), 'BondMediator')
+                          .blockNumber)
+
+            ratio = await readRedemptionRatio(bond, fromBlock)
+        }
+
+        const redemption = simulateRedemption(state, ratio, amount.toBigInt())
+
+        log.info('Bond: %s', bond.address)
+        log.info('Guarantor: %s', guarantor)
+        log.info(
+            'Slashed: %s',
+            await formatTokenAmount(
+                collateral,
+                BigNumber.from(state.collateralSlashed)
+            )
+        )
+        log.info(
+            'Redemption ratio: %s',
+            hasBeenSlashed(state)
+                ? `${ratio.toString()} / ${REDEMPTION_RATIO_ACCURACY.toString()}`
+                : '1:1'
+        )
+        log.info('Redeeming: %s', await formatTokenAmount(debt, amount))
+        log.info(
+            'Collateral returned: %s',
+            await formatTokenAmount(
+                collateral,
+                BigNumber.from(redemption.collateralAmount)
+            )
+        )
+    })
+
+managedBondParams(
+    task(
+        'bond:reward-schedule',
+        'Schedules when each reward pool of a Bond unlocks for each claimant'
+    )
+)
+    .addOptionalParam(
+        'claimants',
+        'Comma separated claimants, defaulting to all with reward debt',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        addresses
+    )
+    .addOptionalParam(
+        'fromBlock',
+        'Block to scan for claimants from, defaulting to the deployment block in the manifest',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        types.int
+    )
+    .addOptionalParam(
+        'format',
+        `Output format, one of: ${SCHEDULE_FORMATS.join(', ')}`,
+        'table'
+    )
+    .addOptionalParam('output', 'File to write the schedule to, not stdout')
+    .setAction(async (args: RewardScheduleArgs, hre) => {
+        // Modules that import Hardhat may only be loaded after the config
+        const {bondMediatorAt} = await import('../utils/mediator')
+        const {
+            REWARD_SCHEDULE_COLUMNS,
+            rewardClaimants,
+            rewardSchedule,
+            rewardScheduleICalendar,
+            rewardScheduleRows
+        } = await import('../bond/reward-schedule')
+        const {managedBondAt} = await import('../bond/managed-bond')
+
+        if (!SCHEDULE_FORMATS.includes(args.format)) {
+            throw Error(
+                `Unknown format: ${
+                    args.format
+                }, expecting one of: ${SCHEDULE_FORMATS.join(', ')}`
+            )
+        }
+
+        const mediator = await bondMediatorAt(hre, args)
+        const bond = await managedBondAt(hre, mediator, args)
+        const fromBlock =
+            args.fromBlock ??
+            (args.mediatorAddress
+                ? 0
+                : deployment(readManifest(hre.network.name), 'BondMediator')
+                      .blockNumber)
+        const claimants =
+            args.claimants ?? (await rewardClaimants(bond, fromBlock))
+
+        log.info(
+            'Scheduling the rewards of Bond %s for %s claimants',
+            bond.address,
+            claimants.length
+        )
+
+        const schedule = await rewardSchedule(hre, bond, claimants)
+
+        let output: string
+        if (args.format === 'json') {
+            output = `${JSON.stringify(schedule, null, 2)}\n`
+        } else if (args.format === 'ical') {
+            output = rewardScheduleICalendar(schedule)
+        } else {
+            output = `${formatTable(
+                REWARD_SCHEDULE_COLUMNS,
+                rewardScheduleRows(schedule)
+            )}\n`
+        }
+
+        if (args.output) {
+            writeFileSync(args.output, output)
+            log.info('Reward schedule written to %s', args.output)
+        } else {
+            process.stdout.write(output)
+        }
+    })
+
+bondMediatorParams(
+    task(
+        'bond:auto-claim',
+        'Claims the available rewards of the configured guarantors, once over their thresholds'
+    )
+)
+    .addParam(
+        'claimConfig',
+        'JSON file of the guarantors and their reward thresholds'
+    )
+    .addOptionalParam(
+        'history',
+        'JSON file of the claim history, defaulting to claims-<network>.json'
+    )
+    .addFlag('follow', 'Keep claiming every poll interval')
+    .addOptionalParam(
+        'pollInterval',
+        'Seconds between claim runs when following',
+        3600,
+        types.int
+    )
+    .setAction(async (args: AutoClaimArgs, hre) => {
+        // Modules that import Hardhat may only be loaded after the config
+        const {bondMediatorAt} = await import('../utils/mediator')
+        const {
+            autoClaim,
+            readAutoClaimConfig,
+            readClaimHistory,
+            writeClaimHistory
+        } = await import('../bond/auto-claim')
+
+        const path = args.history ?? `claims-${hre.network.name}.json`
+        const guarantors = readAutoClaimConfig(args.claimConfig)
+        const mediator = await bondMediatorAt(hre, args)
+        const history = readClaimHistory(path)
+
+        for (;;) {
+            const claims = await autoClaim(
+                hre,
+                mediator,
+                guarantors,
+                history,
+                (changed) => writeClaimHistory(path, changed)
+            )
+
+            log.info(
+                'Auto-claim run for %s guarantors made %s claims',
+                guarantors.length,
+                claims.length
+            )
+
+            if (!args.follow) {
+                break
+            }
+
+            await sleep(args.pollInterval * 1000)
+        }
+    })
+
+task(
+    'bond:claim-history',
+    'Lists the rewards claimed for the guarantors by bond:auto-claim'
+)
+    .addOptionalParam(
+        'history',
+        'JSON file of the claim history, defaulting to claims-<network>.json'
+    )
+    .addOptionalParam(
+        'guarantor',
+        'Only list the claims of this guarantor',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        address
+    )
+    .addOptionalParam(
+        'format',
+        `Output format, one of: ${HISTORY_FORMATS.join(', ')}`,
+        'table'
+    )
+    .setAction(async (args: ClaimHistoryArgs, hre) => {
+        if (!HISTORY_FORMATS.includes(args.format)) {
+            throw Error(
+                `Unknown format: ${
+                    args.format
+                }, expecting one of: ${HISTORY_FORMATS.join(', ')}`
+            )
+        }
+
+        // Modules that import Hardhat may only be loaded after the config
+        const {CLAIM_HISTORY_COLUMNS, claimHistoryRows, readClaimHistory} =
+            await import('../bond/auto-claim')
+
+        const history = readClaimHistory(
+            args.history ?? `claims-${hre.network.name}.json`
+        )
+
+        if (args.format === 'json') {
+            const guarantor = args.guarantor?.toLowerCase()
+            process.stdout.write(
+                `${JSON.stringify(
+                    typeof guarantor === 'string'
+                        ? {[guarantor]: history[guarantor] ?? []}
+                        : history,
+                    null,
+                    2
+                )}\n`
+            )
+        } else {
+            process.stdout.write(
+                `${formatTable(
+                    CLAIM_HISTORY_COLUMNS,
+                    claimHistoryRows(history, args.guarantor)
+                )}\n`
+            )
+        }
+    })
+
+/**
+ * Adds the arguments selecting a Bond managed by a DAO, by either the
+ * address of the Bond or its index within the DAO.
+ */
+function managedBondParams(
+    definition: ConfigurableTaskDefinition
+): ConfigurableTaskDefinition {
+    return bondMediatorParams(definition)
+        .addParam(
+            'daoId',
+            'ID of the DAO managing the Bond',
+            // eslint-disable-next-line no-undefined
+            undefined,
+            uint256
+        )
+        .addOptionalParam(
+            'bond',
+            'Address of the Bond',
+            // eslint-disable-next-line no-undefined
+            undefined,
+            address
+        )
+        .addOptionalParam(
+            'index',
+            'Index of the Bond within the DAO',
+            // eslint-disable-next-line no-undefined
+            undefined,
+            uint256
+        )
+}
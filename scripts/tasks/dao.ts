@@ -0,0 +1,437 @@
+import {task} from 'hardhat/config'
+import {writeFileSync} from 'fs'
+import {address, uint256} from './argument-types'
+import {batchParams} from './batch'
+import {
+    BondMediatorArgs,
+    MediatorArgs,
+    bondMediatorParams,
+    mediatorParams
+} from './mediator'
+import {log} from '../../config/logging'
+import {formatCsv, formatTable} from '../utils/table'
+import {BatchArgs} from '../utils/safe-batch'
+
+type CreateDaoArgs = MediatorArgs &
+    BatchArgs & {
+        treasury: string
+    }
+
+type DaoArgs = MediatorArgs & {
+    daoId: bigint
+}
+
+type SetTreasuryArgs = DaoArgs &
+    BatchArgs & {
+        treasury: string
+    }
+
+type SetMetaDataArgs = DaoArgs &
+    BatchArgs & {
+        metadata: string
+    }
+
+type CollateralArgs = DaoArgs &
+    BatchArgs & {
+        collateral: string
+    }
+
+type MigrateTreasuryArgs = BondMediatorArgs &
+    BatchArgs & {
+        daoId: bigint
+        dryRun: boolean
+    }
+
+type ReportArgs = {
+    format: string
+    output?: string
+    bondMediatorAddress?: string
+    stakingPoolMediatorAddress?: string
+}
+
+const REPORT_FORMATS = ['table', 'json', 'csv']
+
+batchParams(mediatorParams(task('dao:create', 'Creates a new DAO')))
+    .addParam(
+        'treasury',
+        'Treasury for the DAO, receiving any slashed or expired collateral',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        address
+    )
+    .setAction(async (args: CreateDaoArgs, hre) => {
+        // Modules that import Hardhat may only be loaded after the config
+        const {mediatorAt} = await import('../utils/mediator')
+        const {logEventLogs, submitTransaction} = await import(
+            '../utils/transaction-event-log'
+        )
+        const {createDaoEventLogs} = await import(
+            '../../test/event/bond/bond-mediator-events'
+        )
+
+        const mediator = await mediatorAt(hre, args)
+
+        log.info('Creating a new DAO with %s', args.mediator)
+
+        const receipt = await submitTransaction(
+            args,
+            mediator,
+            mediator.populateTransaction.createDao(args.treasury)
+        )
+
+        if (receipt !== null) {
+            logEventLogs(mediator, receipt, 'CreateDao', createDaoEventLogs)
+        }
+    })
+
+batchParams(
+    mediatorParams(task('dao:set-treasury', 'Replaces the treasury of a DAO'))
+)
+    // eslint-disable-next-line no-undefined
+    .addParam('daoId', 'ID of the DAO', undefined, uint256)
+    .addParam(
+        'treasury',
+        'Replacement treasury for the DAO',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        address
+    )
+    .setAction(async (args: SetTreasuryArgs, hre) => {
+        // Modules that import Hardhat may only be loaded after the config
+        const {mediatorAt} = await import('../utils/mediator')
+        const {logEventLogs, submitTransaction} = await import(
+            '../utils/transaction-event-log'
+        )
+        const {daoTreasuryUpdateEventLogs} = await import(
+            '../../test/event/dao-configuration/dao-configuration-events'
+        )
+
+        const mediator = await mediatorAt(hre, args)
+
+        log.info('Setting the treasury of DAO %s', args.daoId.toString())
+
+        const receipt = await submitTransaction(
+            args,
+            mediator,
+            mediator.populateTransaction.setDaoTreasury(
+                args.daoId,
+                args.treasury
+            )
+        )
+
+        if (receipt !== null) {
+            logEventLogs(
+                mediator,
+                receipt,
+                'DaoTreasuryUpdate',
+                daoTreasuryUpdateEventLogs
+            )
+        }
+    })
+
+batchParams(
+    mediatorParams(task('dao:set-metadata', 'Replaces the meta data of a DAO'))
+)
+    // eslint-disable-next-line no-undefined
+    .addParam('daoId', 'ID of the DAO', undefined, uint256)
+    .addParam('metadata', 'Replacement meta data for the DAO')
+    .setAction(async (args: SetMetaDataArgs, hre) => {
+        // Modules that import Hardhat may only be loaded after the config
+        const {requireBondMediator} = await import('../utils/mediator')
+        const {logEventLogs, submitTransaction} = await import(
+            '../utils/transaction-event-log'
+        )
+        const {daoMetaDataUpdateEventLogs} = await import(
+            '../../test/event/dao-configuration/dao-configuration-events'
+        )
+
+        const mediator = await requireBondMediator(hre, args, 'DAO meta data')
+
+        log.info('Setting the meta data of DAO %s', args.daoId.toString())
+
+        const receipt = await submitTransaction(
+            args,
+            mediator,
+            mediator.populateTransaction.setDaoMetaData(
+                args.daoId,
+                args.metadata
+            )
+        )
+
+        if (receipt !== null) {
+            logEventLogs(
+                mediator,
+                receipt,
+                'DaoMetaDataUpdate',
+                daoMetaDataUpdateEventLogs
+            )
+        }
+    })
+
+batchParams(
+    mediatorParams(
+        task(
+            'dao:whitelist',
+            'Adds an ERC20 token to the DAO collateral whitelist'
+        )
+    )
+)
+    // eslint-disable-next-line no-undefined
+    .addParam('daoId', 'ID of the DAO', undefined, uint256)
+    .addParam(
+        'collateral',
+        'ERC20 token contract to whitelist',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        address
+    )
+    .setAction(async (args: CollateralArgs, hre) => {
+        // Modules that import Hardhat may only be loaded after the config
+        const {mediatorAt} = await import('../utils/mediator')
+        const {logEventLogs, submitTransaction} = await import(
+            '../utils/transaction-event-log'
+        )
+        const {addCollateralEventLogs} = await import(
+            '../../test/event/dao-configuration/whitelist-events'
+        )
+
+        const mediator = await mediatorAt(hre, args)
+
+        log.info('Whitelisting collateral for DAO %s', args.daoId.toString())
+
+        const receipt = await submitTransaction(
+            args,
+            mediator,
+            mediator.populateTransaction.whitelistCollateral(
+                args.daoId,
+                args.collateral
+            )
+        )
+
+        if (receipt !== null) {
+            logEventLogs(
+                mediator,
+                receipt,
+                'AddCollateralWhitelist',
+                addCollateralEventLogs
+            )
+        }
+    })
+
+batchParams(
+    mediatorParams(
+        task(
+            'dao:unwhitelist',
+            'Removes an ERC20 token from the DAO collateral whitelist'
+        )
+    )
+)
+    // eslint-disable-next-line no-undefined
+    .addParam('daoId', 'ID of the DAO', undefined, uint256)
+    .addParam(
+        'collateral',
+        'ERC20 token contract to remove from the whitelist',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        address
+    )
+    .setAction(async (args: CollateralArgs, hre) => {
+        // Modules that import Hardhat may only be loaded after the config
+        const {requireBondMediator} = await import('../utils/mediator')
+        const {logEventLogs, submitTransaction} = await import(
+            '../utils/transaction-event-log'
+        )
+        const {removeCollateralEventLogs} = await import(
+            '../../test/event/dao-configuration/whitelist-events'
+        )
+
+        const mediator = await requireBondMediator(
+            hre,
+            args,
+            'removing whitelisted collateral'
+        )
+
+        log.info(
+            'Removing whitelisted collateral for DAO %s',
+            args.daoId.toString()
+        )
+
+        const receipt = await submitTransaction(
+            args,
+            mediator,
+            mediator.populateTransaction.removeWhitelistedCollateral(
+                args.daoId,
+                args.collateral
+            )
+        )
+
+        if (receipt !== null) {
+            logEventLogs(
+                mediator,
+                receipt,
+                'RemoveCollateralWhitelist',
+                removeCollateralEventLogs
+            )
+        }
+    })
+
+batchParams(
+    bondMediatorParams(
+        task(
+            'dao:migrate-treasury',
+            'Replaces the treasury of every Bond of a DAO that differs from the DAO treasury'
+        )
+    )
+)
+    // eslint-disable-next-line no-undefined
+    .addParam('daoId', 'ID of the DAO', undefined, uint256)
+    .addFlag(
+        'dryRun',
+        'Report the Bonds with another treasury, without replacing it'
+    )
+    .setAction(async (args: MigrateTreasuryArgs, hre) => {
+        // Modules that import Hardhat may only be loaded after the config
+        const {bondMediatorAt} = await import('../utils/mediator')
+        const {
+            TREASURY_MIGRATION_COLUMNS,
+            migrateTreasury,
+            treasuryMigrationRows
+        } = await import('../dao/treasury-migration')
+
+        const mediator = await bondMediatorAt(hre, args)
+        const migration = await migrateTreasury(hre, mediator, args.daoId, args)
+
+        log.info(
+            'DAO %s treasury %s: %s of %s Bonds already aligned',
+            migration.daoId,
+            migration.daoTreasury,
+            migration.bonds.filter((bond) => bond.outcome === 'aligned').length,
+            migration.bonds.length
+        )
+        process.stdout.write(
+            `${formatTable(
+                TREASURY_MIGRATION_COLUMNS,
+                treasuryMigrationRows(migration)
+            )}\n`
+        )
+    })
+
+mediatorParams(task('dao:show', 'Prints the configuration of a DAO'))
+    // eslint-disable-next-line no-undefined
+    .addParam('daoId', 'ID of the DAO', undefined, uint256)
+    .setAction(async (args: DaoArgs, hre) => {
+        // Modules that import Hardhat may only be loaded after the config
+        const {mediatorAt} = await import('../utils/mediator')
+
+        const mediator = await mediatorAt(hre, args)
+        const treasury = await mediator.daoTreasury(args.daoId)
+
+        if (treasury === hre.ethers.constants.AddressZero) {
+            throw Error(`No DAO ${args.daoId} with ${args.mediator}`)
+        }
+
+        log.info('DAO: %s', args.daoId.toString())
+        log.info('Treasury: %s', treasury)
+        log.info('Meta data: %s', await mediator.daoMetaData(args.daoId))
+        log.info(
+            'Whitelisted collateral: %s',
+            (await mediator.daoCollateralSymbolWhitelist(args.daoId)).join(', ')
+        )
+    })
+
+task(
+    'dao:report',
+    'Reports every DAO of both mediators, with their Bonds and StakingPools'
+)
+    .addOptionalParam(
+        'format',
+        `Output format, one of: ${REPORT_FORMATS.join(', ')}`,
+        'table'
+    )
+    .addOptionalParam('output', 'File to write the report to, not stdout')
+    .addOptionalParam(
+        'bondMediatorAddress',
+        'BondMediator address, defaulting to that in the deployment manifest',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        address
+    )
+    .addOptionalParam(
+        'stakingPoolMediatorAddress',
+        'StakingPoolMediator address, defaulting to that in the deployment manifest',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        address
+    )
+    .setAction(async (args: ReportArgs, hre) => {
+        // Modules that import Hardhat may only be loaded after the config
+        const {bondMediatorAt, stakingPoolMediatorAt} = await import(
+            '../utils/mediator'
+        )
+        const {
+            DAO_REPORT_COLUMNS,
+            bondMediatorReport,
+            daoReportRows,
+            stakingPoolMediatorReport
+        } = await import('../dao/dao-report')
+
+        if (!REPORT_FORMATS.includes(args.format)) {
+            throw Error(
+                `Unknown format: ${
+                    args.format
+                }, expecting one of: ${REPORT_FORMATS.join(', ')}`
+            )
+        }
+
+        log.info('Reporting on the DAOs of both mediators')
+
+        const reports = [
+            ...(await bondMediatorReport(
+                hre,
+                await bondMediatorAt(hre, {
+                    mediatorAddress: args.bondMediatorAddress
+                })
+            )),
+            ...(await stakingPoolMediatorReport(
+                hre,
+                await stakingPoolMediatorAt(hre, {
+                    mediatorAddress: args.stakingPoolMediatorAddress
+                })
+            ))
+        ]
+
+        let report: string
+        if (args.format === 'json') {
+            report = JSON.stringify(reports, null, 2)
+        } else if (args.format === 'csv') {
+            report = formatCsv(DAO_REPORT_COLUMNS, daoReportRows(reports))
+        } else {
+            report = `${formatTable(
+                [
+                    'Mediator',
+                    'DAO',
+                    'Treasury',
+                    'Meta data',
+                    'Whitelisted collateral',
+                    'Bonds',
+                    'StakingPools'
+                ],
+                reports.map((dao) => [
+                    dao.mediator,
+                    dao.daoId,
+                    dao.treasury,
+                    dao.metaData,
+                    dao.collateralWhitelist.join(' '),
+                    String(dao.bonds.length),
+                    String(dao.stakingPools.length)
+                ])
+            )}\n\n${formatTable(DAO_REPORT_COLUMNS, daoReportRows(reports))}`
+        }
+
+        if (args.output) {
+            writeFileSync(args.output, `${report}\n`)
+            log.info('DAO report written to %s', args.output)
+        } else {
+            process.stdout.write(`${report}\n`)
+        }
+    })
@@ -0,0 +1,34 @@
+import {task} from 'hardhat/config'
+import {address} from './argument-types'
+
+type DeployArgs = {
+    beneficiary: string
+    etherscan: boolean
+    fresh: boolean
+}
+
+task(
+    'deploy',
+    'Deploys the Performance Bonds and Staking Pools, resuming any incomplete deployment'
+)
+    .addParam(
+        'beneficiary',
+        'Receiver of any ERC20 tokens swept',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        address
+    )
+    .addFlag('etherscan', 'Verify the contracts with Etherscan')
+    .addFlag('fresh', 'Discard any previous deployment, starting from scratch')
+    .setAction(async (args: DeployArgs, hre) => {
+        await hre.run('compile')
+
+        // Modules that import Hardhat may only be loaded after the config
+        const {deployAllSteps} = await import('../deploy/deploy-all-steps')
+        const {runDeploySteps} = await import('../utils/deploy-step')
+
+        await runDeploySteps(
+            deployAllSteps(args.beneficiary, args.etherscan),
+            args.fresh
+        )
+    })
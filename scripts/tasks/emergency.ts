@@ -0,0 +1,124 @@
+import {task} from 'hardhat/config'
+import {ConfigurableTaskDefinition} from 'hardhat/types'
+import {address, uint256} from './argument-types'
+import {batchParams} from './batch'
+import {log} from '../../config/logging'
+import {EmergencyReport} from '../emergency/emergency-pause'
+import {BatchArgs} from '../utils/safe-batch'
+import {formatTable} from '../utils/table'
+
+type EmergencyArgs = BatchArgs & {
+    daoId: bigint
+    mediators: boolean
+    bondMediatorAddress?: string
+    stakingPoolMediatorAddress?: string
+}
+
+emergencyParams(
+    task(
+        'emergency:pause-dao',
+        'Pauses every Bond and StakingPool of a DAO, optionally with the mediators'
+    )
+).setAction(async (args: EmergencyArgs, hre) => {
+    // Modules that import Hardhat may only be loaded after the config
+    const {bondMediatorAt, stakingPoolMediatorAt} = await import(
+        '../utils/mediator'
+    )
+    const {pauseDao} = await import('../emergency/emergency-pause')
+
+    const report = await pauseDao(
+        hre,
+        await bondMediatorAt(hre, {mediatorAddress: args.bondMediatorAddress}),
+        await stakingPoolMediatorAt(hre, {
+            mediatorAddress: args.stakingPoolMediatorAddress
+        }),
+        args.daoId,
+        args
+    )
+
+    await writeReport(report)
+})
+
+emergencyParams(
+    task(
+        'emergency:unpause-dao',
+        'Unpauses every Bond and StakingPool of a DAO, optionally with the mediators'
+    )
+).setAction(async (args: EmergencyArgs, hre) => {
+    // Modules that import Hardhat may only be loaded after the config
+    const {bondMediatorAt, stakingPoolMediatorAt} = await import(
+        '../utils/mediator'
+    )
+    const {unpauseDao} = await import('../emergency/emergency-pause')
+
+    const report = await unpauseDao(
+        hre,
+        await bondMediatorAt(hre, {mediatorAddress: args.bondMediatorAddress}),
+        await stakingPoolMediatorAt(hre, {
+            mediatorAddress: args.stakingPoolMediatorAddress
+        }),
+        args.daoId,
+        args
+    )
+
+    await writeReport(report)
+})
+
+function emergencyParams(
+    definition: ConfigurableTaskDefinition
+): ConfigurableTaskDefinition {
+    return batchParams(definition)
+        .addParam(
+            'daoId',
+            'ID of the DAO',
+            // eslint-disable-next-line no-undefined
+            undefined,
+            uint256
+        )
+        .addFlag(
+            'mediators',
+            'Also change the BondMediator and StakingPoolMediator, pausing them last and unpausing them first'
+        )
+        .addOptionalParam(
+            'bondMediatorAddress',
+            'BondMediator address, defaulting to that in the deployment manifest',
+            // eslint-disable-next-line no-undefined
+            undefined,
+            address
+        )
+        .addOptionalParam(
+            'stakingPoolMediatorAddress',
+            'StakingPoolMediator address, defaulting to that in the deployment manifest',
+            // eslint-disable-next-line no-undefined
+            undefined,
+            address
+        )
+}
+
+async function writeReport(report: EmergencyReport): Promise<void> {
+    // Modules that import Hardhat may only be loaded after the config
+    const {EMERGENCY_REPORT_COLUMNS, emergencyReportRows} = await import(
+        '../emergency/emergency-pause'
+    )
+    const outcomes = new Map<string, number>()
+
+    for (const change of report.changes) {
+        outcomes.set(change.outcome, (outcomes.get(change.outcome) ?? 0) + 1)
+    }
+
+    log.info(
+        'DAO %s %s of %s contracts: %s',
+        report.daoId,
+        report.action,
+        report.changes.length,
+        [...outcomes]
+            .map(([outcome, count]) => `${count} ${outcome}`)
+            .join(', ')
+    )
+    process.stdout.write(
+        `${formatTable(
+            EMERGENCY_REPORT_COLUMNS,
+            emergencyReportRows(report)
+        )}\n`
+    )
+}
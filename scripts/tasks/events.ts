@@ -0,0 +1,107 @@
+import {task, types} from 'hardhat/config'
+import {log} from '../../config/logging'
+import {readManifest} from '../utils/deployment-manifest'
+import {sleep} from '../utils/sleep'
+
+type IndexArgs = {
+    database?: string
+    fromBlock?: number
+    toBlock?: number
+    follow: boolean
+    confirmations: number
+    batchSize: number
+    pollInterval: number
+}
+
+task(
+    'events:index',
+    'Indexes the events of the mediators, factories and their Bonds and StakingPools into SQLite'
+)
+    .addOptionalParam(
+        'database',
+        'SQLite database file, defaulting to events-<network>.sqlite'
+    )
+    .addOptionalParam(
+        'fromBlock',
+        'Block to index from, defaulting to the earliest deployment in the manifest',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        types.int
+    )
+    .addOptionalParam(
+        'toBlock',
+        'Block to index up to, defaulting to the latest confirmed block',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        types.int
+    )
+    .addFlag('follow', 'Keep polling for new blocks after catching up')
+    .addOptionalParam(
+        'confirmations',
+        'Blocks behind the head to index up to, limiting exposure to reorgs',
+        6,
+        types.int
+    )
+    .addOptionalParam(
+        'batchSize',
+        'Number of blocks to query for logs at once',
+        2000,
+        types.int
+    )
+    .addOptionalParam(
+        'pollInterval',
+        'Seconds between polls for new blocks when following',
+        15,
+        types.int
+    )
+    .setAction(async (args: IndexArgs, hre) => {
+        // Modules that import Hardhat may only be loaded after the config
+        const {EventDatabase} = await import('../indexer/event-database')
+        const {indexEvents, manifestContracts} = await import(
+            '../indexer/event-indexer'
+        )
+
+        const seeds = manifestContracts(readManifest(hre.network.name))
+
+        if (seeds.length === 0) {
+            throw Error(
+                `No indexable contracts in the ${hre.network.name} manifest`
+            )
+        }
+
+        const fromBlock =
+            args.fromBlock ??
+            Math.min(...seeds.map((seed) => seed.discoveredBlock))
+        const path = args.database ?? `events-${hre.network.name}.sqlite`
+        const db = new EventDatabase(path)
+
+        log.info('Indexing events into %s from block %s', path, fromBlock)
+
+        try {
+            for (;;) {
+                // Seeds are re-added, as a deep reorg may have discarded them
+                seeds.forEach((seed) => db.addContract(seed))
+
+                const indexed = await indexEvents(hre.ethers.provider, db, {
+                    fromBlock,
+                    toBlock: args.toBlock,
+                    confirmations: args.confirmations,
+                    batchSize: args.batchSize
+                })
+
+                if (
+                    !args.follow ||
+                    (typeof args.toBlock === 'number' &&
+                        indexed >= args.toBlock)
+                ) {
+                    break
+                }
+
+                await sleep(args.pollInterval * 1000)
+            }
+        } finally {
+            db.close()
+        }
+
+        log.info('Events indexed into %s', path)
+    })
@@ -0,0 +1,118 @@
+import {task, types} from 'hardhat/config'
+import {utils} from 'ethers'
+import {address} from './argument-types'
+import {log} from '../../config/logging'
+import {formatTable} from '../utils/table'
+import {sleep} from '../utils/sleep'
+
+type KeeperArgs = {
+    state?: string
+    dryRun: boolean
+    maxTransactions: number
+    maxGasCost?: string
+    follow: boolean
+    pollInterval: number
+    bondMediatorAddress?: string
+    stakingPoolMediatorAddress?: string
+}
+
+task(
+    'keeper:run',
+    'Expires the Bonds beyond their expiry and reports the StakingPools with their rewards available'
+)
+    .addOptionalParam(
+        'state',
+        'JSON file of the keeper state, defaulting to keeper-<network>.json'
+    )
+    .addFlag('dryRun', 'Report the Bonds to expire, without expiring them')
+    .addOptionalParam(
+        'maxTransactions',
+        'Most transactions to submit in each run',
+        5,
+        types.int
+    )
+    .addOptionalParam(
+        'maxGasCost',
+        'Most ETH to spend on gas in each run, by default unlimited'
+    )
+    .addFlag('follow', 'Keep running every poll interval')
+    .addOptionalParam(
+        'pollInterval',
+        'Seconds between runs when following',
+        300,
+        types.int
+    )
+    .addOptionalParam(
+        'bondMediatorAddress',
+        'BondMediator address, defaulting to that in the deployment manifest',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        address
+    )
+    .addOptionalParam(
+        'stakingPoolMediatorAddress',
+        'StakingPoolMediator address, defaulting to that in the deployment manifest',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        address
+    )
+    .setAction(async (args: KeeperArgs, hre) => {
+        // Modules that import Hardhat may only be loaded after the config
+        const {bondMediatorAt, stakingPoolMediatorAt} = await import(
+            '../utils/mediator'
+        )
+        const {
+            KEEPER_REPORT_COLUMNS,
+            keeperReportRows,
+            readKeeperState,
+            runKeeper,
+            writeKeeperState
+        } = await import('../keeper/keeper')
+
+        const path = args.state ?? `keeper-${hre.network.name}.json`
+        const bondMediator = await bondMediatorAt(hre, {
+            mediatorAddress: args.bondMediatorAddress
+        })
+        const stakingPoolMediator = await stakingPoolMediatorAt(hre, {
+            mediatorAddress: args.stakingPoolMediatorAddress
+        })
+        const state = readKeeperState(path)
+
+        for (;;) {
+            const report = await runKeeper(
+                hre,
+                bondMediator,
+                stakingPoolMediator,
+                state,
+                {
+                    dryRun: args.dryRun,
+                    maxTransactions: args.maxTransactions,
+                    ...(typeof args.maxGasCost === 'string' && {
+                        maxGasCost: utils.parseEther(args.maxGasCost)
+                    }),
+                    saveState: (changed) => writeKeeperState(path, changed)
+                }
+            )
+
+            log.info(
+                'Keeper run as of %s: %s Bonds to expire, %s StakingPools with rewards available, %s ETH of gas%s',
+                report.asOf,
+                report.expiries.length,
+                report.rewardsAvailable.length,
+                utils.formatEther(report.gasCost),
+                args.dryRun ? ' estimated' : ''
+            )
+            process.stdout.write(
+                `${formatTable(
+                    KEEPER_REPORT_COLUMNS,
+                    keeperReportRows(report)
+                )}\n`
+            )
+
+            if (!args.follow) {
+                break
+            }
+
+            await sleep(args.pollInterval * 1000)
+        }
+    })
@@ -0,0 +1,81 @@
+import {ConfigurableTaskDefinition} from 'hardhat/types'
+import {address} from './argument-types'
+
+export const MEDIATORS = ['BondMediator', 'StakingPoolMediator']
+
+/**
+ * Arguments selecting the mediator a task targets.
+ */
+export type MediatorArgs = {
+    mediator: string
+    mediatorAddress?: string
+}
+
+/**
+ * Adds the optional arguments to select the mediator, defaulting to the
+ * BondMediator found in the deployment manifest.
+ */
+export function mediatorParams(
+    definition: ConfigurableTaskDefinition
+): ConfigurableTaskDefinition {
+    return definition
+        .addOptionalParam(
+            'mediator',
+            `Mediator to target, one of: ${MEDIATORS.join(', ')}`,
+            'BondMediator'
+        )
+        .addOptionalParam(
+            'mediatorAddress',
+            'Mediator address, defaulting to that in the deployment manifest',
+            // eslint-disable-next-line no-undefined
+            undefined,
+            address
+        )
+}
+
+/**
+ * Arguments for tasks that only target the BondMediator.
+ */
+export type BondMediatorArgs = {
+    mediatorAddress?: string
+}
+
+/**
+ * Adds the optional argument for the BondMediator address, defaulting to the
+ * one found in the deployment manifest.
+ */
+export function bondMediatorParams(
+    definition: ConfigurableTaskDefinition
+): ConfigurableTaskDefinition {
+    return mediatorAddressParam(definition, 'BondMediator')
+}
+
+/**
+ * Arguments for tasks that only target the StakingPoolMediator.
+ */
+export type StakingPoolMediatorArgs = {
+    mediatorAddress?: string
+}
+
+/**
+ * Adds the optional argument for the StakingPoolMediator address, defaulting
+ * to the one found in the deployment manifest.
+ */
+export function stakingPoolMediatorParams(
+    definition: ConfigurableTaskDefinition
+): ConfigurableTaskDefinition {
+    return mediatorAddressParam(definition, 'StakingPoolMediator')
+}
+
+function mediatorAddressParam(
+    definition: ConfigurableTaskDefinition,
+    mediator: string
+): ConfigurableTaskDefinition {
+    return definition.addOptionalParam(
+        'mediatorAddress',
+        `${mediator} address, defaulting to that in the deployment manifest`,
+        // eslint-disable-next-line no-undefined
+        undefined,
+        address
+    )
+}
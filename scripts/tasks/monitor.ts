@@ -0,0 +1,109 @@
+import {task, types} from 'hardhat/config'
+import {log} from '../../config/logging'
+import {readManifest} from '../utils/deployment-manifest'
+import {sleep} from '../utils/sleep'
+
+type WatchArgs = {
+    rules: string
+    fromBlock?: number
+    once: boolean
+    confirmations: number
+    batchSize: number
+    pollInterval: number
+}
+
+task(
+    'monitor:watch',
+    'Watches the mediators and their Bonds and StakingPools, alerting on the events matching the rules'
+)
+    .addParam('rules', 'JSON file of the alert rules and sinks')
+    .addOptionalParam(
+        'fromBlock',
+        'Block to alert from, defaulting to the next block',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        types.int
+    )
+    .addFlag('once', 'Stop after catching up, rather than polling')
+    .addOptionalParam(
+        'confirmations',
+        'Blocks behind the head to watch up to, limiting alerts on reorged events',
+        2,
+        types.int
+    )
+    .addOptionalParam(
+        'batchSize',
+        'Number of blocks to query for logs at once',
+        2000,
+        types.int
+    )
+    .addOptionalParam(
+        'pollInterval',
+        'Seconds between polls for new blocks',
+        15,
+        types.int
+    )
+    .setAction(async (args: WatchArgs, hre) => {
+        // Modules that import Hardhat may only be loaded after the config
+        const {manifestContracts} = await import('../indexer/event-indexer')
+        const {readAlertConfig} = await import('../monitor/alert-rules')
+        const {monitorEvents, monitorState} = await import(
+            '../monitor/event-monitor'
+        )
+
+        const config = readAlertConfig(args.rules)
+        const seeds = manifestContracts(readManifest(hre.network.name))
+
+        if (seeds.length === 0) {
+            throw Error(
+                `No monitorable contracts in the ${hre.network.name} manifest`
+            )
+        }
+
+        const alertFromBlock =
+            args.fromBlock ??
+            (await hre.ethers.provider.getBlockNumber()) -
+                Math.max(args.confirmations, 0) +
+                1
+        // Earlier events discover the Bonds and StakingPools to monitor
+        const state = monitorState(
+            seeds,
+            Math.min(...seeds.map((seed) => seed.discoveredBlock)) - 1
+        )
+
+        log.info(
+            'Monitoring %s rules with %s sinks, alerting from block %s',
+            config.rules.length,
+            config.sinks.length,
+            alertFromBlock
+        )
+
+        for (;;) {
+            const progress = await monitorEvents(
+                hre.ethers.provider,
+                state,
+                config,
+                {
+                    alertFromBlock,
+                    confirmations: args.confirmations,
+                    batchSize: args.batchSize
+                }
+            )
+
+            state.lastBlock = progress.lastBlock
+
+            if (progress.alerts > 0) {
+                log.info(
+                    'Dispatched %s alerts up to block %s',
+                    progress.alerts,
+                    progress.lastBlock
+                )
+            }
+
+            if (args.once) {
+                break
+            }
+
+            await sleep(args.pollInterval * 1000)
+        }
+    })
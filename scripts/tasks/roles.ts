@@ -0,0 +1,364 @@
+import {task, types} from 'hardhat/config'
+import {writeFileSync} from 'fs'
+import {ConfigurableTaskDefinition} from 'hardhat/types'
+import {address, uint256} from './argument-types'
+import {batchParams} from './batch'
+import {MediatorArgs, mediatorParams} from './mediator'
+import {log} from '../../config/logging'
+import {ManagedRole, Mediator} from '../roles/role-access'
+import {RoleMember} from '../roles/role-membership'
+import {deployment, readManifest} from '../utils/deployment-manifest'
+import {formatTable} from '../utils/table'
+import {BatchArgs, transactionSender} from '../utils/safe-batch'
+import {
+    DAO_ADMIN,
+    DAO_CREATOR,
+    DAO_MEEPLE,
+    SUPER_USER,
+    SYSTEM_ADMIN
+} from '../../test/event/bond/roles'
+
+type RoleArgs = MediatorArgs &
+    BatchArgs & {
+        role: string
+        account: string
+        daoId?: bigint
+    }
+
+type CheckRolesArgs = MediatorArgs & {
+    role?: string
+    account: string
+    daoId?: bigint
+}
+
+type RoleMembersArgs = MediatorArgs & {
+    fromBlock?: number
+    output?: string
+    verify: boolean
+}
+
+const ROLE_NAMES = [
+    SUPER_USER,
+    SYSTEM_ADMIN,
+    DAO_CREATOR,
+    DAO_ADMIN,
+    DAO_MEEPLE
+]
+    .map((role) => role.name)
+    .join(', ')
+
+batchParams(
+    roleParams(task('roles:grant', 'Grants a role to an account'))
+).setAction(async (args: RoleArgs, hre) => {
+    // Modules that import Hardhat may only be loaded after the config
+    const {mediatorAt} = await import('../utils/mediator')
+    const {isRoleMember, managedRole, roleName} = await import(
+        '../roles/role-access'
+    )
+    const {logEventLogs, submitTransaction} = await import(
+        '../utils/transaction-event-log'
+    )
+    const {grantDaoRoleEventLogs, grantGlobalRoleEventLogs} = await import(
+        '../../test/event/role-membership/role-membership-events'
+    )
+
+    const mediator = await mediatorAt(hre, args)
+    const managed = managedRole(args.role)
+    const daoId = roleDaoId(managed, args.daoId)
+    const role = describeRole(managed, daoId)
+
+    await requireAuthority(args, mediator, managed, daoId)
+    if (await isRoleMember(mediator, managed, daoId, args.account)) {
+        throw Error(`${args.account} already has ${role}`)
+    }
+
+    log.info('Granting %s to %s', role, args.account)
+
+    const receipt = await submitTransaction(
+        args,
+        mediator,
+        managed.grant(mediator, daoId, args.account)
+    )
+
+    if (receipt !== null) {
+        const events = managed.daoScoped
+            ? logEventLogs(
+                  mediator,
+                  receipt,
+                  'GrantDaoRole',
+                  grantDaoRoleEventLogs
+              )
+            : logEventLogs(
+                  mediator,
+                  receipt,
+                  'GrantGlobalRole',
+                  grantGlobalRoleEventLogs
+              )
+
+        for (const event of events) {
+            log.info(
+                '%s granted to %s by %s',
+                roleName(event.role),
+                event.account,
+                event.instigator
+            )
+        }
+    }
+})
+
+batchParams(
+    roleParams(task('roles:revoke', 'Revokes a role from an account'))
+).setAction(async (args: RoleArgs, hre) => {
+    // Modules that import Hardhat may only be loaded after the config
+    const {mediatorAt} = await import('../utils/mediator')
+    const {isRoleMember, managedRole, roleName} = await import(
+        '../roles/role-access'
+    )
+    const {logEventLogs, submitTransaction} = await import(
+        '../utils/transaction-event-log'
+    )
+    const {revokeDaoRoleEventLogs, revokeGlobalRoleEventLogs} = await import(
+        '../../test/event/role-membership/role-membership-events'
+    )
+
+    const mediator = await mediatorAt(hre, args)
+    const managed = managedRole(args.role)
+    const daoId = roleDaoId(managed, args.daoId)
+    const role = describeRole(managed, daoId)
+
+    await requireAuthority(args, mediator, managed, daoId)
+    if (!(await isRoleMember(mediator, managed, daoId, args.account))) {
+        throw Error(`${args.account} does not have ${role}`)
+    }
+
+    log.info('Revoking %s from %s', role, args.account)
+
+    const receipt = await submitTransaction(
+        args,
+        mediator,
+        managed.revoke(mediator, daoId, args.account)
+    )
+
+    if (receipt !== null) {
+        const events = managed.daoScoped
+            ? logEventLogs(
+                  mediator,
+                  receipt,
+                  'RevokeDaoRole',
+                  revokeDaoRoleEventLogs
+              )
+            : logEventLogs(
+                  mediator,
+                  receipt,
+                  'RevokeGlobalRole',
+                  revokeGlobalRoleEventLogs
+              )
+
+        for (const event of events) {
+            log.info(
+                '%s revoked from %s by %s',
+                roleName(event.role),
+                event.account,
+                event.instigator
+            )
+        }
+    }
+})
+
+mediatorParams(
+    task(
+        'roles:check',
+        'Prints the roles of an account, the DAO roles only with a DAO ID'
+    )
+)
+    .addOptionalParam('role', `Role to check, one of: ${ROLE_NAMES}`)
+    .addParam(
+        'account',
+        'Account to check the roles of',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        address
+    )
+    .addOptionalParam(
+        'daoId',
+        'ID of the DAO, for the DAO roles',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        uint256
+    )
+    .setAction(async (args: CheckRolesArgs, hre) => {
+        // Modules that import Hardhat may only be loaded after the config
+        const {mediatorAt} = await import('../utils/mediator')
+        const {ROLES, isRoleMember, managedRole} = await import(
+            '../roles/role-access'
+        )
+
+        const mediator = await mediatorAt(hre, args)
+        const roles = args.role
+            ? [managedRole(args.role)]
+            : ROLES.filter(
+                  (managed) =>
+                      !managed.daoScoped || typeof args.daoId === 'bigint'
+              )
+
+        for (const managed of roles) {
+            const daoId = roleDaoId(managed, args.daoId)
+
+            log.info(
+                '%s: member %s, access %s',
+                describeRole(managed, daoId),
+                await isRoleMember(mediator, managed, daoId, args.account),
+                await managed.hasAccess(mediator, daoId, args.account)
+            )
+        }
+    })
+
+mediatorParams(
+    task(
+        'roles:members',
+        'Prints the current role members, rebuilt from the grant and revoke events'
+    )
+)
+    .addOptionalParam(
+        'fromBlock',
+        'Block to scan from, defaulting to the deployment block in the manifest',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        types.int
+    )
+    .addOptionalParam('output', 'File to write the membership to as JSON')
+    .addFlag('verify', 'Cross-check each member against the contract state')
+    .setAction(async (args: RoleMembersArgs, hre) => {
+        // Modules that import Hardhat may only be loaded after the config
+        const {mediatorAt} = await import('../utils/mediator')
+        const {roleAccessControlAt, roleMembership, verifyRoleMembership} =
+            await import('../roles/role-membership')
+
+        const mediator = await mediatorAt(hre, args)
+        const roles = await roleAccessControlAt(hre, mediator.address)
+        const fromBlock =
+            args.fromBlock ??
+            (args.mediatorAddress
+                ? 0
+                : deployment(readManifest(hre.network.name), args.mediator)
+                      .blockNumber)
+
+        log.info(
+            'Scanning role events of %s from block %s',
+            mediator.address,
+            fromBlock
+        )
+
+        const snapshot = await roleMembership(roles, fromBlock)
+
+        if (args.verify) {
+            const mismatches = await verifyRoleMembership(roles, snapshot)
+
+            if (mismatches > 0) {
+                log.warn(
+                    '%s members from the events do not hold their role on-chain',
+                    mismatches
+                )
+            }
+        }
+
+        const rows = [
+            ...snapshot.global.map((member) => memberRow('global', member)),
+            ...Object.entries(snapshot.daos).flatMap(([daoId, members]) =>
+                members.map((member) => memberRow(`DAO ${daoId}`, member))
+            )
+        ]
+        process.stdout.write(
+            `${formatTable(
+                ['Scope', 'Role', 'Account', 'Granted by', 'Block', 'On-chain'],
+                rows
+            )}\n`
+        )
+
+        if (args.output) {
+            writeFileSync(args.output, `${JSON.stringify(snapshot, null, 2)}\n`)
+            log.info('Role membership written to %s', args.output)
+        }
+    })
+
+function memberRow(scope: string, member: RoleMember): string[] {
+    return [
+        scope,
+        member.role,
+        member.account,
+        member.instigator,
+        String(member.blockNumber),
+        typeof member.onChain === 'boolean' ? String(member.onChain) : '-'
+    ]
+}
+
+function roleParams(
+    definition: ConfigurableTaskDefinition
+): ConfigurableTaskDefinition {
+    return mediatorParams(definition)
+        .addParam('role', `Role to administer, one of: ${ROLE_NAMES}`)
+        .addParam(
+            'account',
+            'Account the role applies to',
+            // eslint-disable-next-line no-undefined
+            undefined,
+            address
+        )
+        .addOptionalParam(
+            'daoId',
+            'ID of the DAO, required for the DAO roles',
+            // eslint-disable-next-line no-undefined
+            undefined,
+            uint256
+        )
+}
+
+/**
+ * DAO roles require a DAO ID, while global roles ignore any given.
+ */
+function roleDaoId(managed: ManagedRole, daoId?: bigint): bigint {
+    if (managed.daoScoped) {
+        if (typeof daoId !== 'bigint') {
+            throw Error(`${managed.role.name} is a DAO role, needing a DAO ID`)
+        }
+
+        return daoId
+    }
+
+    if (typeof daoId === 'bigint') {
+        log.warn(
+            'Ignoring the DAO ID, as %s is a global role',
+            managed.role.name
+        )
+    }
+
+    return 0n
+}
+
+/**
+ * Checks the sender may administer the role, as the transaction would
+ * otherwise revert.
+ */
+async function requireAuthority(
+    args: BatchArgs,
+    mediator: Mediator,
+    managed: ManagedRole,
+    daoId: bigint
+): Promise<void> {
+    const sender = await transactionSender(args, mediator.signer)
+
+    if (!(await managed.hasAuthority(mediator, daoId, sender))) {
+        throw Error(
+            `${sender} lacks ${describeRole(
+                {...managed, role: managed.authority},
+                daoId
+            )} access, needed to administer ${managed.role.name}`
+        )
+    }
+}
+
+function describeRole(managed: ManagedRole, daoId: bigint): string {
+    return managed.daoScoped
+        ? `${managed.role.name} in DAO ${daoId}`
+        : managed.role.name
+}
@@ -0,0 +1,721 @@
+import {task, types} from 'hardhat/config'
+import {ConfigurableTaskDefinition} from 'hardhat/types'
+import {BigNumber} from 'ethers'
+import {address, timestamp, uint256} from './argument-types'
+import {batchParams} from './batch'
+import {StakingPoolMediatorArgs, stakingPoolMediatorParams} from './mediator'
+import {log} from '../../config/logging'
+import {StakingPoolSelection} from '../staking/managed-staking-pool'
+import {deployment, readManifest} from '../utils/deployment-manifest'
+import {confirm} from '../utils/prompt'
+import {BatchArgs, isBatching, transactionSender} from '../utils/safe-batch'
+import {formatTable} from '../utils/table'
+
+type CreateStakingPoolArgs = StakingPoolMediatorArgs &
+    BatchArgs & {
+        daoId: bigint
+        spec: string
+    }
+
+type ManagedStakingPoolArgs = StakingPoolMediatorArgs & StakingPoolSelection
+
+type AdminStakingPoolArgs = ManagedStakingPoolArgs & BatchArgs
+
+type InitializeRewardsArgs = AdminStakingPoolArgs & {
+    benefactor?: string
+}
+
+type EmergencyModeArgs = AdminStakingPoolArgs & {
+    yes: boolean
+}
+
+type SetRewardsAvailableArgs = AdminStakingPoolArgs & {
+    timestamp: number
+}
+
+type SweepArgs = AdminStakingPoolArgs & {
+    tokens: string
+    amount: string
+}
+
+type SetBeneficiaryArgs = AdminStakingPoolArgs & {
+    beneficiary: string
+}
+
+type RewardsProjectionArgs = ManagedStakingPoolArgs & {
+    fromBlock?: number
+    deposit?: string
+    depositor?: string
+}
+
+batchParams(
+    stakingPoolMediatorParams(
+        task(
+            'staking:create',
+            'Creates a managed StakingPool from a specification file'
+        )
+    )
+)
+    .addParam(
+        'daoId',
+        'ID of the DAO to create the StakingPool in',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        uint256
+    )
+    .addParam(
+        'spec',
+        'JSON file with the StakingPool configuration',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        types.inputFile
+    )
+    .setAction(async (args: CreateStakingPoolArgs, hre) => {
+        // Modules that import Hardhat may only be loaded after the config
+        const {stakingPoolCreatorAt, stakingPoolMediatorAt} = await import(
+            '../utils/mediator'
+        )
+        const {readStakingPoolSpec} = await import(
+            '../staking/staking-pool-spec'
+        )
+        const {logEventLogs, submitTransaction} = await import(
+            '../utils/transaction-event-log'
+        )
+        const {addStakingPoolEventLogs} = await import(
+            '../../test/event/staking/staking-curator-events'
+        )
+        const {stakingPoolCreatedEventLogs} = await import(
+            '../../test/event/staking/staking-factory-events'
+        )
+
+        const mediator = await stakingPoolMediatorAt(hre, args)
+        const stakingPool = await readStakingPoolSpec(
+            hre,
+            args.spec,
+            args.daoId,
+            mediator,
+            isBatching(args)
+        )
+
+        log.info(
+            'Creating a new managed StakingPool in DAO %s',
+            args.daoId.toString()
+        )
+
+        const receipt = await submitTransaction(
+            args,
+            mediator,
+            mediator.populateTransaction.createManagedStakingPool(
+                stakingPool.config,
+                stakingPool.launchPaused,
+                stakingPool.rewardsAvailableTimestamp
+            )
+        )
+
+        if (receipt !== null) {
+            logEventLogs(
+                await stakingPoolCreatorAt(hre, mediator),
+                receipt,
+                'StakingPoolCreated',
+                stakingPoolCreatedEventLogs
+            )
+            logEventLogs(
+                mediator,
+                receipt,
+                'AddStakingPool',
+                addStakingPoolEventLogs
+            )
+        }
+    })
+
+batchParams(
+    managedStakingPoolParams(task('staking:pause', 'Pauses a StakingPool'))
+).setAction(async (args: AdminStakingPoolArgs, hre) => {
+    // Modules that import Hardhat may only be loaded after the config
+    const {stakingPoolMediatorAt} = await import('../utils/mediator')
+    const {managedStakingPoolAt} = await import(
+        '../staking/managed-staking-pool'
+    )
+    const {logEventLogs, submitTransaction} = await import(
+        '../utils/transaction-event-log'
+    )
+    const {pausedEventLogs} = await import(
+        '../../test/event/pausable/pausable-events'
+    )
+
+    const mediator = await stakingPoolMediatorAt(hre, args)
+    const stakingPool = await managedStakingPoolAt(hre, mediator, args)
+
+    log.info('Pausing StakingPool %s', stakingPool.address)
+
+    const receipt = await submitTransaction(
+        args,
+        mediator,
+        mediator.populateTransaction.stakingPoolPause(
+            args.daoId,
+            stakingPool.address
+        )
+    )
+
+    if (receipt !== null) {
+        logEventLogs(stakingPool, receipt, 'Paused', pausedEventLogs)
+    }
+})
+
+batchParams(
+    managedStakingPoolParams(task('staking:unpause', 'Unpauses a StakingPool'))
+).setAction(async (args: AdminStakingPoolArgs, hre) => {
+    // Modules that import Hardhat may only be loaded after the config
+    const {stakingPoolMediatorAt} = await import('../utils/mediator')
+    const {managedStakingPoolAt} = await import(
+        '../staking/managed-staking-pool'
+    )
+    const {logEventLogs, submitTransaction} = await import(
+        '../utils/transaction-event-log'
+    )
+    const {unpausedEventLogs} = await import(
+        '../../test/event/pausable/pausable-events'
+    )
+
+    const mediator = await stakingPoolMediatorAt(hre, args)
+    const stakingPool = await managedStakingPoolAt(hre, mediator, args)
+
+    log.info('Unpausing StakingPool %s', stakingPool.address)
+
+    const receipt = await submitTransaction(
+        args,
+        mediator,
+        mediator.populateTransaction.stakingPoolUnpause(
+            args.daoId,
+            stakingPool.address
+        )
+    )
+
+    if (receipt !== null) {
+        logEventLogs(stakingPool, receipt, 'Unpaused', unpausedEventLogs)
+    }
+})
+
+batchParams(
+    managedStakingPoolParams(
+        task(
+            'staking:initialize-rewards',
+            'Transfers the configured max amount of each reward token into a StakingPool'
+        )
+    )
+)
+    .addOptionalParam(
+        'benefactor',
+        'Account providing the reward tokens, defaulting to the sender',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        address
+    )
+    .setAction(async (args: InitializeRewardsArgs, hre) => {
+        // Modules that import Hardhat may only be loaded after the config
+        const {stakingPoolMediatorAt} = await import('../utils/mediator')
+        const {managedStakingPoolAt} = await import(
+            '../staking/managed-staking-pool'
+        )
+        const {ensureAllowance, erc20At} = await import('../utils/erc20')
+        const {logEventLogs, submitTransaction} = await import(
+            '../utils/transaction-event-log'
+        )
+        const {initializeRewardsEventLogs} = await import(
+            '../../test/event/staking/staking-events'
+        )
+
+        const mediator = await stakingPoolMediatorAt(hre, args)
+        const stakingPool = await managedStakingPoolAt(hre, mediator, args)
+        const sender = await transactionSender(args, mediator.signer)
+        const benefactor = args.benefactor ?? sender
+        const rewards = (await stakingPool.stakingPoolData()).rewardTokens
+
+        for (const reward of rewards) {
+            const tokens = await erc20At(hre, reward.tokens)
+
+            if (benefactor.toLowerCase() === sender.toLowerCase()) {
+                await ensureAllowance(
+                    tokens,
+                    stakingPool.address,
+                    reward.maxAmount,
+                    args
+                )
+            } else if (
+                (await tokens.allowance(benefactor, stakingPool.address)).lt(
+                    reward.maxAmount
+                )
+            ) {
+                throw Error(
+                    `Benefactor ${benefactor} has not approved the StakingPool for ${reward.tokens}`
+                )
+            }
+        }
+
+        log.info(
+            'Initializing the reward tokens of StakingPool %s',
+            stakingPool.address
+        )
+
+        const receipt = await submitTransaction(
+            args,
+            mediator,
+            mediator.populateTransaction.stakingPoolInitializeRewardTokens(
+                args.daoId,
+                stakingPool.address,
+                benefactor,
+                rewards
+            )
+        )
+
+        if (receipt !== null) {
+            logEventLogs(
+                stakingPool,
+                receipt,
+                'InitializeRewards',
+                initializeRewardsEventLogs
+            )
+        }
+    })
+
+batchParams(
+    managedStakingPoolParams(
+        task(
+            'staking:enable-emergency-mode',
+            'Enables emergency mode, letting users withdraw their stake without rewards'
+        )
+    )
+)
+    .addFlag('yes', 'Skip the confirmation prompt')
+    .setAction(async (args: EmergencyModeArgs, hre) => {
+        // Modules that import Hardhat may only be loaded after the config
+        const {stakingPoolMediatorAt} = await import('../utils/mediator')
+        const {managedStakingPoolAt} = await import(
+            '../staking/managed-staking-pool'
+        )
+        const {logEventLogs, submitTransaction} = await import(
+            '../utils/transaction-event-log'
+        )
+        const {emergencyModeEventLogs} = await import(
+            '../../test/event/staking/staking-events'
+        )
+
+        const mediator = await stakingPoolMediatorAt(hre, args)
+        const stakingPool = await managedStakingPoolAt(hre, mediator, args)
+
+        if (await stakingPool.emergencyMode()) {
+            throw Error(
+                `StakingPool ${stakingPool.address} is already in emergency mode`
+            )
+        }
+        if (
+            !args.yes &&
+            !(await confirm(
+                `Enabling emergency mode on StakingPool ${stakingPool.address} cannot be undone, continue?`
+            ))
+        ) {
+            log.info('Emergency mode not enabled')
+            return
+        }
+
+        log.info(
+            'Enabling emergency mode on StakingPool %s',
+            stakingPool.address
+        )
+
+        const receipt = await submitTransaction(
+            args,
+            mediator,
+            mediator.populateTransaction.stakingPoolEnableEmergencyMode(
+                args.daoId,
+                stakingPool.address
+            )
+        )
+
+        if (receipt !== null) {
+            logEventLogs(
+                stakingPool,
+                receipt,
+                'EmergencyMode',
+                emergencyModeEventLogs
+            )
+        }
+    })
+
+batchParams(
+    managedStakingPoolParams(
+        task(
+            'staking:emergency-reward-sweep',
+            'Sweeps the reward tokens of a StakingPool in emergency mode to its treasury'
+        )
+    )
+).setAction(async (args: AdminStakingPoolArgs, hre) => {
+    // Modules that import Hardhat may only be loaded after the config
+    const {stakingPoolMediatorAt} = await import('../utils/mediator')
+    const {managedStakingPoolAt} = await import(
+        '../staking/managed-staking-pool'
+    )
+    const {erc20At} = await import('../utils/erc20')
+    const {logOptionalEventLogs, submitTransaction} = await import(
+        '../utils/transaction-event-log'
+    )
+    const {erc20TransferEventLogs} = await import(
+        '../../test/event/erc20/erc20-events'
+    )
+
+    const mediator = await stakingPoolMediatorAt(hre, args)
+    const stakingPool = await managedStakingPoolAt(hre, mediator, args)
+
+    if (!(await stakingPool.emergencyMode())) {
+        throw Error(
+            `StakingPool ${stakingPool.address} is not in emergency mode`
+        )
+    }
+
+    log.info('Sweeping the rewards of StakingPool %s', stakingPool.address)
+
+    const receipt = await submitTransaction(
+        args,
+        mediator,
+        mediator.populateTransaction.stakingPoolAdminEmergencyRewardSweep(
+            args.daoId,
+            stakingPool.address
+        )
+    )
+
+    if (receipt !== null) {
+        for (const reward of (await stakingPool.stakingPoolData())
+            .rewardTokens) {
+            logOptionalEventLogs(
+                await erc20At(hre, reward.tokens),
+                receipt,
+                'Transfer',
+                erc20TransferEventLogs
+            )
+        }
+    }
+})
+
+batchParams(
+    managedStakingPoolParams(
+        task(
+            'staking:set-rewards-available',
+            'Replaces when the rewards of a StakingPool become available'
+        )
+    )
+)
+    .addParam(
+        'timestamp',
+        'Seconds since epoch or ISO 8601 date, after the epoch ends',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        timestamp
+    )
+    .setAction(async (args: SetRewardsAvailableArgs, hre) => {
+        // Modules that import Hardhat may only be loaded after the config
+        const {stakingPoolMediatorAt} = await import('../utils/mediator')
+        const {managedStakingPoolAt} = await import(
+            '../staking/managed-staking-pool'
+        )
+        const {logEventLogs, submitTransaction} = await import(
+            '../utils/transaction-event-log'
+        )
+        const {rewardsAvailableTimestampEventLogs} = await import(
+            '../../test/event/staking/staking-events'
+        )
+
+        const mediator = await stakingPoolMediatorAt(hre, args)
+        const stakingPool = await managedStakingPoolAt(hre, mediator, args)
+
+        log.info(
+            'Setting the rewards available timestamp of StakingPool %s',
+            stakingPool.address
+        )
+
+        const receipt = await submitTransaction(
+            args,
+            mediator,
+            mediator.populateTransaction.stakingPoolSetRewardsAvailableTimestamp(
+                args.daoId,
+                stakingPool.address,
+                args.timestamp
+            )
+        )
+
+        if (receipt !== null) {
+            logEventLogs(
+                stakingPool,
+                receipt,
+                'RewardsAvailableTimestamp',
+                rewardsAvailableTimestampEventLogs
+            )
+        }
+    })
+
+batchParams(
+    managedStakingPoolParams(
+        task(
+            'staking:sweep',
+            'Sweeps ERC20 tokens from a StakingPool to the token sweep beneficiary'
+        )
+    )
+)
+    .addParam(
+        'tokens',
+        'ERC20 token contract to sweep',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        address
+    )
+    .addParam('amount', 'Amount of tokens to sweep, in whole tokens')
+    .setAction(async (args: SweepArgs, hre) => {
+        // Modules that import Hardhat may only be loaded after the config
+        const {stakingPoolMediatorAt} = await import('../utils/mediator')
+        const {managedStakingPoolAt} = await import(
+            '../staking/managed-staking-pool'
+        )
+        const {erc20At, tokenAmount} = await import('../utils/erc20')
+        const {logEventLogs, submitTransaction} = await import(
+            '../utils/transaction-event-log'
+        )
+        const {erc20SweepEventLogs} = await import(
+            '../../test/event/sweep/sweep-erc20-events'
+        )
+
+        const mediator = await stakingPoolMediatorAt(hre, args)
+        const stakingPool = await managedStakingPoolAt(hre, mediator, args)
+        const tokens = await erc20At(hre, args.tokens)
+
+        log.info(
+            'Sweeping %s tokens from StakingPool %s',
+            args.amount,
+            stakingPool.address
+        )
+
+        const receipt = await submitTransaction(
+            args,
+            mediator,
+            mediator.populateTransaction.stakingPoolSweepERC20Tokens(
+                args.daoId,
+                stakingPool.address,
+                args.tokens,
+                await tokenAmount(tokens, args.amount)
+            )
+        )
+
+        if (receipt !== null) {
+            logEventLogs(
+                stakingPool,
+                receipt,
+                'ERC20Sweep',
+                erc20SweepEventLogs
+            )
+        }
+    })
+
+batchParams(
+    managedStakingPoolParams(
+        task(
+            'staking:set-beneficiary',
+            'Replaces the token sweep beneficiary of a StakingPool'
+        )
+    )
+)
+    .addParam(
+        'beneficiary',
+        'Replacement token sweep beneficiary',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        address
+    )
+    .setAction(async (args: SetBeneficiaryArgs, hre) => {
+        // Modules that import Hardhat may only be loaded after the config
+        const {stakingPoolMediatorAt} = await import('../utils/mediator')
+        const {managedStakingPoolAt} = await import(
+            '../staking/managed-staking-pool'
+        )
+        const {logEventLogs, submitTransaction} = await import(
+            '../utils/transaction-event-log'
+        )
+        const {beneficiaryUpdateEventLogs} = await import(
+            '../../test/event/sweep/token-sweeo-events'
+        )
+
+        const mediator = await stakingPoolMediatorAt(hre, args)
+        const stakingPool = await managedStakingPoolAt(hre, mediator, args)
+
+        log.info(
+            'Setting the token sweep beneficiary of StakingPool %s',
+            stakingPool.address
+        )
+
+        const receipt = await submitTransaction(
+            args,
+            mediator,
+            mediator.populateTransaction.stakingPoolUpdateTokenSweepBeneficiary(
+                args.daoId,
+                stakingPool.address,
+                args.beneficiary
+            )
+        )
+
+        if (receipt !== null) {
+            logEventLogs(
+                stakingPool,
+                receipt,
+                'BeneficiaryUpdate',
+                beneficiaryUpdateEventLogs
+            )
+        }
+    })
+
+managedStakingPoolParams(
+    task(
+        'staking:rewards-projection',
+        'Projects the rewards of every depositor of a StakingPool, from its Deposit events'
+    )
+)
+    .addOptionalParam(
+        'fromBlock',
+        'Block to scan from, defaulting to the deployment block in the manifest',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        types.int
+    )
+    .addOptionalParam(
+        'deposit',
+        'Hypothetical further deposit to include, in whole stake tokens'
+    )
+    .addOptionalParam(
+        'depositor',
+        'Depositor of the hypothetical deposit, defaulting to the signer',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        address
+    )
+    .setAction(async (args: RewardsProjectionArgs, hre) => {
+        // Modules that import Hardhat may only be loaded after the config
+        const {stakingPoolMediatorAt} = await import('../utils/mediator')
+        const {managedStakingPoolAt} = await import(
+            '../staking/managed-staking-pool'
+        )
+        const {erc20At, tokenAmount, tokenAmounts} = await import(
+            '../utils/erc20'
+        )
+        const {depositorRewards, reconstructRewardsState, simulateDeposit} =
+            await import('../staking/rewards-calculator')
+
+        const mediator = await stakingPoolMediatorAt(hre, args)
+        const stakingPool = await managedStakingPoolAt(hre, mediator, args)
+        const config = await stakingPool.stakingPoolData()
+        const stakeToken = await erc20At(hre, config.stakeToken)
+        const tokens = tokenAmounts(hre)
+        const fromBlock =
+            args.fromBlock ??
+            (args.mediatorAddress
+                ? 0
+                : deployment(
+                      readManifest(hre.network.name),
+                      'StakingPoolMediator'
+                  ).blockNumber)
+
+        log.info(
+            'Replaying the deposits of StakingPool %s from block %s',
+            stakingPool.address,
+            fromBlock
+        )
+
+        let state = await reconstructRewardsState(stakingPool, fromBlock)
+
+        if (typeof args.deposit === 'string') {
+            const depositor =
+                args.depositor ?? (await stakingPool.signer.getAddress())
+
+            log.info(
+                'Including a hypothetical deposit of %s %s by %s',
+                args.deposit,
+                await stakeToken.symbol(),
+                depositor
+            )
+
+            state = simulateDeposit(
+                state,
+                depositor,
+                (await tokenAmount(stakeToken, args.deposit)).toBigInt()
+            )
+        }
+
+        const rewardSymbols: string[] = []
+        for (const reward of state.rewardTokens) {
+            rewardSymbols.push(
+                (await tokens(reward.tokens, BigNumber.from(0))).symbol
+            )
+        }
+
+        const rows: string[][] = []
+        for (const depositor of depositorRewards(state)) {
+            const row = [
+                depositor.depositor,
+                (
+                    await tokens(
+                        config.stakeToken,
+                        BigNumber.from(depositor.depositAmount)
+                    )
+                ).amount
+            ]
+
+            for (let i = 0; i < depositor.rewards.length; i++) {
+                row.push(
+                    (
+                        await tokens(
+                            state.rewardTokens[i].tokens,
+                            BigNumber.from(depositor.rewards[i])
+                        )
+                    ).amount
+                )
+            }
+            rows.push(row)
+        }
+
+        process.stdout.write(
+            `${formatTable(
+                [
+                    'Depositor',
+                    `Deposit (${await stakeToken.symbol()})`,
+                    ...rewardSymbols
+                ],
+                rows
+            )}\n`
+        )
+    })
+
+/**
+ * Adds the arguments selecting a StakingPool managed by a DAO, by either the
+ * address of the StakingPool or its index within the DAO.
+ */
+function managedStakingPoolParams(
+    definition: ConfigurableTaskDefinition
+): ConfigurableTaskDefinition {
+    return stakingPoolMediatorParams(definition)
+        .addParam(
+            'daoId',
+            'ID of the DAO managing the StakingPool',
+            // eslint-disable-next-line no-undefined
+            undefined,
+            uint256
+        )
+        .addOptionalParam(
+            'stakingPool',
+            'Address of the StakingPool',
+            // eslint-disable-next-line no-undefined
+            undefined,
+            address
+        )
+        .addOptionalParam(
+            'index',
+            'Index of the StakingPool within the DAO',
+            // eslint-disable-next-line no-undefined
+            undefined,
+            uint256
+        )
+}
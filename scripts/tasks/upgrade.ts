@@ -0,0 +1,53 @@
+import {task} from 'hardhat/config'
+import {address} from './argument-types'
+import {MEDIATORS} from './mediator'
+import {deployedAddress} from '../utils/deployment-manifest'
+
+type UpgradeArgs = {
+    contract: string
+    proxy?: string
+}
+
+task(
+    'upgrade',
+    'Upgrades the implementation behind a mediator proxy, validating storage layout compatibility'
+)
+    .addParam(
+        'contract',
+        `Contract to upgrade, one of: ${MEDIATORS.join(', ')}`
+    )
+    .addOptionalParam(
+        'proxy',
+        'Proxy address, defaulting to that in the deployment manifest',
+        // eslint-disable-next-line no-undefined
+        undefined,
+        address
+    )
+    .setAction(async (args: UpgradeArgs, hre) => {
+        if (!MEDIATORS.includes(args.contract)) {
+            throw Error(`Contract ${args.contract} is not upgradable`)
+        }
+
+        const proxy =
+            args.proxy ?? deployedAddress(hre.network.name, args.contract)
+
+        await hre.run('compile')
+
+        // Modules that import Hardhat may only be loaded after the config
+        const {prepareContractUpgrade, upgradeContractWithProxy} = await import(
+            '../utils/contract'
+        )
+        const {checkDeployedVersionAgainstReleaseTag} = await import(
+            '../versioning/check'
+        )
+
+        const implementation = await prepareContractUpgrade(
+            args.contract,
+            proxy
+        )
+
+        // Check the version before the proxy is pointed at the implementation
+        await checkDeployedVersionAgainstReleaseTag(implementation)
+
+        await upgradeContractWithProxy(args.contract, proxy)
+    })
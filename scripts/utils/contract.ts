@@ -1,9 +1,13 @@
-import {ethers, run, upgrades} from 'hardhat'
+import {artifacts, ethers, network, run, upgrades} from 'hardhat'
+import {TransactionResponse} from '@ethersproject/abstract-provider'
+import {execSync} from 'child_process'
 import {log} from '../../config/logging'
+import {recordDeployment, recordUpgrade} from './deployment-manifest'
 
 export interface DeployableContract<T> {
     deployed(): Promise<T>
     address: string
+    deployTransaction: TransactionResponse
 }
 
 export async function deployContract<T extends DeployableContract<T>>(
@@ -15,7 +19,10 @@ export async function deployContract<T extends DeployableContract<T>>(
 
     log.info('%s deployed to: %s', name, contract.address)
 
-    return contract.deployed()
+    const deployed = await contract.deployed()
+    await recordContractDeployment(name, contract, args)
+
+    return deployed
 }
 
 export async function deployContractWithProxy<T extends DeployableContract<T>>(
@@ -31,17 +38,80 @@ export async function deployContractWithProxy<T extends DeployableContract<T>>(
 
     log.info('%s deployed to: %s', name, contract.address)
 
-    return contract.deployed()
+    const deployed = await contract.deployed()
+    await recordContractDeployment(
+        name,
+        contract,
+        args,
+        await upgrades.erc1967.getImplementationAddress(contract.address)
+    )
+
+    return deployed
 }
 
-export async function verifyContract<T extends DeployableContract<T>>(
-    contract: T,
+/**
+ * Validates the storage layout of the contract is compatible with the
+ * implementation currently behind the proxy, then deploys the contract as the
+ * next implementation (without performing the upgrade).
+ *
+ * @return address of the deployed implementation.
+ */
+export async function prepareContractUpgrade(
+    name: string,
+    proxy: string
+): Promise<string> {
+    const factory = await ethers.getContractFactory(name)
+    const implementation = await upgrades.prepareUpgrade(proxy, factory, {
+        kind: 'uups'
+    })
+
+    log.info('%s implementation deployed to: %s', name, implementation)
+
+    return implementation
+}
+
+export async function upgradeContractWithProxy<T extends DeployableContract<T>>(
+    name: string,
+    proxy: string
+): Promise<T> {
+    const factory = await ethers.getContractFactory(name)
+    const previousImplementation =
+        await upgrades.erc1967.getImplementationAddress(proxy)
+    const contract = <T>(
+        (<unknown>await upgrades.upgradeProxy(proxy, factory, {kind: 'uups'}))
+    )
+
+    const upgraded = await contract.deployed()
+    const receipt = await contract.deployTransaction.wait()
+    const implementation = await upgrades.erc1967.getImplementationAddress(
+        proxy
+    )
+
+    const chainId = (await ethers.provider.getNetwork()).chainId
+
+    log.info('%s upgraded to implementation: %s', name, implementation)
+
+    recordUpgrade(network.name, chainId, name, proxy, {
+        previousImplementation,
+        implementation,
+        transactionHash: receipt.transactionHash,
+        blockNumber: receipt.blockNumber,
+        compilerVersion: await compilerVersion(name),
+        gitCommit: gitCommit(),
+        upgradedAt: new Date().toISOString()
+    })
+
+    return upgraded
+}
+
+export async function verifyContract(
+    address: string,
     ...args: Array<unknown>
 ): Promise<void> {
-    log.info('Verifying contract with Etherscan: %s', contract.address)
+    log.info('Verifying contract with Etherscan: %s', address)
 
     await run('verify:verify', {
-        address: contract.address,
+        address,
         constructorArguments: [...args]
     })
 }
@@ -53,3 +123,52 @@ export async function awaitContractPropagation() {
         setTimeout(resolve, sleepyTimeMs)
     })
 }
+
+/**
+ * Writes the deployment details into the manifest for the current network.
+ *
+ * @param name the case-sensitive name of the contract in the Solidity file.
+ * @param contract freshly deployed contract (or proxy).
+ * @param args constructor arguments, or initializer arguments for a proxy.
+ * @param implementation address of the logic contract, when behind a proxy.
+ */
+async function recordContractDeployment<T extends DeployableContract<T>>(
+    name: string,
+    contract: T,
+    args: Array<unknown>,
+    implementation?: string
+): Promise<void> {
+    const receipt = await contract.deployTransaction.wait()
+    const chainId = (await ethers.provider.getNetwork()).chainId
+
+    recordDeployment(network.name, chainId, {
+        name,
+        address: contract.address,
+        implementation,
+        args: args.map(String),
+        transactionHash: receipt.transactionHash,
+        blockNumber: receipt.blockNumber,
+        compilerVersion: await compilerVersion(name),
+        gitCommit: gitCommit(),
+        deployedAt: new Date().toISOString()
+    })
+
+    log.info('%s recorded in the %s manifest', name, network.name)
+}
+
+async function compilerVersion(name: string): Promise<string> {
+    const artifact = await artifacts.readArtifact(name)
+    const buildInfo = await artifacts.getBuildInfo(
+        `${artifact.sourceName}:${artifact.contractName}`
+    )
+
+    return buildInfo ? buildInfo.solcLongVersion : 'unknown'
+}
+
+function gitCommit(): string {
+    try {
+        return execSync('git rev-parse HEAD').toString().trim()
+    } catch (error) {
+        return 'unknown'
+    }
+}
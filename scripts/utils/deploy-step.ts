@@ -0,0 +1,112 @@
+import {ethers, network} from 'hardhat'
+import {log} from '../../config/logging'
+import {awaitContractPropagation, verifyContract} from './contract'
+import {
+    deployment,
+    readManifest,
+    recordVerification,
+    resetManifest
+} from './deployment-manifest'
+
+/**
+ * A single unit of work within a deployment, skipped when already complete.
+ */
+export type DeployStep = {
+    name: string
+    isComplete(): Promise<boolean>
+    execute(): Promise<void>
+}
+
+/**
+ * Runs each of the steps in order, skipping those already complete.
+ *
+ * As progress is kept in the network manifest, a rerun after a failure resumes
+ * from the step that failed.
+ *
+ * @param steps deployment steps, in the order they are to run.
+ * @param fresh discard any previous deployment, running every step.
+ */
+export async function runDeploySteps(
+    steps: DeployStep[],
+    fresh = false
+): Promise<void> {
+    if (fresh) {
+        log.info('Fresh deployment, discarding the %s manifest', network.name)
+        resetManifest(network.name)
+    }
+
+    for (const step of steps) {
+        if (await step.isComplete()) {
+            log.info('Skipping completed step: %s', step.name)
+        } else {
+            log.info('Running step: %s', step.name)
+
+            try {
+                await step.execute()
+            } catch (error) {
+                log.error('Failed step: %s, rerun to resume', step.name)
+                throw error
+            }
+        }
+    }
+}
+
+/**
+ * Deploys a contract, being complete once the manifest has an entry for the
+ * contract with bytecode at that address.
+ *
+ * @param name the case-sensitive name of the contract in the Solidity file.
+ * @param deploy performs the deployment, recording it in the manifest.
+ */
+export function deployContractStep(
+    name: string,
+    deploy: () => Promise<unknown>
+): DeployStep {
+    return {
+        name: `Deploy ${name}`,
+        isComplete: () => isDeployed(name),
+        execute: async () => {
+            await deploy()
+        }
+    }
+}
+
+/**
+ * Verifies the source of a deployed contract with Etherscan, being complete
+ * once the manifest entry is marked as verified.
+ *
+ * @param name the case-sensitive name of the contract in the Solidity file.
+ */
+export function verifyContractStep(name: string): DeployStep {
+    return {
+        name: `Verify ${name}`,
+        isComplete: () =>
+            Promise.resolve(
+                readManifest(network.name).contracts[name]?.verified === true
+            ),
+        execute: async () => {
+            const deployed = deployment(readManifest(network.name), name)
+
+            await awaitContractPropagation()
+
+            if (deployed.implementation) {
+                // Initializer arguments are not constructor arguments
+                await verifyContract(deployed.implementation)
+            } else {
+                await verifyContract(deployed.address, ...deployed.args)
+            }
+
+            recordVerification(network.name, name)
+        }
+    }
+}
+
+async function isDeployed(name: string): Promise<boolean> {
+    const deployed = readManifest(network.name).contracts[name]
+
+    if (!deployed) {
+        return false
+    }
+
+    return (await ethers.provider.getCode(deployed.address)) !== '0x'
+}
@@ -0,0 +1,197 @@
+import {existsSync, mkdirSync, readFileSync, writeFileSync} from 'fs'
+import {join} from 'path'
+
+const MANIFEST_DIRECTORY = join(__dirname, '..', '..', 'deployments')
+
+/**
+ * Replacement of the implementation behind a proxy.
+ */
+export type ContractUpgrade = {
+    previousImplementation: string
+    implementation: string
+    transactionHash: string
+    blockNumber: number
+    compilerVersion: string
+    gitCommit: string
+    upgradedAt: string
+}
+
+/**
+ * Details of a single contract deployment.
+ *
+ * For a contract deployed behind a proxy, the address is that of the proxy,
+ * with the implementation being the logic contract behind it.
+ */
+export type DeployedContract = {
+    name: string
+    address: string
+    implementation?: string
+    args: string[]
+    transactionHash: string
+    blockNumber: number
+    compilerVersion: string
+    gitCommit: string
+    deployedAt: string
+    verified?: boolean
+    upgrades?: ContractUpgrade[]
+}
+
+/**
+ * Every contract deployed onto a single network, keyed by contract name.
+ */
+export type DeploymentManifest = {
+    network: string
+    chainId: number
+    contracts: {[name: string]: DeployedContract}
+}
+
+/**
+ * Location of the manifest file for the network.
+ *
+ * @param network name of the network, as given in the Hardhat config.
+ */
+export function manifestPath(network: string): string {
+    return join(MANIFEST_DIRECTORY, `${network}.json`)
+}
+
+/**
+ * Reads the manifest for the network, or an empty manifest when there have
+ * been no deployments to it.
+ *
+ * @param network name of the network, as given in the Hardhat config.
+ * @param chainId identifier for the chain, used only when there is no manifest.
+ */
+export function readManifest(network: string, chainId = 0): DeploymentManifest {
+    const path = manifestPath(network)
+
+    if (!existsSync(path)) {
+        return {network, chainId, contracts: {}}
+    }
+
+    return <DeploymentManifest>JSON.parse(readFileSync(path, 'utf8'))
+}
+
+/**
+ * Replaces the manifest on disk with the given manifest.
+ */
+export function writeManifest(manifest: DeploymentManifest): void {
+    mkdirSync(MANIFEST_DIRECTORY, {recursive: true})
+    writeFileSync(
+        manifestPath(manifest.network),
+        `${JSON.stringify(manifest, null, 2)}\n`
+    )
+}
+
+/**
+ * Adds the deployment to the network manifest, replacing any previous entry
+ * for the same contract name.
+ */
+export function recordDeployment(
+    network: string,
+    chainId: number,
+    deployed: DeployedContract
+): void {
+    const manifest = readManifest(network, chainId)
+    manifest.chainId = chainId
+    manifest.contracts[deployed.name] = deployed
+    writeManifest(manifest)
+}
+
+/**
+ * Discards every deployment recorded for the network.
+ */
+export function resetManifest(network: string): void {
+    const manifest = readManifest(network)
+    writeManifest({network, chainId: manifest.chainId, contracts: {}})
+}
+
+/**
+ * Marks the deployed contract as having its source verified with Etherscan.
+ */
+export function recordVerification(network: string, name: string): void {
+    const manifest = readManifest(network)
+    manifest.contracts[name] = {...deployment(manifest, name), verified: true}
+    writeManifest(manifest)
+}
+
+/**
+ * Replaces the implementation of a proxied contract, keeping the history of
+ * previous implementations.
+ *
+ * A proxy deployed before the manifest existed is added to it, from the proxy
+ * and the implementation it was upgraded from.
+ *
+ * @param proxy address of the proxy that was upgraded.
+ */
+export function recordUpgrade(
+    network: string,
+    chainId: number,
+    name: string,
+    proxy: string,
+    upgrade: ContractUpgrade
+): void {
+    const manifest = readManifest(network, chainId)
+    const deployed =
+        manifest.contracts[name] ?? unrecordedProxy(name, proxy, upgrade)
+
+    manifest.contracts[name] = {
+        ...deployed,
+        implementation: upgrade.implementation,
+        upgrades: [...(deployed.upgrades ?? []), upgrade]
+    }
+    writeManifest(manifest)
+}
+
+/**
+ * Entry for a proxy missing from the manifest, with the details of its
+ * deployment being those of the upgrade, as the earlier are unknown.
+ */
+function unrecordedProxy(
+    name: string,
+    proxy: string,
+    upgrade: ContractUpgrade
+): DeployedContract {
+    return {
+        name,
+        address: proxy,
+        implementation: upgrade.previousImplementation,
+        args: [],
+        transactionHash: upgrade.transactionHash,
+        blockNumber: upgrade.blockNumber,
+        compilerVersion: upgrade.compilerVersion,
+        gitCommit: upgrade.gitCommit,
+        deployedAt: upgrade.upgradedAt
+    }
+}
+
+/**
+ * Retrieves the address of the contract from the network manifest,
+ * failing when there has been no deployment.
+ *
+ * @param network name of the network, as given in the Hardhat config.
+ * @param name the case-sensitive name of the contract in the Solidity file.
+ */
+export function deployedAddress(network: string, name: string): string {
+    return deployment(readManifest(network), name).address
+}
+
+/**
+ * Retrieves the deployment of the contract from the manifest,
+ * failing when not present.
+ */
+export function deployment(
+    manifest: DeploymentManifest,
+    name: string
+): DeployedContract {
+    const deployed = manifest.contracts[name]
+
+    if (!deployed) {
+        throw Error(
+            `Missing ${name} deployment in manifest: ${manifestPath(
+                manifest.network
+            )}`
+        )
+    }
+
+    return deployed
+}
@@ -0,0 +1,112 @@
+import {HardhatRuntimeEnvironment} from 'hardhat/types'
+import {BigNumber, utils} from 'ethers'
+import {IERC20MetadataUpgradeable} from '../../typechain-types'
+import {log} from '../../config/logging'
+import {BatchArgs, transactionSender} from './safe-batch'
+import {submitTransaction} from './transaction-event-log'
+
+/**
+ * Token amount, in whole tokens, alongside the token.
+ */
+export type TokenAmountReport = {
+    tokens: string
+    symbol: string
+    amount: string
+}
+
+/**
+ * Attaches to an ERC20 token contract that supports the metadata extension.
+ */
+export async function erc20At(
+    hre: HardhatRuntimeEnvironment,
+    address: string
+): Promise<IERC20MetadataUpgradeable> {
+    return <IERC20MetadataUpgradeable>(
+        await hre.ethers.getContractAt('IERC20MetadataUpgradeable', address)
+    )
+}
+
+/**
+ * Converts a human-readable amount (e.g. "12.5") into the smallest unit of
+ * the token, using the decimals of the token.
+ */
+export async function tokenAmount(
+    token: IERC20MetadataUpgradeable,
+    amount: string
+): Promise<BigNumber> {
+    return utils.parseUnits(amount, await token.decimals())
+}
+
+/**
+ * Converts an amount in the smallest unit of the token into a human-readable
+ * amount, with the token symbol.
+ */
+export async function formatTokenAmount(
+    token: IERC20MetadataUpgradeable,
+    amount: BigNumber
+): Promise<string> {
+    return `${utils.formatUnits(
+        amount,
+        await token.decimals()
+    )} ${await token.symbol()}`
+}
+
+/**
+ * Approves the spender for the amount, unless the sender has already given
+ * at least that allowance, the approval being batched when the task is.
+ */
+export async function ensureAllowance(
+    token: IERC20MetadataUpgradeable,
+    spender: string,
+    amount: BigNumber,
+    args: BatchArgs = {}
+): Promise<void> {
+    const owner = await transactionSender(args, token.signer)
+    const allowance = await token.allowance(owner, spender)
+
+    if (allowance.lt(amount)) {
+        log.info(
+            'Approving %s to spend %s',
+            spender,
+            await formatTokenAmount(token, amount)
+        )
+
+        await submitTransaction(
+            args,
+            token,
+            token.populateTransaction.approve(spender, amount)
+        )
+    }
+}
+
+export type TokenAmounts = (
+    tokens: string,
+    amount: BigNumber
+) => Promise<TokenAmountReport>
+
+/**
+ * Formats token amounts, avoiding repeated look ups of the token symbol and
+ * decimals.
+ */
+export function tokenAmounts(hre: HardhatRuntimeEnvironment): TokenAmounts {
+    const metadata = new Map<string, {symbol: string; decimals: number}>()
+
+    return async (tokens, amount) => {
+        let cached = metadata.get(tokens)
+
+        if (!cached) {
+            const token = await erc20At(hre, tokens)
+            cached = {
+                symbol: await token.symbol(),
+                decimals: await token.decimals()
+            }
+            metadata.set(tokens, cached)
+        }
+
+        return {
+            tokens,
+            symbol: cached.symbol,
+            amount: utils.formatUnits(amount, cached.decimals)
+        }
+    }
+}
@@ -0,0 +1,113 @@
+import {HardhatRuntimeEnvironment} from 'hardhat/types'
+import {
+    BondFactory,
+    BondMediator,
+    StakingPoolFactory,
+    StakingPoolMediator
+} from '../../typechain-types'
+import {deployedAddress} from './deployment-manifest'
+import {
+    BondMediatorArgs,
+    MEDIATORS,
+    MediatorArgs,
+    StakingPoolMediatorArgs
+} from '../tasks/mediator'
+
+/**
+ * Attaches to the mediator selected by the task arguments.
+ */
+export async function mediatorAt(
+    hre: HardhatRuntimeEnvironment,
+    args: MediatorArgs
+): Promise<BondMediator | StakingPoolMediator> {
+    if (!MEDIATORS.includes(args.mediator)) {
+        throw Error(
+            `Unknown mediator: ${
+                args.mediator
+            }, expecting one of: ${MEDIATORS.join(', ')}`
+        )
+    }
+
+    return <BondMediator | StakingPoolMediator>(
+        await hre.ethers.getContractAt(
+            args.mediator,
+            args.mediatorAddress ??
+                deployedAddress(hre.network.name, args.mediator)
+        )
+    )
+}
+
+/**
+ * Attaches to the mediator selected by the task arguments, failing unless
+ * it is a BondMediator.
+ *
+ * @param operation description of what the BondMediator is needed for.
+ */
+export async function requireBondMediator(
+    hre: HardhatRuntimeEnvironment,
+    args: MediatorArgs,
+    operation: string
+): Promise<BondMediator> {
+    if (args.mediator !== 'BondMediator') {
+        throw Error(`Only the BondMediator supports ${operation}`)
+    }
+
+    return <BondMediator>await mediatorAt(hre, args)
+}
+
+/**
+ * Attaches to the BondMediator selected by the task arguments.
+ */
+export async function bondMediatorAt(
+    hre: HardhatRuntimeEnvironment,
+    args: BondMediatorArgs
+): Promise<BondMediator> {
+    return <BondMediator>await mediatorAt(hre, {
+        mediator: 'BondMediator',
+        mediatorAddress: args.mediatorAddress
+    })
+}
+
+/**
+ * Attaches to the StakingPoolMediator selected by the task arguments.
+ */
+export async function stakingPoolMediatorAt(
+    hre: HardhatRuntimeEnvironment,
+    args: StakingPoolMediatorArgs
+): Promise<StakingPoolMediator> {
+    return <StakingPoolMediator>await mediatorAt(hre, {
+        mediator: 'StakingPoolMediator',
+        mediatorAddress: args.mediatorAddress
+    })
+}
+
+/**
+ * Attaches to the BondFactory the BondMediator creates its Bonds with.
+ */
+export async function bondCreatorAt(
+    hre: HardhatRuntimeEnvironment,
+    mediator: BondMediator
+): Promise<BondFactory> {
+    return <BondFactory>(
+        await hre.ethers.getContractAt(
+            'BondFactory',
+            await mediator.bondCreator()
+        )
+    )
+}
+
+/**
+ * Attaches to the StakingPoolFactory the StakingPoolMediator creates its
+ * StakingPools with.
+ */
+export async function stakingPoolCreatorAt(
+    hre: HardhatRuntimeEnvironment,
+    mediator: StakingPoolMediator
+): Promise<StakingPoolFactory> {
+    return <StakingPoolFactory>(
+        await hre.ethers.getContractAt(
+            'StakingPoolFactory',
+            await mediator.stakingPoolCreator()
+        )
+    )
+}
@@ -0,0 +1,18 @@
+import {createInterface} from 'readline'
+
+/**
+ * Asks the question on the terminal, resolving true only when answered 'yes'.
+ */
+export async function confirm(question: string): Promise<boolean> {
+    const terminal = createInterface({
+        input: process.stdin,
+        output: process.stdout
+    })
+
+    const answer = await new Promise<string>((resolve) => {
+        terminal.question(`${question} (yes/no) `, resolve)
+    })
+    terminal.close()
+
+    return answer.trim().toLowerCase() === 'yes'
+}
@@ -0,0 +1,206 @@
+import {existsSync, readFileSync, writeFileSync} from 'fs'
+import {BaseContract, BigNumber, PopulatedTransaction, Signer} from 'ethers'
+import {ParamType} from '@ethersproject/abi'
+
+/**
+ * Version of the Safe Transaction Builder the batch format is taken from.
+ */
+const TX_BUILDER_VERSION = '1.10.0'
+
+/**
+ * Task arguments for appending the transactions to a Safe batch file, rather
+ * than sending them.
+ */
+export type BatchArgs = {
+    /** Safe Transaction Builder JSON file to append to. */
+    batch?: string
+    /** Safe executing the batch, by default the signer. */
+    safe?: string
+}
+
+export type SafeMethodInput = {
+    name: string
+    type: string
+    components?: SafeMethodInput[]
+}
+
+/**
+ * Transaction within a Safe Transaction Builder batch, with the method and
+ * inputs for the reviewers alongside the calldata that is executed.
+ */
+export type SafeBatchTransaction = {
+    to: string
+    value: string
+    data: string
+    contractMethod: {
+        name: string
+        payable: boolean
+        inputs: SafeMethodInput[]
+    }
+    contractInputsValues: {[name: string]: string}
+}
+
+/**
+ * Batch file, as imported by the Safe Transaction Builder.
+ */
+export type SafeBatch = {
+    version: string
+    chainId: string
+    createdAt: number
+    meta: {
+        name: string
+        description: string
+        txBuilderVersion: string
+        createdFromSafeAddress: string
+        createdFromOwnerAddress: string
+    }
+    transactions: SafeBatchTransaction[]
+}
+
+/**
+ * Whether the task arguments ask for batching, rather than sending.
+ */
+export function isBatching(args: BatchArgs): boolean {
+    return typeof args.batch === 'string'
+}
+
+/**
+ * Account the transactions are sent from, being the Safe when batching for
+ * one, otherwise the signer.
+ */
+export async function transactionSender(
+    args: BatchArgs,
+    signer: Signer
+): Promise<string> {
+    return isBatching(args) && typeof args.safe === 'string'
+        ? args.safe
+        : signer.getAddress()
+}
+
+/**
+ * Converts the populated transaction into a batch transaction, decoding the
+ * calldata with the interface of the contract.
+ */
+export function safeBatchTransaction(
+    contract: BaseContract,
+    transaction: PopulatedTransaction
+): SafeBatchTransaction {
+    const data = transaction.data ?? '0x'
+    const call = contract.interface.parseTransaction({data})
+    const contractInputsValues: {[name: string]: string} = {}
+
+    call.functionFragment.inputs.forEach((input, i) => {
+        contractInputsValues[input.name] = inputValue(call.args[i])
+    })
+
+    return {
+        to: transaction.to ?? contract.address,
+        value: BigNumber.from(transaction.value ?? 0).toString(),
+        data,
+        contractMethod: {
+            name: call.name,
+            payable: call.functionFragment.payable,
+            inputs: call.functionFragment.inputs.map(methodInput)
+        },
+        contractInputsValues
+    }
+}
+
+/**
+ * Reads the batch file, or an empty batch when there is none yet.
+ *
+ * @param chainId chain the batch is for, failing when an existing batch
+ *          file is for another chain.
+ * @param safe recorded as the Safe the batch is created for.
+ */
+export function readSafeBatch(
+    path: string,
+    chainId: number,
+    safe = ''
+): SafeBatch {
+    if (!existsSync(path)) {
+        return {
+            version: '1.0',
+            chainId: String(chainId),
+            createdAt: Date.now(),
+            meta: {
+                name: 'Transactions Batch',
+                description: '',
+                txBuilderVersion: TX_BUILDER_VERSION,
+                createdFromSafeAddress: safe,
+                createdFromOwnerAddress: ''
+            },
+            transactions: []
+        }
+    }
+
+    const batch = <SafeBatch>JSON.parse(readFileSync(path, 'utf8'))
+
+    if (batch.chainId !== String(chainId)) {
+        throw Error(
+            `Batch ${path} is for chain ${batch.chainId}, not chain ${chainId}`
+        )
+    }
+
+    return batch
+}
+
+/**
+ * Appends the transaction to the batch file, creating it when needed.
+ *
+ * @param description appended to the description of the batch.
+ * @return the number of transactions now in the batch.
+ */
+export function appendSafeBatch(
+    path: string,
+    chainId: number,
+    safe: string | undefined,
+    transaction: SafeBatchTransaction,
+    description: string
+): number {
+    const batch = readSafeBatch(path, chainId, safe)
+
+    batch.transactions.push(transaction)
+    batch.meta.description = batch.meta.description
+        ? `${batch.meta.description}; ${description}`
+        : description
+
+    writeFileSync(path, `${JSON.stringify(batch, null, 2)}\n`)
+
+    return batch.transactions.length
+}
+
+function methodInput(param: ParamType): SafeMethodInput {
+    return {
+        name: param.name,
+        type: param.type,
+        ...(param.components && {
+            components: param.components.map(methodInput)
+        })
+    }
+}
+
+/**
+ * Inputs are given as strings, with arrays and structs in their JSON form.
+ */
+function inputValue(value: unknown): string {
+    if (typeof value === 'string') {
+        return value
+    }
+    if (BigNumber.isBigNumber(value) || typeof value === 'boolean') {
+        return value.toString()
+    }
+
+    return JSON.stringify(plainValue(value))
+}
+
+function plainValue(value: unknown): unknown {
+    if (BigNumber.isBigNumber(value)) {
+        return value.toString()
+    }
+    if (Array.isArray(value)) {
+        return value.map(plainValue)
+    }
+
+    return value
+}
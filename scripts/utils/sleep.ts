@@ -0,0 +1,8 @@
+/**
+ * Resolves once the milliseconds have elapsed, e.g. between polls of a chain.
+ */
+export function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+        setTimeout(resolve, ms)
+    })
+}
@@ -0,0 +1,117 @@
+import {readFileSync} from 'fs'
+import {utils} from 'ethers'
+
+/**
+ * JSON object read from a specification file, awaiting validation.
+ */
+export type SpecObject = {[key: string]: unknown}
+
+/**
+ * Reads the JSON specification file, failing unless the content is an object.
+ */
+export function readSpecFile(path: string): SpecObject {
+    return specObject(<unknown>JSON.parse(readFileSync(path, 'utf8')), path)
+}
+
+export function specObject(value: unknown, field: string): SpecObject {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw Error(`Spec ${field} is not an object`)
+    }
+
+    return <SpecObject>value
+}
+
+export function specArray(value: unknown, field: string): unknown[] {
+    if (!Array.isArray(value)) {
+        throw Error(`Spec ${field} is not an array`)
+    }
+
+    return value
+}
+
+export function specString(value: unknown, field: string): string {
+    if (typeof value !== 'string') {
+        throw Error(`Spec ${field} is not a string`)
+    }
+
+    return value
+}
+
+export function specAddress(value: unknown, field: string): string {
+    if (typeof value !== 'string' || !utils.isAddress(value)) {
+        throw Error(`Spec ${field} is not an Ethereum address`)
+    }
+
+    return value
+}
+
+/**
+ * Amounts are strings, avoiding the loss of precision that comes with numbers.
+ */
+export function specAmount(value: unknown, field: string): string {
+    const amount = typeof value === 'number' ? String(value) : value
+
+    if (typeof amount !== 'string' || !/^\d+(\.\d+)?$/.test(amount)) {
+        throw Error(`Spec ${field} is not an amount`)
+    }
+
+    return amount
+}
+
+/**
+ * Unix timestamp in seconds, given either as a number or an ISO 8601 date.
+ */
+export function specTimestamp(value: unknown, field: string): number {
+    if (typeof value === 'number' && Number.isInteger(value) && value >= 0) {
+        return value
+    }
+
+    if (typeof value === 'string' && !Number.isNaN(Date.parse(value))) {
+        return Math.floor(Date.parse(value) / 1000)
+    }
+
+    throw Error(`Spec ${field} is not a timestamp or ISO 8601 date`)
+}
+
+/**
+ * Number of seconds, given as a non-negative integer.
+ */
+export function specSeconds(value: unknown, field: string): number {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+        throw Error(`Spec ${field} is not a number of seconds`)
+    }
+
+    return value
+}
+
+const ISO_DURATION =
+    /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/
+const DURATION_UNITS = [7 * 86400, 86400, 3600, 60, 1]
+
+/**
+ * Number of seconds, given either as a number or an ISO 8601 duration in
+ * weeks, days, hours, minutes and seconds (e.g. "P30D", "PT12H").
+ *
+ * Years and months are rejected, as their length in seconds varies.
+ */
+export function specDuration(value: unknown, field: string): number {
+    if (typeof value === 'number') {
+        return specSeconds(value, field)
+    }
+
+    const match =
+        typeof value === 'string' && !/^P$|T$/.test(value)
+            ? ISO_DURATION.exec(value)
+            : null
+    if (match === null) {
+        throw Error(
+            `Spec ${field} is not a number of seconds or ISO 8601 duration`
+        )
+    }
+
+    return DURATION_UNITS.reduce((seconds, unit, i) => {
+        const unitSeconds = unit * Number(match[i + 1] ?? 0)
+
+        return seconds + unitSeconds
+    }, 0)
+}
@@ -0,0 +1,46 @@
+/**
+ * Formats the rows as plain text columns, each padded to its widest value.
+ */
+export function formatTable(headers: string[], rows: string[][]): string {
+    const widths = headers.map((header, column) =>
+        Math.max(header.length, ...rows.map((row) => row[column].length))
+    )
+    const line = (values: string[]) =>
+        values
+            .map((value, column) => value.padEnd(widths[column]))
+            .join('  ')
+            .trimEnd()
+
+    return [
+        line(headers),
+        line(widths.map((width) => '-'.repeat(width))),
+        ...rows.map(line)
+    ].join('\n')
+}
+
+/**
+ * Formats the rows as comma separated values, quoting where needed.
+ */
+export function formatCsv(headers: string[], rows: string[][]): string {
+    const field = (value: string) =>
+        /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
+    return [headers, ...rows].map((row) => row.map(field).join(',')).join('\n')
+}
+
+/**
+ * Formats the rows as a Markdown table, escaping any pipes in the values.
+ */
+export function formatMarkdownTable(
+    headers: string[],
+    rows: string[][]
+): string {
+    const line = (values: string[]) =>
+        `| ${values.map((value) => value.replace(/\|/g, '\\|')).join(' | ')} |`
+
+    return [
+        line(headers),
+        line(headers.map(() => '---')),
+        ...rows.map(line)
+    ].join('\n')
+}
@@ -1,31 +1,139 @@
-import {ContractReceipt, Event} from 'ethers'
+import {
+    BaseContract,
+    BigNumber,
+    ContractReceipt,
+    ContractTransaction,
+    PopulatedTransaction
+} from 'ethers'
+import {TransactionResponse} from '@ethersproject/abstract-provider'
 import {createBondEventLogs} from '../../test/event/bond/bond-creator-events'
-import {eventLog} from '../../test/framework/event-logs'
+import {EventLogParser, parseEventLog} from '../../test/framework/events'
+import {hasEventLog} from '../../test/framework/event-logs'
 import {log} from '../../config/logging'
 import {BondFactory} from '../../typechain-types'
+import {BatchArgs, appendSafeBatch, safeBatchTransaction} from './safe-batch'
 
-function receiptEvents(receipt: ContractReceipt): Event[] {
-    const availableEvents = receipt.events
-    return availableEvents ? availableEvents : []
+/**
+ * Awaits the transaction receipt, logging the status.
+ */
+export async function executeTransaction(
+    transaction: Promise<ContractTransaction | TransactionResponse>
+): Promise<ContractReceipt> {
+    const receipt = await (await transaction).wait()
+
+    log.info('Transaction complete with status %s', receipt.status)
+
+    return receipt
+}
+
+/**
+ * Sends the transaction from the signer of the contract, or when batching
+ * appends it to the Safe batch file instead, for the multisig to review and
+ * execute.
+ *
+ * @param contract called by the transaction, decoding the calldata for the batch.
+ * @return the receipt, or null when the transaction was batched.
+ */
+export async function submitTransaction(
+    args: BatchArgs,
+    contract: BaseContract,
+    transaction: Promise<PopulatedTransaction>
+): Promise<ContractReceipt | null> {
+    const populated = await transaction
+
+    if (typeof args.batch !== 'string') {
+        return executeTransaction(contract.signer.sendTransaction(populated))
+    }
+
+    const batched = safeBatchTransaction(contract, populated)
+    const count = appendSafeBatch(
+        args.batch,
+        (await contract.provider.getNetwork()).chainId,
+        args.safe,
+        batched,
+        `${batched.contractMethod.name} on ${batched.to}`
+    )
+
+    log.info(
+        'Batched %s on %s as transaction %s of %s',
+        batched.contractMethod.name,
+        batched.to,
+        count,
+        args.batch
+    )
+
+    return null
 }
 
-export function logEvents(receipt: ContractReceipt): void {
-    const events = receiptEvents(receipt)
+/**
+ * Decodes and logs the events with a matching name from the emitter,
+ * any BigNumber values being shown in decimal.
+ *
+ * @param emitter contract that emits the event and provide decoding of the event log.
+ * @param receipt expected to contain at least one of the named events.
+ * @param name name of the event expected within the given contracts.
+ * @param parse parser to inflate any found matching events.
+ * @return the decoded events.
+ */
+export function logEventLogs<T extends BaseContract, U>(
+    emitter: T,
+    receipt: ContractReceipt,
+    name: string,
+    parse: EventLogParser<U>
+): U[] {
+    const events = parseEventLog(emitter, receipt, name, parse)
 
     for (const event of events) {
-        log.info('%s, %s', event.event, JSON.stringify(event.args))
+        log.info('%s event: %s', name, JSON.stringify(event, decimal))
     }
+
+    return events
+}
+
+/**
+ * Decodes and logs the events with a matching name from the emitter, when
+ * the receipt contains any, for those events emitted only conditionally.
+ *
+ * @return the decoded events, empty when there were none.
+ */
+export function logOptionalEventLogs<T extends BaseContract, U>(
+    emitter: T,
+    receipt: ContractReceipt,
+    name: string,
+    parse: EventLogParser<U>
+): U[] {
+    return hasEventLog(name, emitter, receipt)
+        ? logEventLogs(emitter, receipt, name, parse)
+        : []
 }
 
 export function logCreateBondEvents(
     emitter: BondFactory,
     receipt: ContractReceipt
 ): void {
-    const createBondEvents = createBondEventLogs(
-        eventLog('CreateBond', emitter, receipt)
-    )
+    logEventLogs(emitter, receipt, 'CreateBond', createBondEventLogs)
+}
 
-    for (const event of createBondEvents) {
-        log.info('CreateBond event: %s', JSON.stringify(event))
+/**
+ * JSON replacer, with BigNumber and bigint values as decimal strings.
+ */
+function decimal(key: string, value: unknown): unknown {
+    if (typeof value === 'bigint') {
+        return value.toString()
     }
+
+    // BigNumber.toJSON() is applied before the replacer
+    if (isSerializedBigNumber(value)) {
+        return BigNumber.from(value.hex).toString()
+    }
+
+    return value
+}
+
+function isSerializedBigNumber(value: unknown): value is {hex: string} {
+    return (
+        typeof value === 'object' &&
+        value !== null &&
+        (<{type?: unknown}>value).type === 'BigNumber'
+    )
 }
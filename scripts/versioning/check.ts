@@ -1,4 +1,5 @@
 // this script will be triggered from workflow actions when a new tag is push
+import {ethers} from 'hardhat'
 import {log} from '../../config/logging'
 import {Version} from '../../typechain-types'
 
@@ -29,3 +30,18 @@ export async function checkContractVersionAgainstReleaseTag(
         `Contract ${contract.address} has version mismatch! Bytecode:${contractVersion} vs. Git tag: ${gitSourceTag}`
     )
 }
+
+/*
+ * attaches to the deployed contract that inherits Version and returns true if its version is equal to the release tag
+ * throws otherwise
+ *
+ * @param The address of a deployed contract that inherits Version
+ *
+ */
+export async function checkDeployedVersionAgainstReleaseTag(
+    address: string
+): Promise<boolean> {
+    return checkContractVersionAgainstReleaseTag(
+        <Version>await ethers.getContractAt('Version', address)
+    )
+}
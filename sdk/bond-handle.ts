@@ -0,0 +1,226 @@
+import {BigNumber, BigNumberish, Signer} from 'ethers'
+import {SingleCollateralMultiRewardBond} from '../typechain-types'
+import {
+    ActualDebtIssueEvent,
+    ActualDepositEvent,
+    ActualFullCollateralEvent,
+    ActualRedemptionEvent,
+    debtIssueEventLogs,
+    depositEventLogs,
+    fullCollateralEventLogs,
+    redemptionEventLogs
+} from '../test/event/bond/single-collateral-bond-events'
+import {
+    ActualClaimRewardEvent,
+    claimRewardEventLogs
+} from '../test/event/bond/time-lock-multi-reward-bond-events'
+import {parseEventLog} from '../test/framework/events'
+import {singleCollateralMultiRewardBondAt} from './contracts'
+import {allowance, approveAllowance, permitAllowance} from './erc20'
+import {optionalEventLogs, transactionReceipt} from './transaction'
+
+/**
+ * State of the Bond and signer that a deposit is checked against.
+ */
+export type DepositCheck = {
+    collateralTokens: string
+    minimumDeposit: BigNumber
+    /** Debt tokens still available for deposits. */
+    debtTokensRemaining: BigNumber
+    /** Debt tokens held by guarantors. */
+    debtTokensOutstanding: BigNumber
+    /** Debt tokens already held by the signer. */
+    balance: BigNumber
+    /** Collateral the signer has allowed the Bond to spend. */
+    allowance: BigNumber
+}
+
+/**
+ * How the Bond was allowed to spend the collateral of the deposit.
+ */
+export type DepositAuthorization = 'allowance' | 'approve' | 'permit'
+
+export type DepositOptions = {
+    /** Use an EIP-2612 permit instead of approve, when the collateral supports it. */
+    permit?: boolean
+}
+
+/**
+ * Events of a deposit, with any FullCollateral when it was the final deposit.
+ */
+export type BondDeposit = {
+    authorization: DepositAuthorization
+    deposit: ActualDepositEvent
+    debtIssue: ActualDebtIssueEvent
+    fullCollateral: ActualFullCollateralEvent[]
+}
+
+/**
+ * Guarantor operations on a managed Bond, for the signer.
+ */
+export class BondHandle {
+    readonly bond: SingleCollateralMultiRewardBond
+
+    constructor(readonly signer: Signer, readonly address: string) {
+        this.bond = singleCollateralMultiRewardBondAt(address, signer)
+    }
+
+    /**
+     * Checks the deposit would be accepted by the Bond, failing with the
+     * reason when it would not.
+     */
+    async checkDeposit(amount: BigNumberish): Promise<DepositCheck> {
+        const deposit = BigNumber.from(amount)
+        const collateralTokens = await this.bond.collateralTokens()
+        const check = {
+            collateralTokens,
+            minimumDeposit: await this.bond.minimumDeposit(),
+            debtTokensRemaining: await this.bond.debtTokens(),
+            debtTokensOutstanding: await this.bond.debtTokensOutstanding(),
+            balance: await this.bond.balanceOf(await this.signer.getAddress()),
+            allowance: await allowance(
+                this.signer,
+                collateralTokens,
+                this.bond.address
+            )
+        }
+
+        if (await this.bond.paused()) {
+            throw Error(`Bond ${this.bond.address} is paused`)
+        }
+        if (await this.bond.redeemable()) {
+            throw Error(
+                `Bond ${this.bond.address} is redeemable, no longer accepting deposits`
+            )
+        }
+        if (deposit.lte(0)) {
+            throw Error('Deposit amount must be greater than zero')
+        }
+        if (deposit.gt(check.debtTokensRemaining)) {
+            throw Error(
+                `Deposit of ${deposit.toString()} exceeds the ${check.debtTokensRemaining.toString()} debt tokens remaining`
+            )
+        }
+        if (check.balance.add(deposit).lt(check.minimumDeposit)) {
+            throw Error(
+                `Deposit of ${deposit.toString()} is below the minimum deposit of ${check.minimumDeposit.toString()}`
+            )
+        }
+
+        return check
+    }
+
+    /**
+     * Deposits the amount of collateral for an equal amount of debt tokens,
+     * after checking the Bond would accept it.
+     *
+     * When the allowance falls short, the Bond is approved for only the
+     * amount, or permitted when requested and the collateral supports it.
+     */
+    async deposit(
+        amount: BigNumberish,
+        options: DepositOptions = {}
+    ): Promise<BondDeposit> {
+        const check = await this.checkDeposit(amount)
+        const authorization = await this.authorize(check, amount, options)
+        const receipt = await transactionReceipt(this.bond.deposit(amount))
+
+        return {
+            authorization,
+            deposit: parseEventLog(
+                this.bond,
+                receipt,
+                'Deposit',
+                depositEventLogs
+            )[0],
+            debtIssue: parseEventLog(
+                this.bond,
+                receipt,
+                'DebtIssue',
+                debtIssueEventLogs
+            )[0],
+            fullCollateral: optionalEventLogs(
+                this.bond,
+                receipt,
+                'FullCollateral',
+                fullCollateralEventLogs
+            )
+        }
+    }
+
+    /**
+     * Redeems the amount of debt tokens for their share of the collateral.
+     */
+    async redeem(amount: BigNumberish): Promise<ActualRedemptionEvent> {
+        const receipt = await transactionReceipt(this.bond.redeem(amount))
+
+        return parseEventLog(
+            this.bond,
+            receipt,
+            'Redemption',
+            redemptionEventLogs
+        )[0]
+    }
+
+    /**
+     * Claims every reward that has passed its time lock.
+     *
+     * @return a ClaimReward for each reward token paid, empty when none were.
+     */
+    async claimRewards(): Promise<ActualClaimRewardEvent[]> {
+        const receipt = await transactionReceipt(
+            this.bond.claimAllAvailableRewards()
+        )
+
+        return optionalEventLogs(
+            this.bond,
+            receipt,
+            'ClaimReward',
+            claimRewardEventLogs
+        )
+    }
+
+    /**
+     * Rewards the signer may claim now, by reward token.
+     */
+    async availableRewards(): Promise<{tokens: string; amount: BigNumber}[]> {
+        const available = await this.bond.availableRewards({
+            from: await this.signer.getAddress()
+        })
+
+        return available.map((reward) => ({
+            tokens: reward.tokens,
+            amount: reward.amount
+        }))
+    }
+
+    private async authorize(
+        check: DepositCheck,
+        amount: BigNumberish,
+        options: DepositOptions
+    ): Promise<DepositAuthorization> {
+        if (check.allowance.gte(amount)) {
+            return 'allowance'
+        }
+        if (
+            options.permit === true &&
+            (await permitAllowance(
+                this.signer,
+                check.collateralTokens,
+                this.bond.address,
+                amount
+            ))
+        ) {
+            return 'permit'
+        }
+
+        await approveAllowance(
+            this.signer,
+            check.collateralTokens,
+            this.bond.address,
+            amount
+        )
+
+        return 'approve'
+    }
+}
@@ -0,0 +1,68 @@
+import {Signer} from 'ethers'
+import {
+    BondFactory,
+    BondFactory__factory as BondFactoryFactory,
+    BondMediator,
+    BondMediator__factory as BondMediatorFactory,
+    IERC20MetadataUpgradeable,
+    IERC20MetadataUpgradeable__factory as IERC20MetadataUpgradeableFactory,
+    IERC20Permit,
+    IERC20Permit__factory as IERC20PermitFactory,
+    SingleCollateralMultiRewardBond,
+    SingleCollateralMultiRewardBond__factory as SingleCollateralMultiRewardBondFactory,
+    StakingPool,
+    StakingPool__factory as StakingPoolContractFactory,
+    StakingPoolFactory,
+    StakingPoolFactory__factory as StakingPoolFactoryFactory,
+    StakingPoolMediator,
+    StakingPoolMediator__factory as StakingPoolMediatorFactory
+} from '../typechain-types'
+
+/*
+ * Contracts attached by their typechain factory, having no Hardhat runtime to
+ * look them up with, with every transaction sent by the signer.
+ */
+
+export function bondFactoryAt(address: string, signer: Signer): BondFactory {
+    return BondFactoryFactory.connect(address, signer)
+}
+
+export function bondMediatorAt(address: string, signer: Signer): BondMediator {
+    return BondMediatorFactory.connect(address, signer)
+}
+
+export function erc20At(
+    address: string,
+    signer: Signer
+): IERC20MetadataUpgradeable {
+    return IERC20MetadataUpgradeableFactory.connect(address, signer)
+}
+
+export function erc20PermitAt(address: string, signer: Signer): IERC20Permit {
+    return IERC20PermitFactory.connect(address, signer)
+}
+
+export function singleCollateralMultiRewardBondAt(
+    address: string,
+    signer: Signer
+): SingleCollateralMultiRewardBond {
+    return SingleCollateralMultiRewardBondFactory.connect(address, signer)
+}
+
+export function stakingPoolAt(address: string, signer: Signer): StakingPool {
+    return StakingPoolContractFactory.connect(address, signer)
+}
+
+export function stakingPoolFactoryAt(
+    address: string,
+    signer: Signer
+): StakingPoolFactory {
+    return StakingPoolFactoryFactory.connect(address, signer)
+}
+
+export function stakingPoolMediatorAt(
+    address: string,
+    signer: Signer
+): StakingPoolMediator {
+    return StakingPoolMediatorFactory.connect(address, signer)
+}
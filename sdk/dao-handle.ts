@@ -0,0 +1,216 @@
+import {BondMediator, StakingPoolMediator} from '../typechain-types'
+import {ManagedBondSpec} from '../scripts/bond/bond-spec'
+import {ManagedStakingPoolSpec} from '../scripts/staking/staking-pool-spec'
+import {
+    ActualCreateBondEvent,
+    createBondEventLogs
+} from '../test/event/bond/bond-creator-events'
+import {
+    ActualAddBondEvent,
+    addBondEventLogs
+} from '../test/event/bond/bond-curator-events'
+import {
+    ActualAddStakingPoolEvent,
+    addStakingPoolEventLogs
+} from '../test/event/staking/staking-curator-events'
+import {
+    ActualStakingPoolCreatedEvent,
+    stakingPoolCreatedEventLogs
+} from '../test/event/staking/staking-factory-events'
+import {
+    ActualAddCollateralEvent,
+    addCollateralEventLogs
+} from '../test/event/dao-configuration/whitelist-events'
+import {parseEventLog} from '../test/framework/events'
+import {BondHandle} from './bond-handle'
+import {bondFactoryAt, stakingPoolFactoryAt} from './contracts'
+import {StakingPoolHandle} from './staking-pool-handle'
+import {transactionReceipt} from './transaction'
+
+/**
+ * A created Bond, with the events of its creation.
+ */
+export type CreatedBond = {
+    bond: BondHandle
+    createBond: ActualCreateBondEvent
+    addBond: ActualAddBondEvent
+}
+
+/**
+ * A created StakingPool, with the events of its creation.
+ */
+export type CreatedStakingPool = {
+    stakingPool: StakingPoolHandle
+    stakingPoolCreated: ActualStakingPoolCreatedEvent
+    addStakingPool: ActualAddStakingPoolEvent
+}
+
+/**
+ * Operations on a DAO of either mediator, each mediator numbering its DAOs
+ * independently.
+ */
+export class DaoHandle {
+    readonly mediator: BondMediator | StakingPoolMediator
+    readonly daoId: bigint
+
+    constructor(mediator: BondMediator | StakingPoolMediator, daoId: bigint) {
+        this.mediator = mediator
+        this.daoId = daoId
+    }
+
+    /**
+     * Permits the tokens as collateral for the Bonds or StakingPools of the DAO.
+     */
+    async whitelistCollateral(
+        tokens: string
+    ): Promise<ActualAddCollateralEvent> {
+        const receipt = await transactionReceipt(
+            this.mediator.whitelistCollateral(this.daoId, tokens)
+        )
+
+        return parseEventLog(
+            this.mediator,
+            receipt,
+            'AddCollateralWhitelist',
+            addCollateralEventLogs
+        )[0]
+    }
+
+    /**
+     * Creates a Bond managed by the DAO, failing unless it is a DAO of the
+     * BondMediator.
+     */
+    async createBond(spec: ManagedBondSpec): Promise<CreatedBond> {
+        const mediator = this.bondMediator('creating Bonds')
+        const receipt = await transactionReceipt(
+            mediator.createManagedBond(
+                this.daoId,
+                spec.metadata,
+                spec.configuration,
+                spec.rewards
+            )
+        )
+        const creator = bondFactoryAt(
+            await mediator.bondCreator(),
+            mediator.signer
+        )
+        const createBond = parseEventLog(
+            creator,
+            receipt,
+            'CreateBond',
+            createBondEventLogs
+        )[0]
+
+        return {
+            bond: new BondHandle(mediator.signer, createBond.bond),
+            createBond,
+            addBond: parseEventLog(
+                mediator,
+                receipt,
+                'AddBond',
+                addBondEventLogs
+            )[0]
+        }
+    }
+
+    /**
+     * Creates a StakingPool managed by the DAO, failing unless it is a DAO of
+     * the StakingPoolMediator.
+     *
+     * The DAO of the StakingPool is taken from the daoId of its config.
+     */
+    async createStakingPool(
+        spec: ManagedStakingPoolSpec
+    ): Promise<CreatedStakingPool> {
+        const mediator = this.stakingPoolMediator('creating StakingPools')
+        const receipt = await transactionReceipt(
+            mediator.createManagedStakingPool(
+                {...spec.config, daoId: this.daoId},
+                spec.launchPaused,
+                spec.rewardsAvailableTimestamp
+            )
+        )
+        const creator = stakingPoolFactoryAt(
+            await mediator.stakingPoolCreator(),
+            mediator.signer
+        )
+        const stakingPoolCreated = parseEventLog(
+            creator,
+            receipt,
+            'StakingPoolCreated',
+            stakingPoolCreatedEventLogs
+        )[0]
+
+        return {
+            stakingPool: new StakingPoolHandle(
+                mediator.signer,
+                stakingPoolCreated.stakingPool
+            ),
+            stakingPoolCreated,
+            addStakingPool: parseEventLog(
+                mediator,
+                receipt,
+                'AddStakingPool',
+                addStakingPoolEventLogs
+            )[0]
+        }
+    }
+
+    /**
+     * Every Bond managed by the DAO, failing unless it is a DAO of the
+     * BondMediator.
+     */
+    async bonds(): Promise<BondHandle[]> {
+        const mediator = this.bondMediator('listing Bonds')
+        const count = (await mediator.bondCount(this.daoId)).toNumber()
+        const bonds: BondHandle[] = []
+
+        for (let i = 0; i < count; i++) {
+            bonds.push(
+                new BondHandle(
+                    mediator.signer,
+                    await mediator.bondAt(this.daoId, i)
+                )
+            )
+        }
+
+        return bonds
+    }
+
+    /**
+     * Every StakingPool managed by the DAO, failing unless it is a DAO of the
+     * StakingPoolMediator.
+     */
+    async stakingPools(): Promise<StakingPoolHandle[]> {
+        const mediator = this.stakingPoolMediator('listing StakingPools')
+        const count = (await mediator.stakingPoolCount(this.daoId)).toNumber()
+        const stakingPools: StakingPoolHandle[] = []
+
+        for (let i = 0; i < count; i++) {
+            stakingPools.push(
+                new StakingPoolHandle(
+                    mediator.signer,
+                    await mediator.stakingPoolAt(this.daoId, i)
+                )
+            )
+        }
+
+        return stakingPools
+    }
+
+    private bondMediator(operation: string): BondMediator {
+        if (!('bondCreator' in this.mediator)) {
+            throw Error(`Only the BondMediator supports ${operation}`)
+        }
+
+        return this.mediator
+    }
+
+    private stakingPoolMediator(operation: string): StakingPoolMediator {
+        if (!('stakingPoolCreator' in this.mediator)) {
+            throw Error(`Only the StakingPoolMediator supports ${operation}`)
+        }
+
+        return this.mediator
+    }
+}
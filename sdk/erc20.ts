@@ -0,0 +1,136 @@
+import {BigNumber, BigNumberish, Signer, utils} from 'ethers'
+import {TypedDataDomain, TypedDataSigner} from '@ethersproject/abstract-signer'
+import {erc20At, erc20PermitAt} from './contracts'
+import {transactionReceipt} from './transaction'
+
+/**
+ * Duration a permit remains valid for, from the latest block.
+ */
+const PERMIT_DURATION_SECONDS = 3600
+
+const PERMIT_TYPES = {
+    Permit: [
+        {name: 'owner', type: 'address'},
+        {name: 'spender', type: 'address'},
+        {name: 'value', type: 'uint256'},
+        {name: 'nonce', type: 'uint256'},
+        {name: 'deadline', type: 'uint256'}
+    ]
+}
+
+/**
+ * Allowance the signer has given the spender for the tokens.
+ */
+export async function allowance(
+    signer: Signer,
+    tokens: string,
+    spender: string
+): Promise<BigNumber> {
+    return erc20At(tokens, signer).allowance(await signer.getAddress(), spender)
+}
+
+/**
+ * Approves the spender for the amount of the tokens, unless the signer has
+ * already given at least that allowance.
+ *
+ * @return whether an approval was needed.
+ */
+export async function approveAllowance(
+    signer: Signer,
+    tokens: string,
+    spender: string,
+    amount: BigNumberish
+): Promise<boolean> {
+    if ((await allowance(signer, tokens, spender)).gte(amount)) {
+        return false
+    }
+
+    await transactionReceipt(
+        erc20At(tokens, signer).approve(spender, BigNumber.from(amount))
+    )
+
+    return true
+}
+
+/**
+ * Sets the allowance of the spender for the amount of the tokens with an
+ * EIP-2612 permit, signed by the signer and submitted in its own transaction.
+ *
+ * Support is detected by the DOMAIN_SEPARATOR of the tokens matching the
+ * domain of an OpenZeppelin ERC20Permit, being the token name and version 1.
+ *
+ * @return whether the tokens support the permit, no allowance being set when
+ *          they do not.
+ */
+export async function permitAllowance(
+    signer: Signer,
+    tokens: string,
+    spender: string,
+    amount: BigNumberish
+): Promise<boolean> {
+    const domain = await permitDomain(signer, tokens)
+
+    if (domain === null || !isTypedDataSigner(signer)) {
+        return false
+    }
+
+    const token = erc20PermitAt(tokens, signer)
+    const owner = await signer.getAddress()
+    const deadline =
+        (await token.provider.getBlock('latest')).timestamp +
+        PERMIT_DURATION_SECONDS
+    const signature = utils.splitSignature(
+        await signer._signTypedData(domain, PERMIT_TYPES, {
+            owner,
+            spender,
+            value: BigNumber.from(amount),
+            nonce: await token.nonces(owner),
+            deadline
+        })
+    )
+
+    await transactionReceipt(
+        token.permit(
+            owner,
+            spender,
+            amount,
+            deadline,
+            signature.v,
+            signature.r,
+            signature.s
+        )
+    )
+
+    return true
+}
+
+/**
+ * EIP-712 domain of the permit, or null when the tokens do not support one.
+ */
+async function permitDomain(
+    signer: Signer,
+    tokens: string
+): Promise<TypedDataDomain | null> {
+    let separator: string
+
+    try {
+        separator = await erc20PermitAt(tokens, signer).DOMAIN_SEPARATOR()
+    } catch (error) {
+        return null
+    }
+
+    const domain: TypedDataDomain = {
+        name: await erc20At(tokens, signer).name(),
+        version: '1',
+        chainId: await signer.getChainId(),
+        verifyingContract: tokens
+    }
+
+    return utils._TypedDataEncoder.hashDomain(domain) === separator
+        ? domain
+        : null
+}
+
+function isTypedDataSigner(signer: Signer): signer is Signer & TypedDataSigner {
+    return '_signTypedData' in signer
+}
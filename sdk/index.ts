@@ -0,0 +1,15 @@
+export {
+    BondDeposit,
+    BondHandle,
+    DepositAuthorization,
+    DepositCheck,
+    DepositOptions
+} from './bond-handle'
+export {CreatedBond, CreatedStakingPool, DaoHandle} from './dao-handle'
+export {StakingPoolHandle, StakingPoolWithdrawal} from './staking-pool-handle'
+export {
+    CreatedDao,
+    TreasuryAddresses,
+    TreasuryClient,
+    treasuryAddresses
+} from './treasury-client'
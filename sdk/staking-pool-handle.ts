@@ -0,0 +1,126 @@
+import {BigNumber, BigNumberish, Signer} from 'ethers'
+import {StakingPool} from '../typechain-types'
+import {
+    ActualDepositEvent,
+    ActualWithdrawEvent,
+    ActualWithdrawRewardsEvent
+} from '../test/event/staking/verify-staking-events'
+import {
+    depositEventLogs,
+    withdrawRewardsEventLogs,
+    withdrawStakeEventLogs
+} from '../test/event/staking/staking-events'
+import {parseEventLog} from '../test/framework/events'
+import {stakingPoolAt} from './contracts'
+import {approveAllowance} from './erc20'
+import {optionalEventLogs, transactionReceipt} from './transaction'
+
+/**
+ * Events of a withdrawal, with WithdrawRewards empty when there were none.
+ */
+export type StakingPoolWithdrawal = {
+    withdrawStake: ActualWithdrawEvent[]
+    withdrawRewards: ActualWithdrawRewardsEvent[]
+}
+
+/**
+ * Depositor operations on a managed StakingPool, for the signer.
+ */
+export class StakingPoolHandle {
+    readonly stakingPool: StakingPool
+
+    constructor(readonly signer: Signer, readonly address: string) {
+        this.stakingPool = stakingPoolAt(address, signer)
+    }
+
+    /**
+     * Deposits the amount of stake tokens, first approving the StakingPool to
+     * spend them when needed.
+     */
+    async deposit(amount: BigNumberish): Promise<ActualDepositEvent> {
+        const config = await this.stakingPool.stakingPoolData()
+
+        await approveAllowance(
+            this.signer,
+            config.stakeToken,
+            this.stakingPool.address,
+            amount
+        )
+
+        const receipt = await transactionReceipt(
+            this.stakingPool.deposit(amount)
+        )
+
+        return parseEventLog(
+            this.stakingPool,
+            receipt,
+            'Deposit',
+            depositEventLogs
+        )[0]
+    }
+
+    /**
+     * Withdraws both the stake and rewards, once the rewards are available.
+     */
+    async withdraw(): Promise<StakingPoolWithdrawal> {
+        const receipt = await transactionReceipt(this.stakingPool.withdraw())
+
+        return {
+            withdrawStake: optionalEventLogs(
+                this.stakingPool,
+                receipt,
+                'WithdrawStake',
+                withdrawStakeEventLogs
+            ),
+            withdrawRewards: optionalEventLogs(
+                this.stakingPool,
+                receipt,
+                'WithdrawRewards',
+                withdrawRewardsEventLogs
+            )
+        }
+    }
+
+    /**
+     * Withdraws only the stake, once the staking period is complete.
+     */
+    async withdrawStake(): Promise<ActualWithdrawEvent[]> {
+        const receipt = await transactionReceipt(
+            this.stakingPool.withdrawStake()
+        )
+
+        return optionalEventLogs(
+            this.stakingPool,
+            receipt,
+            'WithdrawStake',
+            withdrawStakeEventLogs
+        )
+    }
+
+    /**
+     * Claims the rewards, once they are available.
+     *
+     * @return a WithdrawRewards for each reward token paid, empty when none were.
+     */
+    async claimRewards(): Promise<ActualWithdrawRewardsEvent[]> {
+        const receipt = await transactionReceipt(
+            this.stakingPool.withdrawRewards()
+        )
+
+        return optionalEventLogs(
+            this.stakingPool,
+            receipt,
+            'WithdrawRewards',
+            withdrawRewardsEventLogs
+        )
+    }
+
+    /**
+     * Rewards the signer is expected to receive, ordered as the reward tokens.
+     */
+    async expectedRewards(): Promise<BigNumber[]> {
+        return this.stakingPool.currentExpectedRewards(
+            await this.signer.getAddress()
+        )
+    }
+}
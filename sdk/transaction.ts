@@ -0,0 +1,29 @@
+import {BaseContract, ContractReceipt, ContractTransaction} from 'ethers'
+import {EventLogParser, parseEventLog} from '../test/framework/events'
+import {hasEventLog} from '../test/framework/event-logs'
+
+/**
+ * Awaits the transaction being mined, failing when it reverted.
+ */
+export async function transactionReceipt(
+    transaction: Promise<ContractTransaction>
+): Promise<ContractReceipt> {
+    return (await transaction).wait()
+}
+
+/**
+ * Decodes the events with a matching name from the emitter, when the receipt
+ * contains any, for those events emitted only conditionally.
+ *
+ * @return the decoded events, empty when there were none.
+ */
+export function optionalEventLogs<T extends BaseContract, U>(
+    emitter: T,
+    receipt: ContractReceipt,
+    name: string,
+    parse: EventLogParser<U>
+): U[] {
+    return hasEventLog(name, emitter, receipt)
+        ? parseEventLog(emitter, receipt, name, parse)
+        : []
+}
@@ -0,0 +1,110 @@
+import {Signer} from 'ethers'
+import {BondMediator, StakingPoolMediator} from '../typechain-types'
+import {
+    ActualCreateDaoEvent,
+    createDaoEventLogs
+} from '../test/event/bond/bond-mediator-events'
+import {parseEventLog} from '../test/framework/events'
+import {deployedAddress} from '../scripts/utils/deployment-manifest'
+import {BondHandle} from './bond-handle'
+import {bondMediatorAt, stakingPoolMediatorAt} from './contracts'
+import {DaoHandle} from './dao-handle'
+import {StakingPoolHandle} from './staking-pool-handle'
+import {transactionReceipt} from './transaction'
+
+/**
+ * Addresses of the mediator proxies of a deployment.
+ */
+export type TreasuryAddresses = {
+    bondMediator: string
+    stakingPoolMediator: string
+}
+
+/**
+ * A created DAO, with the event of its creation.
+ */
+export type CreatedDao = {
+    dao: DaoHandle
+    createDao: ActualCreateDaoEvent
+}
+
+/**
+ * Mediator addresses from the deployment manifest of the network.
+ */
+export function treasuryAddresses(network: string): TreasuryAddresses {
+    return {
+        bondMediator: deployedAddress(network, 'BondMediator'),
+        stakingPoolMediator: deployedAddress(network, 'StakingPoolMediator')
+    }
+}
+
+/**
+ * Entry point for DAOs, Bonds and StakingPools, with every transaction sent
+ * by the signer.
+ */
+export class TreasuryClient {
+    readonly bondMediator: BondMediator
+    readonly stakingPoolMediator: StakingPoolMediator
+
+    constructor(readonly signer: Signer, addresses: TreasuryAddresses) {
+        this.bondMediator = bondMediatorAt(addresses.bondMediator, signer)
+        this.stakingPoolMediator = stakingPoolMediatorAt(
+            addresses.stakingPoolMediator,
+            signer
+        )
+    }
+
+    /**
+     * Creates a DAO in the BondMediator, for creating Bonds.
+     */
+    async createDao(treasury: string): Promise<CreatedDao> {
+        return this.createMediatorDao(this.bondMediator, treasury)
+    }
+
+    /**
+     * Creates a DAO in the StakingPoolMediator, for creating StakingPools.
+     */
+    async createStakingDao(treasury: string): Promise<CreatedDao> {
+        return this.createMediatorDao(this.stakingPoolMediator, treasury)
+    }
+
+    /**
+     * Existing DAO of the BondMediator.
+     */
+    dao(daoId: bigint): DaoHandle {
+        return new DaoHandle(this.bondMediator, daoId)
+    }
+
+    /**
+     * Existing DAO of the StakingPoolMediator.
+     */
+    stakingDao(daoId: bigint): DaoHandle {
+        return new DaoHandle(this.stakingPoolMediator, daoId)
+    }
+
+    bond(address: string): BondHandle {
+        return new BondHandle(this.signer, address)
+    }
+
+    stakingPool(address: string): StakingPoolHandle {
+        return new StakingPoolHandle(this.signer, address)
+    }
+
+    private async createMediatorDao(
+        mediator: BondMediator | StakingPoolMediator,
+        treasury: string
+    ): Promise<CreatedDao> {
+        const receipt = await transactionReceipt(mediator.createDao(treasury))
+        const createDao = parseEventLog(
+            mediator,
+            receipt,
+            'CreateDao',
+            createDaoEventLogs
+        )[0]
+
+        return {
+            dao: new DaoHandle(mediator, createDao.id.toBigInt()),
+            createDao
+        }
+    }
+}
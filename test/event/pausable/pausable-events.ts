@@ -0,0 +1,37 @@
+/**
+ * Events for an OpenZeppelin pausable contract.
+ */
+
+import {expect} from 'chai'
+import {Result} from '@ethersproject/abi'
+
+export type ActualPausableEvent = {
+    account: string
+}
+
+/**
+ * Shape check and conversion for a event log entry for a Paused Event.
+ */
+export function pausedEventLogs(events: Result[]): ActualPausableEvent[] {
+    return pausableEventLogs(events)
+}
+
+/**
+ * Shape check and conversion for a event log entry for an Unpaused Event.
+ */
+export function unpausedEventLogs(events: Result[]): ActualPausableEvent[] {
+    return pausableEventLogs(events)
+}
+
+function pausableEventLogs(events: Result[]): ActualPausableEvent[] {
+    const results: ActualPausableEvent[] = []
+
+    for (const event of events) {
+        expect(event?.account).is.not.undefined
+        expect(event?.account).to.be.a('string')
+
+        results.push({account: String(event.account)})
+    }
+
+    return results
+}
@@ -0,0 +1,104 @@
+import {BigNumber} from 'ethers'
+import {expect} from 'chai'
+import {Result} from '@ethersproject/abi'
+
+export type ActualDaoRoleEvent = {
+    daoId: BigNumber
+    role: string
+    account: string
+    instigator: string
+}
+
+export type ActualGlobalRoleEvent = {
+    role: string
+    account: string
+    instigator: string
+}
+
+/**
+ * Shape check and conversion for an event log entry for GrantDaoRole.
+ */
+export function grantDaoRoleEventLogs(events: Result[]): ActualDaoRoleEvent[] {
+    return daoRoleEventLogs(events)
+}
+
+/**
+ * Shape check and conversion for an event log entry for RevokeDaoRole.
+ */
+export function revokeDaoRoleEventLogs(events: Result[]): ActualDaoRoleEvent[] {
+    return daoRoleEventLogs(events)
+}
+
+/**
+ * Shape check and conversion for an event log entry for GrantGlobalRole.
+ *
+ * The role parameter of GrantGlobalRole is named 'indexedrole' in the ABI.
+ */
+export function grantGlobalRoleEventLogs(
+    events: Result[]
+): ActualGlobalRoleEvent[] {
+    const results: ActualGlobalRoleEvent[] = []
+
+    for (const event of events) {
+        expect(event?.indexedrole).is.not.undefined
+        expect(event?.indexedrole).to.be.a('string')
+        expect(event?.account).is.not.undefined
+        expect(event?.account).to.be.a('string')
+        expect(event?.instigator).is.not.undefined
+        expect(event?.instigator).to.be.a('string')
+        results.push({
+            role: String(event.indexedrole),
+            account: String(event.account),
+            instigator: String(event.instigator)
+        })
+    }
+
+    return results
+}
+
+/**
+ * Shape check and conversion for an event log entry for RevokeGlobalRole.
+ */
+export function revokeGlobalRoleEventLogs(
+    events: Result[]
+): ActualGlobalRoleEvent[] {
+    const results: ActualGlobalRoleEvent[] = []
+
+    for (const event of events) {
+        expect(event?.role).is.not.undefined
+        expect(event?.role).to.be.a('string')
+        expect(event?.account).is.not.undefined
+        expect(event?.account).to.be.a('string')
+        expect(event?.instigator).is.not.undefined
+        expect(event?.instigator).to.be.a('string')
+        results.push({
+            role: String(event.role),
+            account: String(event.account),
+            instigator: String(event.instigator)
+        })
+    }
+
+    return results
+}
+
+function daoRoleEventLogs(events: Result[]): ActualDaoRoleEvent[] {
+    const results: ActualDaoRoleEvent[] = []
+
+    for (const event of events) {
+        expect(event?.daoId).is.not.undefined
+        expect(event?.role).is.not.undefined
+        expect(event?.role).to.be.a('string')
+        expect(event?.account).is.not.undefined
+        expect(event?.account).to.be.a('string')
+        expect(event?.instigator).is.not.undefined
+        expect(event?.instigator).to.be.a('string')
+        results.push({
+            daoId: BigNumber.from(event.daoId),
+            role: String(event.role),
+            account: String(event.account),
+            instigator: String(event.instigator)
+        })
+    }
+
+    return results
+}
@@ -0,0 +1,57 @@
+import {BigNumber, Event} from 'ethers'
+import {expect} from 'chai'
+import {Result} from '@ethersproject/abi'
+import {AddStakingPoolEvent} from '../../../typechain-types/contracts/staking/StakingPoolCurator'
+
+export type ActualAddStakingPoolEvent = {
+    daoId: BigNumber
+    stakingPool: string
+    instigator: string
+}
+
+/**
+ * Shape check and conversion for a AddStakingPoolEvent.
+ */
+export function addStakingPoolEvents(
+    events: Event[]
+): ActualAddStakingPoolEvent[] {
+    const stakingPools: ActualAddStakingPoolEvent[] = []
+
+    for (const event of events) {
+        expect(event.args).is.not.undefined
+        const add = event as AddStakingPoolEvent
+
+        const args = add.args
+        expect(args?.daoId).is.not.undefined
+        expect(args?.stakingPool).is.not.undefined
+        expect(args?.instigator).is.not.undefined
+
+        stakingPools.push(add.args)
+    }
+
+    return stakingPools
+}
+
+/**
+ * Shape check and conversion for a event log entry for AddStakingPool.
+ */
+export function addStakingPoolEventLogs(
+    events: Result[]
+): ActualAddStakingPoolEvent[] {
+    const results: ActualAddStakingPoolEvent[] = []
+
+    for (const event of events) {
+        expect(event?.daoId).is.not.undefined
+        expect(event?.stakingPool).is.not.undefined
+        expect(event?.stakingPool).to.be.a('string')
+        expect(event?.instigator).is.not.undefined
+        expect(event?.instigator).to.be.a('string')
+        results.push({
+            daoId: BigNumber.from(event.daoId),
+            stakingPool: String(event.stakingPool),
+            instigator: String(event.instigator)
+        })
+    }
+
+    return results
+}
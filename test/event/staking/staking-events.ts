@@ -1,4 +1,4 @@
-import {Event} from 'ethers'
+import {BigNumber, Event} from 'ethers'
 import {
     DepositEvent,
     WithdrawStakeEvent,
@@ -7,6 +7,7 @@ import {
     NoRewardsEvent
 } from '../../../typechain-types/contracts/staking/StakingPool'
 import {expect} from 'chai'
+import {Result} from '@ethersproject/abi'
 import {
     ActualDepositEvent,
     ActualInitializeRewardsEvent,
@@ -91,3 +92,137 @@ export function initializeRewardsEvent(
 
     return rewardsEvent.args
 }
+
+export type ActualEmergencyModeEvent = {
+    admin: string
+}
+
+export type ActualRewardsAvailableTimestampEvent = {
+    rewardsAvailableTimestamp: number
+}
+
+/**
+ * Shape check and conversion for an event log entry for InitializeRewards
+ */
+export function initializeRewardsEventLogs(
+    events: Result[]
+): ActualInitializeRewardsEvent[] {
+    const results: ActualInitializeRewardsEvent[] = []
+
+    for (const event of events) {
+        expect(event?.rewardTokens).is.not.undefined
+        expect(event?.rewardTokens).to.be.a('string')
+        expect(event?.amount).is.not.undefined
+
+        results.push({
+            rewardTokens: String(event.rewardTokens),
+            amount: BigNumber.from(event.amount)
+        })
+    }
+
+    return results
+}
+
+/**
+ * Shape check and conversion for an event log entry for EmergencyMode
+ */
+export function emergencyModeEventLogs(
+    events: Result[]
+): ActualEmergencyModeEvent[] {
+    const results: ActualEmergencyModeEvent[] = []
+
+    for (const event of events) {
+        expect(event?.admin).is.not.undefined
+        expect(event?.admin).to.be.a('string')
+
+        results.push({admin: String(event.admin)})
+    }
+
+    return results
+}
+
+/**
+ * Shape check and conversion for an event log entry for RewardsAvailableTimestamp
+ */
+export function rewardsAvailableTimestampEventLogs(
+    events: Result[]
+): ActualRewardsAvailableTimestampEvent[] {
+    const results: ActualRewardsAvailableTimestampEvent[] = []
+
+    for (const event of events) {
+        expect(event?.rewardsAvailableTimestamp).is.not.undefined
+
+        results.push({
+            rewardsAvailableTimestamp: Number(event.rewardsAvailableTimestamp)
+        })
+    }
+
+    return results
+}
+
+/**
+ * Shape check and conversion for an event log entry for Deposit
+ */
+export function depositEventLogs(events: Result[]): ActualDepositEvent[] {
+    const results: ActualDepositEvent[] = []
+
+    for (const event of events) {
+        expect(event?.user).is.not.undefined
+        expect(event?.user).to.be.a('string')
+        expect(event?.depositAmount).is.not.undefined
+
+        results.push({
+            user: String(event.user),
+            depositAmount: BigNumber.from(event.depositAmount)
+        })
+    }
+
+    return results
+}
+
+/**
+ * Shape check and conversion for an event log entry for WithdrawStake
+ */
+export function withdrawStakeEventLogs(
+    events: Result[]
+): ActualWithdrawEvent[] {
+    const results: ActualWithdrawEvent[] = []
+
+    for (const event of events) {
+        expect(event?.user).is.not.undefined
+        expect(event?.user).to.be.a('string')
+        expect(event?.stake).is.not.undefined
+
+        results.push({
+            user: String(event.user),
+            stake: BigNumber.from(event.stake)
+        })
+    }
+
+    return results
+}
+
+/**
+ * Shape check and conversion for an event log entry for WithdrawRewards
+ */
+export function withdrawRewardsEventLogs(
+    events: Result[]
+): ActualWithdrawRewardsEvent[] {
+    const results: ActualWithdrawRewardsEvent[] = []
+
+    for (const event of events) {
+        expect(event?.user).is.not.undefined
+        expect(event?.user).to.be.a('string')
+        expect(event?.rewardToken).is.not.undefined
+        expect(event?.rewardToken).to.be.a('string')
+        expect(event?.rewards).is.not.undefined
+
+        results.push({
+            user: String(event.user),
+            rewardToken: String(event.rewardToken),
+            rewards: BigNumber.from(event.rewards)
+        })
+    }
+
+    return results
+}
@@ -56,3 +56,25 @@ function eventLogs<T extends BaseContract>(
 
     return found
 }
+
+/**
+ * Whether the receipt contains any event logs matching the given name, for
+ * those events emitted only conditionally.
+ *
+ * @param name name of the event within the given contract.
+ * @param emitter contract that emits the event.
+ * @param receipt that may contain events matching the given name.
+ */
+export function hasEventLog<T extends BaseContract>(
+    name: string,
+    emitter: T,
+    receipt: ContractReceipt
+): boolean {
+    const eventId = utils.id(emitter.interface.getEvent(name).format())
+
+    return receipt.logs.some(
+        (log) =>
+            emitter.address.toLowerCase() === log.address.toLowerCase() &&
+            eventId === log.topics[0]
+    )
+}
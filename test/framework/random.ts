@@ -0,0 +1,29 @@
+const MODULUS = 2147483647
+const MULTIPLIER = 16807
+
+/**
+ * Pseudo random number generator (Park–Miller), for reproducible scenarios.
+ *
+ * @param seed between 1 and 2147483646.
+ * @return generator of numbers in the range [0, 1).
+ */
+export function seededRandom(seed: number): () => number {
+    let state = seed
+
+    return () => {
+        state = (state * MULTIPLIER) % MODULUS
+
+        return (state - 1) / (MODULUS - 1)
+    }
+}
+
+/**
+ * Random integer between min and max, both inclusive.
+ */
+export function randomBetween(
+    random: () => number,
+    min: bigint,
+    max: bigint
+): bigint {
+    return min + BigInt(Math.floor(random() * Number(max - min + 1n)))
+}
@@ -0,0 +1,311 @@
+// Start - Support direct Mocha run & debug
+import hre from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+
+import chai, {expect} from 'chai'
+import {before} from 'mocha'
+import {solidity} from 'ethereum-waffle'
+import {SignerWithAddress} from '@nomiclabs/hardhat-ethers/signers'
+import {mkdtempSync, rmSync, writeFileSync} from 'fs'
+import {tmpdir} from 'os'
+import {join} from 'path'
+import {utils} from 'ethers'
+import {
+    BondFactory,
+    BondMediator,
+    PermitERC20,
+    SingleCollateralMultiRewardBond
+} from '../../../typechain-types'
+import {
+    deployContract,
+    deployContractWithProxy,
+    signer
+} from '../../framework/contracts'
+import {getTimestampNow, increaseTime} from '../../framework/time'
+import {successfulTransaction} from '../../framework/transaction'
+import {
+    ClaimHistory,
+    ClaimRecord,
+    GuarantorConfig,
+    autoClaim,
+    claimHistoryRows,
+    readAutoClaimConfig
+} from '../../../scripts/bond/auto-claim'
+
+// Wires up Waffle with Chai
+chai.use(solidity)
+
+const DAO_ID = 1n
+const DEBT_TOKENS = 1000n
+const REWARD = utils.parseEther('1000')
+const TIME_LOCK = 86400
+
+describe('Guarantor auto-claim', () => {
+    before(async () => {
+        treasury = (await signer(1)).address
+        guarantorOne = await signer(2)
+        guarantorTwo = await signer(3)
+        collateralTokens = await deployContract<PermitERC20>(
+            'PermitERC20',
+            'Collateral Tokens',
+            'CT',
+            utils.parseEther('1000000')
+        )
+        rewardTokensOne = await deployContract<PermitERC20>(
+            'PermitERC20',
+            'Reward Tokens One',
+            'RT1',
+            utils.parseEther('1000000')
+        )
+        rewardTokensTwo = await deployContract<PermitERC20>(
+            'PermitERC20',
+            'Reward Tokens Two',
+            'RT2',
+            utils.parseEther('1000000')
+        )
+        bondFactory = await deployContract<BondFactory>('BondFactory', treasury)
+    })
+
+    beforeEach(async () => {
+        mediator = await deployContractWithProxy<BondMediator>(
+            'BondMediator',
+            bondFactory.address,
+            treasury
+        )
+        await successfulTransaction(mediator.createDao(treasury))
+        await successfulTransaction(
+            mediator.whitelistCollateral(DAO_ID, collateralTokens.address)
+        )
+
+        directory = mkdtempSync(join(tmpdir(), 'auto-claim-'))
+        history = {}
+        saves = 0
+    })
+
+    afterEach(() => {
+        rmSync(directory, {recursive: true, force: true})
+    })
+
+    it('claims rewards over the thresholds', async () => {
+        const bond = await createBond()
+        await deposit(bond, guarantorOne, 500n)
+        await deposit(bond, guarantorTwo, 250n)
+        const guarantors = config({
+            thresholds: {[rewardTokensTwo.address]: '400'},
+            guarantors: [
+                {account: guarantorOne.address},
+                {
+                    account: guarantorTwo.address,
+                    thresholds: {[rewardTokensOne.address]: '300'}
+                }
+            ]
+        })
+
+        expect(await run(guarantors)).deep.equals([])
+
+        await successfulTransaction(
+            mediator.bondAllowRedemption(DAO_ID, bond.address, 'performance')
+        )
+        const unlocked = await run(guarantors)
+
+        expect(unlocked).has.length(1)
+        expect(unlocked[0].bond).equals(bond.address)
+        expect(unlocked[0].rewards).deep.equals([
+            {
+                tokens: rewardTokensOne.address,
+                symbol: await rewardTokensOne.symbol(),
+                amount: '500.0'
+            }
+        ])
+        expect(await rewardTokensOne.balanceOf(guarantorOne.address)).equals(
+            utils.parseEther('500')
+        )
+        expect(await run(guarantors)).deep.equals([])
+
+        await increaseTime(TIME_LOCK)
+        const timeLockElapsed = await run(guarantors)
+
+        expect(timeLockElapsed).has.length(1)
+        expect(timeLockElapsed[0].rewards).deep.equals([
+            {
+                tokens: rewardTokensTwo.address,
+                symbol: await rewardTokensTwo.symbol(),
+                amount: '500.0'
+            }
+        ])
+        expect(await rewardTokensOne.balanceOf(guarantorTwo.address)).equals(0)
+        expect(Object.keys(history)).deep.equals([
+            guarantorOne.address.toLowerCase()
+        ])
+        expect(history[guarantorOne.address.toLowerCase()]).deep.equals([
+            ...unlocked,
+            ...timeLockElapsed
+        ])
+        expect(saves).equals(2)
+        expect(
+            claimHistoryRows(history, guarantorOne.address).map((row) => [
+                row[2],
+                row[5]
+            ])
+        ).deep.equals([
+            [bond.address, '500.0'],
+            [bond.address, '500.0']
+        ])
+        expect(claimHistoryRows(history, guarantorTwo.address)).deep.equals([])
+    })
+
+    it('redeemed guarantor still claims', async () => {
+        const bond = await createBond()
+        await deposit(bond, guarantorOne, 500n)
+        await successfulTransaction(
+            mediator.bondAllowRedemption(DAO_ID, bond.address, 'performance')
+        )
+        await successfulTransaction(bond.connect(guarantorOne).redeem(500n))
+        await increaseTime(TIME_LOCK)
+
+        const claims = await run(
+            config({guarantors: [{account: guarantorOne.address}]})
+        )
+
+        expect(claims).has.length(1)
+        expect(claims[0].rewards.map((reward) => reward.amount)).deep.equals([
+            '500.0',
+            '500.0'
+        ])
+    })
+
+    it('paused bond is skipped', async () => {
+        const bond = await createBond()
+        await deposit(bond, guarantorOne, 500n)
+        await successfulTransaction(
+            mediator.bondAllowRedemption(DAO_ID, bond.address, 'performance')
+        )
+        await successfulTransaction(mediator.bondPause(DAO_ID, bond.address))
+
+        expect(
+            await run(config({guarantors: [{account: guarantorOne.address}]}))
+        ).deep.equals([])
+    })
+
+    it('guarantor not an account', async () => {
+        const account = utils.getAddress(utils.hexlify(utils.randomBytes(20)))
+
+        expect(await failure(run(config({guarantors: [{account}]})))).equals(
+            `Guarantor ${account} is not an account of the hardhat network`
+        )
+    })
+
+    it('threshold not an amount', () => {
+        expect(() =>
+            config({
+                guarantors: [
+                    {
+                        account: guarantorOne.address,
+                        thresholds: {[rewardTokensOne.address]: 'ten'}
+                    }
+                ]
+            })
+        ).to.throw(
+            `Spec guarantors[0].thresholds.${rewardTokensOne.address} is not an amount`
+        )
+    })
+
+    it('no guarantors', () => {
+        expect(() => config({guarantors: []})).to.throw('has no guarantors')
+    })
+
+    function run(guarantors: GuarantorConfig[]): Promise<ClaimRecord[]> {
+        return autoClaim(hre, mediator, guarantors, history, () => {
+            saves++
+        })
+    }
+
+    /**
+     * Writes and reads the configuration file.
+     */
+    function config(content: object): GuarantorConfig[] {
+        const path = join(directory, 'auto-claim.json')
+        writeFileSync(path, JSON.stringify(content))
+
+        return readAutoClaimConfig(path)
+    }
+
+    async function createBond(): Promise<SingleCollateralMultiRewardBond> {
+        await successfulTransaction(
+            mediator.createManagedBond(
+                DAO_ID,
+                {name: 'Rewarding Bond', symbol: 'RB001', data: ''},
+                {
+                    debtTokenAmount: DEBT_TOKENS,
+                    collateralTokens: collateralTokens.address,
+                    expiryTimestamp: (await getTimestampNow()) + 3600,
+                    minimumDeposit: 1n
+                },
+                [
+                    {
+                        tokens: rewardTokensOne.address,
+                        amount: REWARD,
+                        timeLock: 0
+                    },
+                    {
+                        tokens: rewardTokensTwo.address,
+                        amount: REWARD,
+                        timeLock: TIME_LOCK
+                    }
+                ]
+            )
+        )
+        const bond = <SingleCollateralMultiRewardBond>(
+            await hre.ethers.getContractAt(
+                'SingleCollateralMultiRewardBond',
+                await mediator.bondAt(
+                    DAO_ID,
+                    (await mediator.bondCount(DAO_ID)).sub(1)
+                )
+            )
+        )
+
+        await successfulTransaction(
+            rewardTokensOne.transfer(bond.address, REWARD)
+        )
+        await successfulTransaction(
+            rewardTokensTwo.transfer(bond.address, REWARD)
+        )
+
+        return bond
+    }
+
+    async function deposit(
+        bond: SingleCollateralMultiRewardBond,
+        guarantor: SignerWithAddress,
+        amount: bigint
+    ): Promise<void> {
+        await successfulTransaction(
+            collateralTokens.transfer(guarantor.address, amount)
+        )
+        await successfulTransaction(
+            collateralTokens.connect(guarantor).approve(bond.address, amount)
+        )
+        await successfulTransaction(bond.connect(guarantor).deposit(amount))
+    }
+
+    let bondFactory: BondFactory
+    let collateralTokens: PermitERC20
+    let directory: string
+    let guarantorOne: SignerWithAddress
+    let guarantorTwo: SignerWithAddress
+    let history: ClaimHistory
+    let mediator: BondMediator
+    let rewardTokensOne: PermitERC20
+    let rewardTokensTwo: PermitERC20
+    let saves: number
+    let treasury: string
+})
+
+async function failure(promise: Promise<unknown>): Promise<string> {
+    return promise.then(
+        () => 'resolved',
+        (error: Error) => error.message
+    )
+}
@@ -0,0 +1,188 @@
+// Start - Support direct Mocha run & debug
+import hre from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+
+import chai, {expect} from 'chai'
+import {before} from 'mocha'
+import {solidity} from 'ethereum-waffle'
+import {SignerWithAddress} from '@nomiclabs/hardhat-ethers/signers'
+import {BigNumber, utils} from 'ethers'
+import {
+    BondFactory,
+    ERC20PresetMinterPauser,
+    SingleCollateralMultiRewardBond
+} from '../../../typechain-types'
+import {deployContract, signer} from '../../framework/contracts'
+import {event} from '../../framework/events'
+import {successfulTransaction} from '../../framework/transaction'
+import {createBondEvents} from '../../event/bond/bond-creator-events'
+import {
+    bondTimeline,
+    bondTimelineMarkdown
+} from '../../../scripts/bond/bond-timeline'
+
+// Wires up Waffle with Chai
+chai.use(solidity)
+
+const DEBT_TOKENS = utils.parseEther('1000')
+const BOND_EXPIRY = 1900000000n
+
+describe('Bond timeline', () => {
+    before(async () => {
+        admin = await signer(0)
+        treasury = (await signer(1)).address
+        guarantorOne = await signer(2)
+        guarantorTwo = await signer(3)
+        collateralTokens = await deployContract<ERC20PresetMinterPauser>(
+            'ERC20PresetMinterPauser',
+            'Collateral Tokens',
+            'CT'
+        )
+        bondFactory = await deployContract<BondFactory>('BondFactory', treasury)
+    })
+
+    beforeEach(async () => {
+        fromBlock = await hre.ethers.provider.getBlockNumber()
+        bond = await createBond()
+    })
+
+    it('reconstructs the lifecycle', async () => {
+        await deposit(guarantorOne, utils.parseEther('500'))
+        await deposit(guarantorTwo, utils.parseEther('250'))
+        await successfulTransaction(
+            bond
+                .connect(guarantorOne)
+                .transfer(guarantorTwo.address, utils.parseEther('100'))
+        )
+        await successfulTransaction(bond.allowRedemption('performance'))
+        await successfulTransaction(
+            bond.connect(guarantorTwo).redeem(utils.parseEther('350'))
+        )
+
+        const timeline = await bondTimeline(hre, bond, bondFactory, fromBlock)
+
+        expect(timeline.symbol).equals('TB001')
+        expect(timeline.collateralTokens).equals(collateralTokens.address)
+        expect(timeline.entries.map((entry) => entry.event)).deep.equals([
+            'CreateBond',
+            'Deposit',
+            'DebtIssue',
+            'Deposit',
+            'DebtIssue',
+            'Transfer',
+            'AllowRedemption',
+            'PartialCollateral',
+            'RedemptionTimestampUpdate',
+            'Redemption'
+        ])
+        expect(timeline.entries[0].description).equals(
+            `Created by ${admin.address} issuing 1000.0 TB001, treasury ${treasury}`
+        )
+        expect(timeline.entries[5].description).equals(
+            `${guarantorOne.address} transferred 100.0 TB001 to ${guarantorTwo.address}`
+        )
+        expect(timeline.entries[6].description).equals(
+            `${admin.address} allowed redemption: performance`
+        )
+        expect(timeline.entries[7].description).equals(
+            'Partial collateral of 750.0 CT with 250.0 TB001 remaining'
+        )
+        expect(timeline.entries[9].balances).deep.equals({
+            [guarantorOne.address]: '400.0',
+            [guarantorTwo.address]: '0.0'
+        })
+    })
+
+    it('lowercase Bond address', async () => {
+        await deposit(guarantorOne, utils.parseEther('500'))
+        const lowercase = <SingleCollateralMultiRewardBond>(
+            await hre.ethers.getContractAt(
+                'SingleCollateralMultiRewardBond',
+                bond.address.toLowerCase()
+            )
+        )
+
+        const timeline = await bondTimeline(
+            hre,
+            lowercase,
+            bondFactory,
+            fromBlock
+        )
+
+        expect(timeline.entries.map((entry) => entry.event)).deep.equals([
+            'CreateBond',
+            'Deposit',
+            'DebtIssue'
+        ])
+    })
+
+    it('Markdown has the final balances', async () => {
+        await deposit(guarantorOne, utils.parseEther('500'))
+
+        const markdown = bondTimelineMarkdown(
+            await bondTimeline(hre, bond, bondFactory, fromBlock)
+        )
+
+        expect(markdown).contains('# Timeline Bond (TB001)')
+        expect(markdown).contains(`| ${guarantorOne.address} | 500.0 |`)
+    })
+
+    it('starts from the block', async () => {
+        await deposit(guarantorOne, utils.parseEther('500'))
+        const later = await hre.ethers.provider.getBlockNumber()
+
+        const timeline = await bondTimeline(hre, bond, bondFactory, later)
+
+        expect(timeline.entries.map((entry) => entry.event)).deep.equals([
+            'Deposit',
+            'DebtIssue'
+        ])
+    })
+
+    async function createBond(): Promise<SingleCollateralMultiRewardBond> {
+        const receipt = await successfulTransaction(
+            bondFactory.createBond(
+                {name: 'Timeline Bond', symbol: 'TB001', data: ''},
+                {
+                    debtTokenAmount: DEBT_TOKENS,
+                    collateralTokens: collateralTokens.address,
+                    expiryTimestamp: BOND_EXPIRY,
+                    minimumDeposit: 1n
+                },
+                [],
+                treasury
+            )
+        )
+        const created = createBondEvents([event('CreateBond', receipt)])[0]
+
+        return <SingleCollateralMultiRewardBond>(
+            await hre.ethers.getContractAt(
+                'SingleCollateralMultiRewardBond',
+                created.bond
+            )
+        )
+    }
+
+    async function deposit(
+        guarantor: SignerWithAddress,
+        amount: BigNumber
+    ): Promise<void> {
+        await successfulTransaction(
+            collateralTokens.mint(guarantor.address, amount)
+        )
+        await successfulTransaction(
+            collateralTokens.connect(guarantor).approve(bond.address, amount)
+        )
+        await successfulTransaction(bond.connect(guarantor).deposit(amount))
+    }
+
+    let admin: SignerWithAddress
+    let bond: SingleCollateralMultiRewardBond
+    let bondFactory: BondFactory
+    let collateralTokens: ERC20PresetMinterPauser
+    let fromBlock: number
+    let guarantorOne: SignerWithAddress
+    let guarantorTwo: SignerWithAddress
+    let treasury: string
+})
@@ -0,0 +1,327 @@
+// Start - Support direct Mocha run & debug
+import 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+
+import chai, {expect} from 'chai'
+import {before} from 'mocha'
+import {solidity} from 'ethereum-waffle'
+import {SignerWithAddress} from '@nomiclabs/hardhat-ethers/signers'
+import {
+    ERC20PresetMinterPauser,
+    ERC20SingleCollateralBondBox
+} from '../../../typechain-types'
+import {deployContract, signer} from '../../framework/contracts'
+import {randomBetween, seededRandom} from '../../framework/random'
+import {successfulTransaction} from '../../framework/transaction'
+import {
+    RedemptionState,
+    applyRedemptionRatio,
+    calculateRedemptionRatio,
+    readRedemptionRatio,
+    readRedemptionState,
+    redemptionAmount,
+    redemptionRatio,
+    simulateRedemption,
+    simulateSlash
+} from '../../../scripts/bond/redemption-calculator'
+
+// Wires up Waffle with Chai
+chai.use(solidity)
+
+const DATA = 'performance factors;assessment date;rewards pool'
+const BOND_EXPIRY = 750000n
+const MINIMUM_DEPOSIT = 1n
+const REDEMPTION_REASON = 'test reason string'
+const SLASH_REASON = 'example slash reason'
+const RANDOM_SEED = 20221019
+const RANDOM_SCENARIOS = 12
+const COLLATERAL_SUPPLY = 1000000000n
+
+describe('Redemption calculator', () => {
+    before(async () => {
+        admin = await signer(0)
+        treasury = (await signer(1)).address
+        guarantors = [await signer(2), await signer(3), await signer(4)]
+        random = seededRandom(RANDOM_SEED)
+    })
+
+    beforeEach(async () => {
+        collateralTokens = await deployContract<ERC20PresetMinterPauser>(
+            'ERC20PresetMinterPauser',
+            'Collateral Tokens',
+            'CT'
+        )
+        await successfulTransaction(
+            collateralTokens.mint(admin.address, COLLATERAL_SUPPLY)
+        )
+    })
+
+    describe('hypothetical', () => {
+        it('full collateral redeems one to one', () => {
+            const state = {
+                collateral: 500n,
+                collateralSlashed: 0n,
+                debtTokens: 0n,
+                totalSupply: 500n
+            }
+
+            expect(redemptionRatio(state)).equals(0n)
+            expect(redemptionAmount(state, 0n, 125n)).equals(125n)
+        })
+
+        it('partial collateral redeems one to one', () => {
+            const state = {
+                collateral: 300n,
+                collateralSlashed: 0n,
+                debtTokens: 200n,
+                totalSupply: 500n
+            }
+
+            expect(redemptionRatio(state)).equals(0n)
+            expect(redemptionAmount(state, 0n, 300n)).equals(300n)
+        })
+
+        it('slashing floors the ratio', () => {
+            const state = simulateSlash(
+                {
+                    collateral: 3000n,
+                    collateralSlashed: 0n,
+                    debtTokens: 0n,
+                    totalSupply: 3000n
+                },
+                1001n
+            )
+
+            expect(calculateRedemptionRatio(state)).equals(6663n)
+            expect(applyRedemptionRatio(6663n, 7n)).equals(4n)
+        })
+
+        it('slash cannot exceed collateral', () => {
+            expect(() =>
+                simulateSlash(
+                    {
+                        collateral: 10n,
+                        collateralSlashed: 0n,
+                        debtTokens: 0n,
+                        totalSupply: 10n
+                    },
+                    11n
+                )
+            ).to.throw('Slash of 11 exceeds the 10 collateral held')
+        })
+
+        it('redemption cannot exceed guarantor debt tokens', () => {
+            expect(() =>
+                simulateRedemption(
+                    {
+                        collateral: 10n,
+                        collateralSlashed: 0n,
+                        debtTokens: 5n,
+                        totalSupply: 15n
+                    },
+                    0n,
+                    11n
+                )
+            ).to.throw(
+                'Redemption of 11 exceeds the 10 debt tokens held by guarantors'
+            )
+        })
+    })
+
+    describe('matches on-chain redeem', () => {
+        for (let i = 0; i < RANDOM_SCENARIOS; i++) {
+            it(`random scenario ${i}`, verifyRandomScenario)
+        }
+
+        it('fully slashed', async () => {
+            await verifyScenario({
+                debtTokens: 1000n,
+                deposits: [600n, 400n],
+                slashes: [1000n],
+                redemptions: [[600n], [1n, 399n]]
+            })
+        })
+
+        it('partial collateral and slashed', async () => {
+            await verifyScenario({
+                debtTokens: 10000n,
+                deposits: [3333n, 17n],
+                slashes: [1234n, 7n],
+                redemptions: [[1n, 3332n], [17n]]
+            })
+        })
+
+        it('debt tokens received after allowing redemption', async () => {
+            bond = await createBond(1000n)
+            await depositBond(guarantors[0], 600n)
+            await depositBond(guarantors[1], 400n)
+            await successfulTransaction(bond.allowRedemption(REDEMPTION_REASON))
+            await successfulTransaction(
+                bond.connect(guarantors[0]).transfer(bond.address, 100n)
+            )
+            const expected = simulateRedemption(
+                await readRedemptionState(bond),
+                0n,
+                400n
+            )
+            const balance = await collateralTokens.balanceOf(
+                guarantors[1].address
+            )
+
+            await successfulTransaction(
+                bond.connect(guarantors[1]).redeem(400n)
+            )
+
+            expect(expected.collateralAmount).equals(400n)
+            expect(
+                (await collateralTokens.balanceOf(guarantors[1].address))
+                    .sub(balance)
+                    .toBigInt()
+            ).equals(expected.collateralAmount)
+        })
+    })
+
+    async function verifyRandomScenario(): Promise<void> {
+        await verifyScenario(randomScenario(random))
+    }
+
+    /**
+     * Plays the scenario against a Bond, verifying each slash and redemption
+     * against the calculator.
+     */
+    async function verifyScenario(scenario: Scenario): Promise<void> {
+        bond = await createBond(scenario.debtTokens)
+
+        for (let i = 0; i < scenario.deposits.length; i++) {
+            await depositBond(guarantors[i], scenario.deposits[i])
+        }
+
+        for (const slash of scenario.slashes) {
+            const expected = simulateSlash(
+                await readRedemptionState(bond),
+                slash
+            )
+            await successfulTransaction(bond.slash(slash, SLASH_REASON))
+            expect(await readRedemptionState(bond)).deep.equals(expected)
+        }
+
+        const ratio = redemptionRatio(await readRedemptionState(bond))
+        const fromBlock = await bond.provider.getBlockNumber()
+        await successfulTransaction(bond.allowRedemption(REDEMPTION_REASON))
+        expect(await readRedemptionRatio(bond, fromBlock)).equals(ratio)
+
+        let state: RedemptionState = await readRedemptionState(bond)
+
+        for (let i = 0; i < scenario.redemptions.length; i++) {
+            for (const amount of scenario.redemptions[i]) {
+                const expected = simulateRedemption(state, ratio, amount)
+                const balance = await collateralTokens.balanceOf(
+                    guarantors[i].address
+                )
+
+                await successfulTransaction(
+                    bond.connect(guarantors[i]).redeem(amount)
+                )
+
+                const redeemed = (
+                    await collateralTokens.balanceOf(guarantors[i].address)
+                ).sub(balance)
+                expect(redeemed.toBigInt()).equals(expected.collateralAmount)
+                state = await readRedemptionState(bond)
+                expect(state).deep.equals(expected.state)
+            }
+        }
+    }
+
+    async function depositBond(
+        guarantor: SignerWithAddress,
+        pledge: bigint
+    ): Promise<void> {
+        await collateralTokens.transfer(guarantor.address, pledge)
+        await collateralTokens
+            .connect(guarantor)
+            .increaseAllowance(bond.address, pledge)
+        await successfulTransaction(bond.connect(guarantor).deposit(pledge))
+    }
+
+    async function createBond(
+        debtTokenAmount: bigint
+    ): Promise<ERC20SingleCollateralBondBox> {
+        const created = await deployContract<ERC20SingleCollateralBondBox>(
+            'ERC20SingleCollateralBondBox'
+        )
+
+        await created.initialize(
+            {
+                name: 'Redemption Calculator Debt Tokens',
+                symbol: 'RCDT',
+                data: DATA
+            },
+            {
+                debtTokenAmount,
+                collateralTokens: collateralTokens.address,
+                expiryTimestamp: BOND_EXPIRY,
+                minimumDeposit: MINIMUM_DEPOSIT
+            },
+            treasury
+        )
+
+        return created
+    }
+
+    let admin: SignerWithAddress
+    let bond: ERC20SingleCollateralBondBox
+    let treasury: string
+    let collateralTokens: ERC20PresetMinterPauser
+    let guarantors: SignerWithAddress[]
+    let random: () => number
+})
+
+type Scenario = {
+    debtTokens: bigint
+    deposits: bigint[]
+    slashes: bigint[]
+    redemptions: bigint[][]
+}
+
+/**
+ * Deposits from one to three guarantors, sometimes reaching full collateral,
+ * up to two slashes, then each guarantor redeeming in one or two parts.
+ */
+function randomScenario(random: () => number): Scenario {
+    const debtTokens = randomBetween(random, 1000n, 10000000n)
+    const guarantors = randomBetween(random, 1n, 3n)
+    const deposits: bigint[] = []
+    let remaining = debtTokens
+
+    for (let i = 0n; i < guarantors; i++) {
+        const deposit =
+            i === guarantors - 1n && random() < 0.3
+                ? remaining
+                : randomBetween(random, 1n, remaining / (guarantors - i))
+        deposits.push(deposit)
+        remaining -= deposit
+    }
+
+    const slashes: bigint[] = []
+    let collateral = debtTokens - remaining
+
+    for (
+        let i = randomBetween(random, 0n, 2n);
+        i > 0n && collateral > 0n;
+        i--
+    ) {
+        const slash = randomBetween(random, 1n, collateral)
+        slashes.push(slash)
+        collateral -= slash
+    }
+
+    const redemptions = deposits.map((deposit) => {
+        const first = randomBetween(random, 1n, deposit)
+
+        return first < deposit ? [first, deposit - first] : [first]
+    })
+
+    return {debtTokens, deposits, slashes, redemptions}
+}
@@ -0,0 +1,187 @@
+// Start - Support direct Mocha run & debug
+import hre from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+
+import chai, {expect} from 'chai'
+import {before} from 'mocha'
+import {solidity} from 'ethereum-waffle'
+import {SignerWithAddress} from '@nomiclabs/hardhat-ethers/signers'
+import {BigNumber, utils} from 'ethers'
+import {
+    BondFactory,
+    ERC20PresetMinterPauser,
+    SingleCollateralMultiRewardBond
+} from '../../../typechain-types'
+import {deployContract, signer} from '../../framework/contracts'
+import {event} from '../../framework/events'
+import {successfulTransaction} from '../../framework/transaction'
+import {createBondEvents} from '../../event/bond/bond-creator-events'
+import {
+    rewardClaimants,
+    rewardSchedule,
+    rewardScheduleICalendar
+} from '../../../scripts/bond/reward-schedule'
+
+// Wires up Waffle with Chai
+chai.use(solidity)
+
+const DEBT_TOKENS = utils.parseEther('1000')
+const REWARD = utils.parseEther('100')
+const TIME_LOCK = 86400
+const BOND_EXPIRY = 1900000000n
+
+describe('Reward schedule', () => {
+    before(async () => {
+        treasury = (await signer(1)).address
+        guarantorOne = await signer(2)
+        guarantorTwo = await signer(3)
+        collateralTokens = await deployContract<ERC20PresetMinterPauser>(
+            'ERC20PresetMinterPauser',
+            'Collateral Tokens',
+            'CT'
+        )
+        rewardTokensOne = await deployContract<ERC20PresetMinterPauser>(
+            'ERC20PresetMinterPauser',
+            'Reward One',
+            'RW1'
+        )
+        rewardTokensTwo = await deployContract<ERC20PresetMinterPauser>(
+            'ERC20PresetMinterPauser',
+            'Reward Two',
+            'RW2'
+        )
+        bondFactory = await deployContract<BondFactory>('BondFactory', treasury)
+    })
+
+    beforeEach(async () => {
+        fromBlock = await hre.ethers.provider.getBlockNumber()
+        bond = await createBond()
+        await deposit(guarantorOne, utils.parseEther('600'))
+        await deposit(guarantorTwo, utils.parseEther('400'))
+    })
+
+    it('claimants from the reward debt', async () => {
+        expect(await rewardClaimants(bond, fromBlock)).deep.equals([
+            guarantorOne.address,
+            guarantorTwo.address
+        ])
+    })
+
+    it('locked until redemption is allowed', async () => {
+        const schedule = await rewardSchedule(hre, bond, [guarantorTwo.address])
+
+        expect(schedule.redemptionTimestamp).is.undefined
+        expect(
+            schedule.unlocks.map((unlock) => [
+                unlock.claimant,
+                unlock.symbol,
+                unlock.unlocked,
+                unlock.rewardDebt
+            ])
+        ).deep.equals([
+            [guarantorTwo.address, 'RW1', false, '40.0'],
+            [guarantorTwo.address, 'RW2', false, '40.0']
+        ])
+        expect(schedule.unlocks[0].unlockTimestamp).is.undefined
+        expect(rewardScheduleICalendar(schedule)).does.not.contain(
+            'BEGIN:VEVENT'
+        )
+    })
+
+    it('claimable by each claimant once unlocked', async () => {
+        await successfulTransaction(bond.allowRedemption('performance'))
+        const redemption = (await bond.redemptionTimestamp()).toNumber()
+        const timeLockExpiry = redemption + TIME_LOCK
+
+        const schedule = await rewardSchedule(hre, bond, [
+            guarantorOne.address,
+            guarantorTwo.address
+        ])
+
+        expect(
+            schedule.unlocks.map((unlock) => [
+                unlock.claimant,
+                unlock.symbol,
+                unlock.unlocked,
+                unlock.claimable
+            ])
+        ).deep.equals([
+            [guarantorOne.address, 'RW1', true, '60.0'],
+            [guarantorOne.address, 'RW2', false, '0.0'],
+            [guarantorTwo.address, 'RW1', true, '40.0'],
+            [guarantorTwo.address, 'RW2', false, '0.0']
+        ])
+        expect(schedule.unlocks[1].unlockTimestamp).equals(
+            new Date(timeLockExpiry * 1000).toISOString()
+        )
+        expect(rewardScheduleICalendar(schedule)).contains(
+            `UID:${bond.address}-${guarantorTwo.address}-${rewardTokensTwo.address}`
+        )
+    })
+
+    async function createBond(): Promise<SingleCollateralMultiRewardBond> {
+        const receipt = await successfulTransaction(
+            bondFactory.createBond(
+                {name: 'Rewarding Bond', symbol: 'RB001', data: ''},
+                {
+                    debtTokenAmount: DEBT_TOKENS,
+                    collateralTokens: collateralTokens.address,
+                    expiryTimestamp: BOND_EXPIRY,
+                    minimumDeposit: 1n
+                },
+                [
+                    {
+                        tokens: rewardTokensOne.address,
+                        amount: REWARD,
+                        timeLock: 0
+                    },
+                    {
+                        tokens: rewardTokensTwo.address,
+                        amount: REWARD,
+                        timeLock: TIME_LOCK
+                    }
+                ],
+                treasury
+            )
+        )
+        const created = <SingleCollateralMultiRewardBond>(
+            await hre.ethers.getContractAt(
+                'SingleCollateralMultiRewardBond',
+                createBondEvents([event('CreateBond', receipt)])[0].bond
+            )
+        )
+
+        await successfulTransaction(
+            rewardTokensOne.mint(created.address, REWARD)
+        )
+        await successfulTransaction(
+            rewardTokensTwo.mint(created.address, REWARD)
+        )
+
+        return created
+    }
+
+    async function deposit(
+        guarantor: SignerWithAddress,
+        amount: BigNumber
+    ): Promise<void> {
+        await successfulTransaction(
+            collateralTokens.mint(guarantor.address, amount)
+        )
+        await successfulTransaction(
+            collateralTokens.connect(guarantor).approve(bond.address, amount)
+        )
+        await successfulTransaction(bond.connect(guarantor).deposit(amount))
+    }
+
+    let bond: SingleCollateralMultiRewardBond
+    let bondFactory: BondFactory
+    let collateralTokens: ERC20PresetMinterPauser
+    let fromBlock: number
+    let guarantorOne: SignerWithAddress
+    let guarantorTwo: SignerWithAddress
+    let rewardTokensOne: ERC20PresetMinterPauser
+    let rewardTokensTwo: ERC20PresetMinterPauser
+    let treasury: string
+})
@@ -0,0 +1,156 @@
+// Start - Support direct Mocha run & debug
+import hre from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+
+import chai, {expect} from 'chai'
+import {before} from 'mocha'
+import {solidity} from 'ethereum-waffle'
+import {
+    BondFactory,
+    BondMediator,
+    ERC20PresetMinterPauser
+} from '../../../typechain-types'
+import {
+    deployContract,
+    deployContractWithProxy,
+    signer
+} from '../../framework/contracts'
+import {successfulTransaction} from '../../framework/transaction'
+import {
+    DAO_REPORT_COLUMNS,
+    DaoReport,
+    bondMediatorReport,
+    daoReportRows
+} from '../../../scripts/dao/dao-report'
+
+// Wires up Waffle with Chai
+chai.use(solidity)
+
+const BOND_EXPIRY = 1900000000n
+
+describe('DAO report', () => {
+    before(async () => {
+        treasury = (await signer(1)).address
+        collateralTokens = await deployContract<ERC20PresetMinterPauser>(
+            'ERC20PresetMinterPauser',
+            'Collateral Tokens',
+            'CT'
+        )
+        bondFactory = await deployContract<BondFactory>('BondFactory', treasury)
+    })
+
+    beforeEach(async () => {
+        mediator = await deployContractWithProxy<BondMediator>(
+            'BondMediator',
+            bondFactory.address,
+            treasury
+        )
+        await successfulTransaction(mediator.createDao(treasury))
+        await successfulTransaction(mediator.createDao(treasury))
+        await successfulTransaction(mediator.setDaoMetaData(1n, 'Bonding DAO'))
+        await successfulTransaction(
+            mediator.whitelistCollateral(1n, collateralTokens.address)
+        )
+        await successfulTransaction(
+            mediator.createManagedBond(
+                1n,
+                {name: 'Report Bond', symbol: 'RB001', data: ''},
+                {
+                    debtTokenAmount: 100n,
+                    collateralTokens: collateralTokens.address,
+                    expiryTimestamp: BOND_EXPIRY,
+                    minimumDeposit: 1n
+                },
+                []
+            )
+        )
+    })
+
+    it('reports every DAO', async () => {
+        const reports = await bondMediatorReport(hre, mediator)
+
+        expect(reports.map((dao) => dao.daoId)).deep.equals(['1', '2'])
+        expect(reports[0].metaData).equals('Bonding DAO')
+        expect(reports[0].collateralWhitelist).deep.equals(['CT'])
+        expect(reports[0].bonds.map((bond) => bond.symbol)).deep.equals([
+            'RB001'
+        ])
+        expect(reports[1].collateralWhitelist).deep.equals([])
+        expect(reports[1].bonds).deep.equals([])
+    })
+
+    it('rows start with the DAO configuration', async () => {
+        const rows = daoReportRows(await bondMediatorReport(hre, mediator))
+
+        expect(rows.length).equals(2)
+        expect(rows[0].length).equals(DAO_REPORT_COLUMNS.length)
+        expect(rows[0].slice(0, 7)).deep.equals([
+            'BondMediator',
+            '1',
+            treasury,
+            'Bonding DAO',
+            'CT',
+            'Bond',
+            (await mediator.bondAt(1n, 0n)).toString()
+        ])
+    })
+
+    it('DAO without Bonds or StakingPools has a row', async () => {
+        const rows = daoReportRows(await bondMediatorReport(hre, mediator))
+
+        expect(rows[1]).deep.equals([
+            'BondMediator',
+            '2',
+            treasury,
+            '',
+            '',
+            ...Array<string>(DAO_REPORT_COLUMNS.length - 5).fill('')
+        ])
+    })
+
+    it('StakingPool row ends with the epoch end', () => {
+        const rows = daoReportRows([stakingPoolDao()])
+
+        expect(rows.length).equals(1)
+        expect(rows[0].slice(5, 7)).deep.equals(['StakingPool', 'pool'])
+        expect(rows[0][DAO_REPORT_COLUMNS.length - 1]).equals(
+            '2030-01-01T01:00:00.000Z'
+        )
+    })
+
+    let bondFactory: BondFactory
+    let collateralTokens: ERC20PresetMinterPauser
+    let mediator: BondMediator
+    let treasury: string
+})
+
+function stakingPoolDao(): DaoReport {
+    return {
+        mediator: 'StakingPoolMediator',
+        daoId: '1',
+        treasury: 'treasury',
+        metaData: '',
+        collateralWhitelist: [],
+        bonds: [],
+        stakingPools: [
+            {
+                address: 'pool',
+                treasury: 'treasury',
+                rewardType: 'FLOATING',
+                stakeToken: 'stake',
+                stakeSymbol: 'ST',
+                minTotalPoolStake: '0.0',
+                maxTotalPoolStake: '10.0',
+                minimumContribution: '1.0',
+                totalStaked: '5.0',
+                epochStart: '2030-01-01T00:00:00.000Z',
+                epochDurationSeconds: 3600,
+                rewardsAvailable: '2030-01-01T01:00:00.000Z',
+                rewards: [],
+                emergencyMode: false,
+                paused: false
+            }
+        ]
+    }
+}
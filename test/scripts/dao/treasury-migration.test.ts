@@ -0,0 +1,247 @@
+// Start - Support direct Mocha run & debug
+import hre from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+
+import chai, {expect} from 'chai'
+import {before} from 'mocha'
+import {solidity} from 'ethereum-waffle'
+import {mkdtempSync, readFileSync, rmSync} from 'fs'
+import {tmpdir} from 'os'
+import {join} from 'path'
+import {
+    BondFactory,
+    BondMediator,
+    PermitERC20,
+    SingleCollateralMultiRewardBond
+} from '../../../typechain-types'
+import {
+    deployContract,
+    deployContractWithProxy,
+    signer
+} from '../../framework/contracts'
+import {successfulTransaction} from '../../framework/transaction'
+import {
+    TreasuryMigration,
+    TreasuryMigrationOptions,
+    migrateTreasury
+} from '../../../scripts/dao/treasury-migration'
+import {SafeBatch} from '../../../scripts/utils/safe-batch'
+
+// Wires up Waffle with Chai
+chai.use(solidity)
+
+const DAO_ID = 1n
+const BOND_EXPIRY = 1900000000n
+
+describe('Treasury migration', () => {
+    before(async () => {
+        treasury = (await signer(1)).address
+        replacement = (await signer(2)).address
+        collateralTokens = await deployContract<PermitERC20>(
+            'PermitERC20',
+            'Collateral Tokens',
+            'CT',
+            1000n
+        )
+        bondFactory = await deployContract<BondFactory>('BondFactory', treasury)
+    })
+
+    beforeEach(async () => {
+        directory = mkdtempSync(join(tmpdir(), 'treasury-migration-'))
+        mediator = await deployContractWithProxy<BondMediator>(
+            'BondMediator',
+            bondFactory.address,
+            treasury
+        )
+        await successfulTransaction(mediator.createDao(treasury))
+        await successfulTransaction(
+            mediator.whitelistCollateral(DAO_ID, collateralTokens.address)
+        )
+
+        bonds = [await createBond(), await createBond(), await createBond()]
+        await successfulTransaction(
+            mediator.setDaoTreasury(DAO_ID, replacement)
+        )
+        bonds.push(await createBond())
+    })
+
+    afterEach(() => {
+        rmSync(directory, {recursive: true, force: true})
+    })
+
+    it('aligns every bond with the DAO treasury', async () => {
+        expect(await treasuries()).deep.equals([
+            treasury,
+            treasury,
+            treasury,
+            replacement
+        ])
+
+        const migration = await migrate()
+
+        expect(migration.daoTreasury).equals(replacement)
+        expect(outcomes(migration)).deep.equals([
+            'migrated',
+            'migrated',
+            'migrated',
+            'aligned'
+        ])
+        expect(migration.bonds[0].treasury).equals(treasury)
+        expect(migration.bonds[0].transactionHash).is.not.undefined
+        expect(await treasuries()).deep.equals([
+            replacement,
+            replacement,
+            replacement,
+            replacement
+        ])
+
+        expect(outcomes(await migrate())).deep.equals([
+            'aligned',
+            'aligned',
+            'aligned',
+            'aligned'
+        ])
+    })
+
+    it('dry run', async () => {
+        expect(outcomes(await migrate({dryRun: true}))).deep.equals([
+            'dry run',
+            'dry run',
+            'dry run',
+            'aligned'
+        ])
+        expect(await treasuries()).deep.equals([
+            treasury,
+            treasury,
+            treasury,
+            replacement
+        ])
+    })
+
+    it('paused bond is migrated once unpaused', async () => {
+        await successfulTransaction(
+            mediator.bondPause(DAO_ID, bonds[1].address)
+        )
+
+        expect(outcomes(await migrate())).deep.equals([
+            'migrated',
+            'paused',
+            'migrated',
+            'aligned'
+        ])
+        expect(await bonds[1].treasury()).equals(treasury)
+
+        await successfulTransaction(
+            mediator.bondUnpause(DAO_ID, bonds[1].address)
+        )
+
+        expect(outcomes(await migrate())).deep.equals([
+            'aligned',
+            'migrated',
+            'aligned',
+            'aligned'
+        ])
+        expect(await treasuries()).deep.equals([
+            replacement,
+            replacement,
+            replacement,
+            replacement
+        ])
+    })
+
+    it('batches the migration', async () => {
+        const batch = join(directory, 'batch.json')
+
+        expect(outcomes(await migrate({batch}))).deep.equals([
+            'batched',
+            'batched',
+            'batched',
+            'aligned'
+        ])
+        expect(
+            (<SafeBatch>(
+                JSON.parse(readFileSync(batch, 'utf8'))
+            )).transactions.map((transaction) => [
+                transaction.contractMethod.name,
+                transaction.contractInputsValues.bond,
+                transaction.contractInputsValues.replacement
+            ])
+        ).deep.equals(
+            bonds
+                .slice(0, 3)
+                .map((bond) => ['bondSetTreasury', bond.address, replacement])
+        )
+        expect(await bonds[0].treasury()).equals(treasury)
+    })
+
+    it('unknown DAO', async () => {
+        expect(
+            await failure(migrateTreasury(hre, mediator, 2n, {dryRun: false}))
+        ).equals('No DAO 2 with BondMediator')
+    })
+
+    function migrate(
+        options: Partial<TreasuryMigrationOptions> = {}
+    ): Promise<TreasuryMigration> {
+        return migrateTreasury(hre, mediator, DAO_ID, {
+            dryRun: false,
+            ...options
+        })
+    }
+
+    async function treasuries(): Promise<string[]> {
+        const addresses: string[] = []
+
+        for (const bond of bonds) {
+            addresses.push(await bond.treasury())
+        }
+
+        return addresses
+    }
+
+    async function createBond(): Promise<SingleCollateralMultiRewardBond> {
+        await successfulTransaction(
+            mediator.createManagedBond(
+                DAO_ID,
+                {name: 'Treasury Bond', symbol: 'TB001', data: ''},
+                {
+                    debtTokenAmount: 100n,
+                    collateralTokens: collateralTokens.address,
+                    expiryTimestamp: BOND_EXPIRY,
+                    minimumDeposit: 1n
+                },
+                []
+            )
+        )
+
+        return <SingleCollateralMultiRewardBond>(
+            await hre.ethers.getContractAt(
+                'SingleCollateralMultiRewardBond',
+                await mediator.bondAt(
+                    DAO_ID,
+                    (await mediator.bondCount(DAO_ID)).sub(1)
+                )
+            )
+        )
+    }
+
+    let bondFactory: BondFactory
+    let bonds: SingleCollateralMultiRewardBond[]
+    let collateralTokens: PermitERC20
+    let directory: string
+    let mediator: BondMediator
+    let replacement: string
+    let treasury: string
+})
+
+function outcomes(migration: TreasuryMigration): string[] {
+    return migration.bonds.map((bond) => bond.outcome)
+}
+
+async function failure(promise: Promise<unknown>): Promise<string> {
+    return promise.then(
+        () => 'resolved',
+        (error: Error) => error.message
+    )
+}
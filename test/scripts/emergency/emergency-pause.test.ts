@@ -0,0 +1,276 @@
+// Start - Support direct Mocha run & debug
+import hre from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+
+import chai, {expect} from 'chai'
+import {before} from 'mocha'
+import {solidity} from 'ethereum-waffle'
+import {mkdtempSync, readFileSync, rmSync} from 'fs'
+import {tmpdir} from 'os'
+import {join} from 'path'
+import {
+    BondFactory,
+    BondMediator,
+    PermitERC20,
+    SingleCollateralMultiRewardBond,
+    StakingPool,
+    StakingPoolFactory,
+    StakingPoolMediator
+} from '../../../typechain-types'
+import {
+    deployContract,
+    deployContractWithProxy,
+    signer
+} from '../../framework/contracts'
+import {getTimestampNow} from '../../framework/time'
+import {successfulTransaction} from '../../framework/transaction'
+import {RewardType} from '../../event/staking/staking-events'
+import {
+    EmergencyOptions,
+    EmergencyReport,
+    pauseDao,
+    unpauseDao
+} from '../../../scripts/emergency/emergency-pause'
+import {SafeBatch} from '../../../scripts/utils/safe-batch'
+
+// Wires up Waffle with Chai
+chai.use(solidity)
+
+const DAO_ID = 1n
+const BOND_EXPIRY = 1900000000n
+
+describe('Emergency pause', () => {
+    before(async () => {
+        treasury = (await signer(1)).address
+        collateralTokens = await deployContract<PermitERC20>(
+            'PermitERC20',
+            'Collateral Tokens',
+            'CT',
+            1000n
+        )
+        bondFactory = await deployContract<BondFactory>('BondFactory', treasury)
+        stakingPoolFactory = await deployContract<StakingPoolFactory>(
+            'StakingPoolFactory'
+        )
+        await stakingPoolFactory.initialize(treasury)
+    })
+
+    beforeEach(async () => {
+        directory = mkdtempSync(join(tmpdir(), 'emergency-pause-'))
+        bondMediator = await deployContractWithProxy<BondMediator>(
+            'BondMediator',
+            bondFactory.address,
+            treasury
+        )
+        stakingPoolMediator =
+            await deployContractWithProxy<StakingPoolMediator>(
+                'StakingPoolMediator',
+                stakingPoolFactory.address,
+                treasury
+            )
+
+        for (const mediator of [bondMediator, stakingPoolMediator]) {
+            await successfulTransaction(mediator.createDao(treasury))
+            await successfulTransaction(
+                mediator.whitelistCollateral(DAO_ID, collateralTokens.address)
+            )
+        }
+
+        bonds = [await createBond(), await createBond()]
+        stakingPool = await createStakingPool()
+    })
+
+    afterEach(() => {
+        rmSync(directory, {recursive: true, force: true})
+    })
+
+    it('pauses the DAO', async () => {
+        await successfulTransaction(bondMediator.bondPause(DAO_ID, bonds[1]))
+
+        const report = await pauseDao(
+            hre,
+            bondMediator,
+            stakingPoolMediator,
+            DAO_ID,
+            {mediators: false}
+        )
+
+        expect(outcomes(report)).deep.equals([
+            ['Bond', bonds[0], 'paused'],
+            ['Bond', bonds[1], 'unchanged'],
+            ['StakingPool', stakingPool, 'paused']
+        ])
+        expect(report.changes[0].transactionHash).is.not.undefined
+        expect(await isPaused(bonds[0], 'SingleCollateralMultiRewardBond')).is
+            .true
+        expect(await isPaused(stakingPool, 'StakingPool')).is.true
+        expect(await bondMediator.paused()).is.false
+    })
+
+    it('pauses and unpauses the DAO with the mediators', async () => {
+        const paused = await pauseDao(
+            hre,
+            bondMediator,
+            stakingPoolMediator,
+            DAO_ID,
+            {mediators: true}
+        )
+
+        expect(outcomes(paused).map((outcome) => outcome[2])).deep.equals([
+            'paused',
+            'paused',
+            'paused',
+            'paused',
+            'paused'
+        ])
+        expect(await bondMediator.paused()).is.true
+        expect(await stakingPoolMediator.paused()).is.true
+
+        const mediatorPaused = await unpauseDao(
+            hre,
+            bondMediator,
+            stakingPoolMediator,
+            DAO_ID,
+            {mediators: false}
+        )
+
+        expect(
+            outcomes(mediatorPaused).map((outcome) => outcome[2])
+        ).deep.equals(['mediator paused', 'mediator paused', 'mediator paused'])
+
+        const unpaused = await unpauseDao(
+            hre,
+            bondMediator,
+            stakingPoolMediator,
+            DAO_ID,
+            {mediators: true}
+        )
+
+        expect(outcomes(unpaused)).deep.equals([
+            ['BondMediator', bondMediator.address, 'unpaused'],
+            ['StakingPoolMediator', stakingPoolMediator.address, 'unpaused'],
+            ['Bond', bonds[0], 'unpaused'],
+            ['Bond', bonds[1], 'unpaused'],
+            ['StakingPool', stakingPool, 'unpaused']
+        ])
+        expect(await isPaused(bonds[1], 'SingleCollateralMultiRewardBond')).is
+            .false
+    })
+
+    it('batches the changes', async () => {
+        await successfulTransaction(bondMediator.pause())
+        const batch = join(directory, 'batch.json')
+        const options: EmergencyOptions = {mediators: true, batch}
+
+        const report = await unpauseDao(
+            hre,
+            bondMediator,
+            stakingPoolMediator,
+            DAO_ID,
+            options
+        )
+
+        expect(outcomes(report)).deep.equals([
+            ['BondMediator', bondMediator.address, 'batched'],
+            ['StakingPoolMediator', stakingPoolMediator.address, 'unchanged'],
+            ['Bond', bonds[0], 'unchanged'],
+            ['Bond', bonds[1], 'unchanged'],
+            ['StakingPool', stakingPool, 'unchanged']
+        ])
+
+        await pauseDao(hre, bondMediator, stakingPoolMediator, DAO_ID, {
+            mediators: false,
+            batch
+        })
+
+        expect(
+            (<SafeBatch>(
+                JSON.parse(readFileSync(batch, 'utf8'))
+            )).transactions.map((transaction) => [
+                transaction.to,
+                transaction.contractMethod.name
+            ])
+        ).deep.equals([
+            [bondMediator.address, 'unpause'],
+            [stakingPoolMediator.address, 'stakingPoolPause']
+        ])
+        expect(await bondMediator.paused()).is.true
+        expect(await isPaused(stakingPool, 'StakingPool')).is.false
+    })
+
+    async function createBond(): Promise<string> {
+        await successfulTransaction(
+            bondMediator.createManagedBond(
+                DAO_ID,
+                {name: 'Emergency Bond', symbol: 'EB001', data: ''},
+                {
+                    debtTokenAmount: 100n,
+                    collateralTokens: collateralTokens.address,
+                    expiryTimestamp: BOND_EXPIRY,
+                    minimumDeposit: 1n
+                },
+                []
+            )
+        )
+
+        return bondMediator.bondAt(
+            DAO_ID,
+            (await bondMediator.bondCount(DAO_ID)).sub(1)
+        )
+    }
+
+    async function createStakingPool(): Promise<string> {
+        const epochStartTimestamp = (await getTimestampNow()) + 60
+
+        await successfulTransaction(
+            stakingPoolMediator.createManagedStakingPool(
+                {
+                    daoId: DAO_ID,
+                    minTotalPoolStake: 0,
+                    maxTotalPoolStake: 1000,
+                    minimumContribution: 1,
+                    epochDuration: 60,
+                    epochStartTimestamp,
+                    treasury,
+                    stakeToken: collateralTokens.address,
+                    rewardType: RewardType.NONE,
+                    rewardTokens: []
+                },
+                false,
+                epochStartTimestamp + 61
+            )
+        )
+
+        return stakingPoolMediator.stakingPoolAt(DAO_ID, 0)
+    }
+
+    let bondFactory: BondFactory
+    let bondMediator: BondMediator
+    let bonds: string[]
+    let collateralTokens: PermitERC20
+    let directory: string
+    let stakingPool: string
+    let stakingPoolFactory: StakingPoolFactory
+    let stakingPoolMediator: StakingPoolMediator
+    let treasury: string
+})
+
+function outcomes(report: EmergencyReport): string[][] {
+    return report.changes.map((change) => [
+        change.kind,
+        change.address,
+        change.outcome
+    ])
+}
+
+async function isPaused(
+    address: string,
+    name: 'SingleCollateralMultiRewardBond' | 'StakingPool'
+): Promise<boolean> {
+    const contract = <SingleCollateralMultiRewardBond | StakingPool>(
+        await hre.ethers.getContractAt(name, address)
+    )
+
+    return contract.paused()
+}
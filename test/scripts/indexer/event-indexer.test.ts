@@ -0,0 +1,199 @@
+// Start - Support direct Mocha run & debug
+import hre from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+
+import chai, {expect} from 'chai'
+import {before} from 'mocha'
+import {solidity} from 'ethereum-waffle'
+import Database from 'better-sqlite3'
+import {mkdtempSync, rmSync} from 'fs'
+import {tmpdir} from 'os'
+import {join} from 'path'
+import {
+    BondFactory,
+    BondMediator,
+    ERC20PresetMinterPauser,
+    SingleCollateralMultiRewardBond
+} from '../../../typechain-types'
+import {
+    deployContract,
+    deployContractWithProxy,
+    signer
+} from '../../framework/contracts'
+import {successfulTransaction} from '../../framework/transaction'
+import {EventDatabase} from '../../../scripts/indexer/event-database'
+import {indexEvents} from '../../../scripts/indexer/event-indexer'
+
+// Wires up Waffle with Chai
+chai.use(solidity)
+
+const DAO_ID = 1n
+const BOND_EXPIRY = 1900000000n
+
+type EventRow = {
+    address: string
+    event: string
+}
+
+describe('Event indexer', () => {
+    before(async () => {
+        treasury = (await signer(1)).address
+        collateralTokens = await deployContract<ERC20PresetMinterPauser>(
+            'ERC20PresetMinterPauser',
+            'Collateral Tokens',
+            'CT'
+        )
+        bondFactory = await deployContract<BondFactory>('BondFactory', treasury)
+    })
+
+    beforeEach(async () => {
+        fromBlock = (await hre.ethers.provider.getBlockNumber()) + 1
+        mediator = await deployContractWithProxy<BondMediator>(
+            'BondMediator',
+            bondFactory.address,
+            treasury
+        )
+        await successfulTransaction(mediator.createDao(treasury))
+        await successfulTransaction(
+            mediator.whitelistCollateral(DAO_ID, collateralTokens.address)
+        )
+
+        directory = mkdtempSync(join(tmpdir(), 'event-indexer-'))
+        path = join(directory, 'events.sqlite')
+        db = new EventDatabase(path)
+        db.addContract({
+            address: mediator.address,
+            name: 'BondMediator',
+            discoveredBlock: fromBlock
+        })
+    })
+
+    afterEach(() => {
+        db.close()
+        rmSync(directory, {recursive: true, force: true})
+    })
+
+    it('discovers the Bonds of the mediator', async () => {
+        const bond = await createBond()
+        await successfulTransaction(mediator.bondPause(DAO_ID, bond.address))
+
+        expect(await index()).equals(await hre.ethers.provider.getBlockNumber())
+
+        expect(
+            db.contracts().map((contract) => [contract.name, contract.address])
+        ).deep.equals([
+            ['BondMediator', mediator.address],
+            ['SingleCollateralMultiRewardBond', bond.address]
+        ])
+        expect(eventsOf(bond.address)).includes('Paused')
+        expect(eventsOf(mediator.address)).includes.members([
+            'CreateDao',
+            'AddBond'
+        ])
+    })
+
+    it('resumes from the last checkpoint', async () => {
+        await index()
+        const bond = await createBond()
+
+        await index()
+
+        expect(
+            eventsOf(mediator.address).filter((name) =>
+                ['CreateDao', 'AddBond'].includes(name)
+            )
+        ).deep.equals(['CreateDao', 'AddBond'])
+        expect(db.contracts().map((contract) => contract.address)).includes(
+            bond.address
+        )
+        expect(db.checkpoints()[0].blockNumber).equals(
+            await hre.ethers.provider.getBlockNumber()
+        )
+    })
+
+    it('rewinds the orphaned blocks of a reorg', async () => {
+        const bond = await createBond()
+        await index()
+        const snapshot = <string>(
+            await hre.ethers.provider.send('evm_snapshot', [])
+        )
+        await successfulTransaction(mediator.bondPause(DAO_ID, bond.address))
+        await index()
+
+        expect(eventsOf(bond.address)).includes('Paused')
+
+        await hre.ethers.provider.send('evm_revert', [snapshot])
+        await successfulTransaction(
+            mediator.setDaoMetaData(DAO_ID, 'Canonical chain')
+        )
+        await index()
+
+        expect(eventsOf(bond.address)).does.not.include('Paused')
+        expect(eventsOf(mediator.address)).includes('DaoMetaDataUpdate')
+        expect(db.checkpoints()[0].blockHash).equals(
+            (await hre.ethers.provider.getBlock('latest')).hash
+        )
+    })
+
+    async function createBond(): Promise<SingleCollateralMultiRewardBond> {
+        await successfulTransaction(
+            mediator.createManagedBond(
+                DAO_ID,
+                {name: 'Indexed Bond', symbol: 'IB001', data: ''},
+                {
+                    debtTokenAmount: 100n,
+                    collateralTokens: collateralTokens.address,
+                    expiryTimestamp: BOND_EXPIRY,
+                    minimumDeposit: 1n
+                },
+                []
+            )
+        )
+
+        return <SingleCollateralMultiRewardBond>(
+            await hre.ethers.getContractAt(
+                'SingleCollateralMultiRewardBond',
+                await mediator.bondAt(
+                    DAO_ID,
+                    (await mediator.bondCount(DAO_ID)).sub(1)
+                )
+            )
+        )
+    }
+
+    function index(): Promise<number> {
+        return indexEvents(hre.ethers.provider, db, {
+            fromBlock,
+            confirmations: 0,
+            batchSize: 2
+        })
+    }
+
+    function eventsOf(address: string): string[] {
+        const reader = new Database(path, {readonly: true})
+
+        try {
+            return (<EventRow[]>(
+                reader
+                    .prepare(
+                        'SELECT address, event FROM events ORDER BY block_number, log_index'
+                    )
+                    .all()
+            ))
+                .filter((row) => row.address === address)
+                .map((row) => row.event)
+        } finally {
+            reader.close()
+        }
+    }
+
+    let bondFactory: BondFactory
+    let collateralTokens: ERC20PresetMinterPauser
+    let db: EventDatabase
+    let directory: string
+    let fromBlock: number
+    let mediator: BondMediator
+    let path: string
+    let treasury: string
+})
@@ -0,0 +1,308 @@
+// Start - Support direct Mocha run & debug
+import hre from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+
+import chai, {expect} from 'chai'
+import {before} from 'mocha'
+import {solidity} from 'ethereum-waffle'
+import {BigNumber} from 'ethers'
+import {
+    BondFactory,
+    BondMediator,
+    PermitERC20,
+    SingleCollateralMultiRewardBond,
+    StakingPoolFactory,
+    StakingPoolMediator
+} from '../../../typechain-types'
+import {
+    deployContract,
+    deployContractWithProxy,
+    signer
+} from '../../framework/contracts'
+import {getTimestampNow, increaseTime} from '../../framework/time'
+import {successfulTransaction} from '../../framework/transaction'
+import {RewardType} from '../../event/staking/staking-events'
+import {
+    KeeperOptions,
+    KeeperState,
+    runKeeper
+} from '../../../scripts/keeper/keeper'
+
+// Wires up Waffle with Chai
+chai.use(solidity)
+
+const DAO_ID = 1n
+const COLLATERAL = 250n
+const EPOCH_DURATION = 60
+const START_DELAY = 20
+const REWARDS_AVAILABLE_OFFSET = 40
+
+describe('Keeper', () => {
+    before(async () => {
+        treasury = (await signer(1)).address
+        collateralTokens = await deployContract<PermitERC20>(
+            'PermitERC20',
+            'Collateral Tokens',
+            'CT',
+            1000000n
+        )
+        bondFactory = await deployContract<BondFactory>('BondFactory', treasury)
+        stakingPoolFactory = await deployContract<StakingPoolFactory>(
+            'StakingPoolFactory'
+        )
+        await stakingPoolFactory.initialize(treasury)
+    })
+
+    beforeEach(async () => {
+        bondMediator = await deployContractWithProxy<BondMediator>(
+            'BondMediator',
+            bondFactory.address,
+            treasury
+        )
+        stakingPoolMediator =
+            await deployContractWithProxy<StakingPoolMediator>(
+                'StakingPoolMediator',
+                stakingPoolFactory.address,
+                treasury
+            )
+
+        for (const mediator of [bondMediator, stakingPoolMediator]) {
+            await successfulTransaction(mediator.createDao(treasury))
+            await successfulTransaction(
+                mediator.whitelistCollateral(DAO_ID, collateralTokens.address)
+            )
+        }
+
+        state = {expirySubmissions: {}, rewardsAvailableReported: {}}
+        saves = 0
+    })
+
+    describe('bond expiry', () => {
+        it('expires bonds beyond expiry holding collateral', async () => {
+            const expired = await createBond(true, COLLATERAL)
+            await createBond(true, 0n)
+            await createBond(false, COLLATERAL)
+            const redeemable = await createBond(true, COLLATERAL)
+            await successfulTransaction(
+                bondMediator.bondAllowRedemption(
+                    DAO_ID,
+                    redeemable.address,
+                    'redeemable'
+                )
+            )
+
+            const report = await run()
+
+            expect(report.expiries).has.length(1)
+            expect(report.expiries[0].bond).equals(expired.address)
+            expect(report.expiries[0].outcome).equals('expired')
+            expect(report.expiries[0].transactionHash).is.not.undefined
+            expect(BigInt(report.gasCost) > 0n).is.true
+            expect(await collateralTokens.balanceOf(expired.address)).equals(0)
+            expect(await collateralTokens.balanceOf(treasury)).equals(
+                treasuryBalance.add(COLLATERAL)
+            )
+            expect(await expired.paused()).is.true
+            expect(state.expirySubmissions).deep.equals({})
+            expect(saves).equals(2)
+
+            expect((await run()).expiries).deep.equals([])
+        })
+
+        it('dry run', async () => {
+            const expired = await createBond(true, COLLATERAL)
+
+            const report = await run({dryRun: true})
+
+            expect(report.expiries.map((expiry) => expiry.outcome)).deep.equals(
+                ['dry run']
+            )
+            expect(BigInt(report.gasCost) > 0n).is.true
+            expect(await collateralTokens.balanceOf(expired.address)).equals(
+                COLLATERAL
+            )
+            expect(saves).equals(0)
+        })
+
+        it('transaction budget', async () => {
+            await createBond(true, COLLATERAL)
+            await createBond(true, COLLATERAL)
+
+            const report = await run({maxTransactions: 1})
+
+            expect(report.expiries.map((expiry) => expiry.outcome)).deep.equals(
+                ['expired', 'over budget']
+            )
+        })
+
+        it('gas budget', async () => {
+            await createBond(true, COLLATERAL)
+
+            const report = await run({maxGasCost: BigNumber.from(1)})
+
+            expect(report.expiries.map((expiry) => expiry.outcome)).deep.equals(
+                ['over budget']
+            )
+            expect(report.gasCost).equals('0')
+        })
+
+        it('pending submission is not repeated', async () => {
+            const expired = await createBond(true, COLLATERAL)
+
+            await hre.ethers.provider.send('evm_setAutomine', [false])
+            try {
+                const pending = await expired.expire()
+                state.expirySubmissions[expired.address.toLowerCase()] = {
+                    transactionHash: pending.hash,
+                    submittedAt: new Date().toISOString()
+                }
+
+                const report = await run()
+
+                expect(report.expiries).deep.equals([
+                    {
+                        daoId: DAO_ID.toString(),
+                        bond: expired.address,
+                        symbol: await expired.symbol(),
+                        expiry: report.expiries[0].expiry,
+                        outcome: 'pending',
+                        transactionHash: pending.hash
+                    }
+                ])
+            } finally {
+                await hre.ethers.provider.send('evm_setAutomine', [true])
+                await hre.ethers.provider.send('evm_mine', [])
+            }
+
+            expect(await run()).deep.include({expiries: []})
+            expect(state.expirySubmissions).deep.equals({})
+        })
+
+        it('settled submission is forgotten', async () => {
+            const expired = await createBond(true, COLLATERAL)
+            const mined = await collateralTokens.transfer(treasury, 1n)
+            state.expirySubmissions[expired.address.toLowerCase()] = {
+                transactionHash: mined.hash,
+                submittedAt: new Date().toISOString()
+            }
+
+            const report = await run()
+
+            expect(report.expiries.map((expiry) => expiry.outcome)).deep.equals(
+                ['expired']
+            )
+        })
+    })
+
+    describe('staking pool rewards', () => {
+        it('reports once rewards are available', async () => {
+            const stakingPool = await createStakingPool()
+
+            expect((await run()).rewardsAvailable).deep.equals([])
+
+            await increaseTime(
+                START_DELAY + EPOCH_DURATION + REWARDS_AVAILABLE_OFFSET
+            )
+
+            const first = await run()
+            expect(first.rewardsAvailable).has.length(1)
+            expect(first.rewardsAvailable[0].stakingPool).equals(stakingPool)
+            expect(first.rewardsAvailable[0].redeemable).is.true
+            expect(first.rewardsAvailable[0].reported).is.false
+            expect(Object.keys(state.rewardsAvailableReported)).deep.equals([
+                stakingPool.toLowerCase()
+            ])
+
+            const second = await run()
+            expect(second.rewardsAvailable[0].reported).is.true
+        })
+    })
+
+    async function run(options: Partial<KeeperOptions> = {}) {
+        treasuryBalance = await collateralTokens.balanceOf(treasury)
+
+        return runKeeper(hre, bondMediator, stakingPoolMediator, state, {
+            dryRun: false,
+            maxTransactions: 5,
+            saveState: () => {
+                saves++
+            },
+            ...options
+        })
+    }
+
+    async function createBond(
+        expired: boolean,
+        collateral: bigint
+    ): Promise<SingleCollateralMultiRewardBond> {
+        const now = await getTimestampNow()
+
+        await successfulTransaction(
+            bondMediator.createManagedBond(
+                DAO_ID,
+                {name: 'Keeper Bond', symbol: 'KB001', data: ''},
+                {
+                    debtTokenAmount: 1000n,
+                    collateralTokens: collateralTokens.address,
+                    expiryTimestamp: expired ? now - 1 : now + 3600,
+                    minimumDeposit: 1n
+                },
+                []
+            )
+        )
+        const bond = <SingleCollateralMultiRewardBond>(
+            await hre.ethers.getContractAt(
+                'SingleCollateralMultiRewardBond',
+                await bondMediator.bondAt(
+                    DAO_ID,
+                    (await bondMediator.bondCount(DAO_ID)).sub(1)
+                )
+            )
+        )
+
+        if (collateral > 0n) {
+            // Collateral held is the balance, however it arrived
+            await successfulTransaction(
+                collateralTokens.transfer(bond.address, collateral)
+            )
+        }
+
+        return bond
+    }
+
+    async function createStakingPool(): Promise<string> {
+        const epochStartTimestamp = (await getTimestampNow()) + START_DELAY
+
+        await successfulTransaction(
+            stakingPoolMediator.createManagedStakingPool(
+                {
+                    daoId: DAO_ID,
+                    minTotalPoolStake: 0,
+                    maxTotalPoolStake: 1000,
+                    minimumContribution: 1,
+                    epochDuration: EPOCH_DURATION,
+                    epochStartTimestamp,
+                    treasury,
+                    stakeToken: collateralTokens.address,
+                    rewardType: RewardType.NONE,
+                    rewardTokens: []
+                },
+                false,
+                epochStartTimestamp + EPOCH_DURATION + REWARDS_AVAILABLE_OFFSET
+            )
+        )
+
+        return stakingPoolMediator.stakingPoolAt(DAO_ID, 0)
+    }
+
+    let bondFactory: BondFactory
+    let bondMediator: BondMediator
+    let collateralTokens: PermitERC20
+    let saves: number
+    let stakingPoolFactory: StakingPoolFactory
+    let stakingPoolMediator: StakingPoolMediator
+    let state: KeeperState
+    let treasury: string
+    let treasuryBalance: BigNumber
+})
@@ -0,0 +1,295 @@
+// Start - Support direct Mocha run & debug
+import hre from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+
+import chai, {expect} from 'chai'
+import {before} from 'mocha'
+import {solidity} from 'ethereum-waffle'
+import {mkdtempSync, readFileSync, rmSync, writeFileSync} from 'fs'
+import {Server, createServer} from 'http'
+import {AddressInfo} from 'net'
+import {tmpdir} from 'os'
+import {join} from 'path'
+import {BondFactory, BondMediator, PermitERC20} from '../../../typechain-types'
+import {
+    deployContract,
+    deployContractWithProxy,
+    signer
+} from '../../framework/contracts'
+import {successfulTransaction} from '../../framework/transaction'
+import {events} from '../../framework/events'
+import {createDaoEvents} from '../../event/bond/bond-mediator-events'
+import {
+    AlertConfig,
+    readAlertConfig
+} from '../../../scripts/monitor/alert-rules'
+import {
+    Alert,
+    AlertSink,
+    dispatchAlert,
+    webhookSink
+} from '../../../scripts/monitor/alert-sinks'
+import {
+    monitorEvents,
+    monitorState
+} from '../../../scripts/monitor/event-monitor'
+
+// Wires up Waffle with Chai
+chai.use(solidity)
+
+const BOND_EXPIRY = 1900000000n
+
+describe('Event monitor', () => {
+    before(async () => {
+        treasury = (await signer(1)).address
+        account = (await signer(2)).address
+        collateralTokens = await deployContract<PermitERC20>(
+            'PermitERC20',
+            'Collateral Tokens',
+            'CT',
+            1000n
+        )
+        const creator = await deployContract<BondFactory>(
+            'BondFactory',
+            treasury
+        )
+        mediator = await deployContractWithProxy<BondMediator>(
+            'BondMediator',
+            creator.address,
+            treasury
+        )
+        mediatorBlock = await hre.ethers.provider.getBlockNumber()
+
+        const receipt = await successfulTransaction(
+            mediator.createDao(treasury)
+        )
+        daoId = createDaoEvents(events('CreateDao', receipt))[0].id.toBigInt()
+        await mediator.whitelistCollateral(daoId, collateralTokens.address)
+
+        webhook = createServer((request, response) => {
+            let body = ''
+            request.on('data', (chunk: Buffer) => {
+                body += chunk.toString()
+            })
+            request.on('end', () => {
+                received.push(<Alert>JSON.parse(body))
+                response.statusCode = webhookStatus
+                response.end()
+            })
+        })
+        await new Promise<void>((resolve) => {
+            webhook.listen(0, '127.0.0.1', resolve)
+        })
+        webhookUrl = `http://127.0.0.1:${
+            (<AddressInfo>webhook.address()).port
+        }/alerts`
+    })
+
+    after(async () => {
+        await new Promise((resolve) => {
+            webhook.close(resolve)
+        })
+    })
+
+    beforeEach(() => {
+        directory = mkdtempSync(join(tmpdir(), 'event-monitor-'))
+        alertFile = join(directory, 'alerts.jsonl')
+        received = []
+        webhookStatus = 200
+    })
+
+    afterEach(() => {
+        rmSync(directory, {recursive: true, force: true})
+    })
+
+    it('alerts on matching events', async () => {
+        const config = collecting(
+            rules({
+                rules: [
+                    {event: 'Paused', severity: 'info'},
+                    {
+                        event: 'Paused',
+                        contracts: ['BondMediator'],
+                        severity: 'critical'
+                    },
+                    {
+                        event: 'GrantGlobalRole',
+                        args: {role: 'SUPER_USER'},
+                        severity: 'critical'
+                    },
+                    {event: 'DaoTreasuryUpdate', severity: 'warning'}
+                ],
+                sinks: [
+                    {type: 'file', path: alertFile},
+                    {type: 'webhook', url: webhookUrl, severity: 'critical'}
+                ]
+            })
+        )
+        const alertFromBlock = (await hre.ethers.provider.getBlockNumber()) + 1
+
+        await successfulTransaction(mediator.grantSysAdminRole(account))
+        await successfulTransaction(mediator.grantSuperUserRole(account))
+        await successfulTransaction(mediator.setDaoTreasury(daoId, account))
+        const bond = await createBond()
+        await successfulTransaction(mediator.bondPause(daoId, bond))
+        await successfulTransaction(mediator.pause())
+        await successfulTransaction(mediator.unpause())
+        await successfulTransaction(mediator.bondUnpause(daoId, bond))
+
+        const progress = await monitorEvents(
+            hre.ethers.provider,
+            monitorState(
+                [
+                    {
+                        address: mediator.address,
+                        name: 'BondMediator',
+                        discoveredBlock: mediatorBlock
+                    }
+                ],
+                mediatorBlock - 1
+            ),
+            config,
+            {alertFromBlock, confirmations: 0, batchSize: 3}
+        )
+
+        expect(progress.alerts).equals(4)
+        expect(progress.lastBlock).equals(
+            await hre.ethers.provider.getBlockNumber()
+        )
+
+        expect(
+            collected.map((alert) => [
+                alert.event,
+                alert.contract,
+                alert.address,
+                alert.severity
+            ])
+        ).deep.equals([
+            ['GrantGlobalRole', 'BondMediator', mediator.address, 'critical'],
+            ['DaoTreasuryUpdate', 'BondMediator', mediator.address, 'warning'],
+            ['Paused', 'SingleCollateralMultiRewardBond', bond, 'info'],
+            ['Paused', 'BondMediator', mediator.address, 'critical']
+        ])
+        expect(collected[0].args.role).equals('SUPER_USER')
+        expect(collected[0].args.account).equals(account)
+        expect(collected[1].args.daoId).equals(String(daoId))
+
+        expect(
+            readFileSync(alertFile, 'utf8')
+                .trim()
+                .split('\n')
+                .map((line) => <Alert>JSON.parse(line))
+        ).deep.equals(collected)
+        expect(received).deep.equals(
+            collected.filter((alert) => alert.severity === 'critical')
+        )
+    })
+
+    it('failing webhook', async () => {
+        webhookStatus = 500
+        const alert: Alert = {
+            severity: 'critical',
+            event: 'EmergencyMode',
+            contract: 'StakingPool',
+            address: account,
+            blockNumber: 1,
+            transactionHash: hre.ethers.constants.HashZero,
+            logIndex: 0,
+            args: {admin: account}
+        }
+        const config = collecting(
+            rules({
+                rules: [{event: 'EmergencyMode', severity: 'critical'}],
+                sinks: [{type: 'webhook', url: webhookUrl}]
+            })
+        )
+
+        expect(await dispatchAlert(config.sinks, alert)).equals(1)
+        expect(received).deep.equals([alert])
+        expect(collected).deep.equals([alert])
+        expect(await failure(webhookSink(webhookUrl).send(alert))).equals(
+            'Webhook responded with status 500'
+        )
+    })
+
+    it('unknown event rule', () => {
+        expect(() =>
+            rules({rules: [{event: 'Transfer', severity: 'info'}]})
+        ).to.throw('Spec rules[0].event is not one of:')
+    })
+
+    it('unknown severity', () => {
+        expect(() =>
+            rules({rules: [{event: 'Paused', severity: 'urgent'}]})
+        ).to.throw(
+            'Spec rules[0].severity is not one of: info, warning, critical'
+        )
+    })
+
+    async function createBond(): Promise<string> {
+        await successfulTransaction(
+            mediator.createManagedBond(
+                daoId,
+                {name: 'Monitored Bond', symbol: 'MB001', data: ''},
+                {
+                    debtTokenAmount: 100n,
+                    collateralTokens: collateralTokens.address,
+                    expiryTimestamp: BOND_EXPIRY,
+                    minimumDeposit: 1n
+                },
+                []
+            )
+        )
+
+        return mediator.bondAt(daoId, (await mediator.bondCount(daoId)).sub(1))
+    }
+
+    /**
+     * Writes and reads the rules file.
+     */
+    function rules(content: object): AlertConfig {
+        const path = join(directory, 'rules.json')
+        writeFileSync(path, JSON.stringify(content))
+
+        return readAlertConfig(path)
+    }
+
+    /**
+     * Adds a sink collecting every alert.
+     */
+    function collecting(config: AlertConfig): AlertConfig {
+        collected = []
+        const sink: AlertSink = {
+            name: 'collecting',
+            severity: 'info',
+            send: (alert) => {
+                collected.push(alert)
+                return Promise.resolve()
+            }
+        }
+
+        return {...config, sinks: [...config.sinks, sink]}
+    }
+
+    let account: string
+    let alertFile: string
+    let collateralTokens: PermitERC20
+    let collected: Alert[]
+    let daoId: bigint
+    let directory: string
+    let mediator: BondMediator
+    let mediatorBlock: number
+    let received: Alert[]
+    let treasury: string
+    let webhook: Server
+    let webhookStatus: number
+    let webhookUrl: string
+})
+
+async function failure(promise: Promise<unknown>): Promise<string> {
+    return promise.then(
+        () => 'resolved',
+        (error: Error) => error.message
+    )
+}
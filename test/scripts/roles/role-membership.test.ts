@@ -0,0 +1,311 @@
+// Start - Support direct Mocha run & debug
+import hre from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+
+import chai, {expect} from 'chai'
+import {before} from 'mocha'
+import {solidity} from 'ethereum-waffle'
+import {ContractTransaction} from 'ethers'
+import {SignerWithAddress} from '@nomiclabs/hardhat-ethers/signers'
+import {
+    BondFactory,
+    BondMediator,
+    RoleAccessControl
+} from '../../../typechain-types'
+import {
+    deployContract,
+    deployContractWithProxy,
+    signer
+} from '../../framework/contracts'
+import {successfulTransaction} from '../../framework/transaction'
+import {
+    RoleMember,
+    RoleMembershipSnapshot,
+    roleAccessControlAt,
+    roleMembership,
+    verifyRoleMembership
+} from '../../../scripts/roles/role-membership'
+
+// Wires up Waffle with Chai
+chai.use(solidity)
+
+const FIRST_DAO_ID = 1n
+const SECOND_DAO_ID = 2n
+const MANUAL_GAS_LIMIT = 500000
+
+describe('Role membership', () => {
+    before(async () => {
+        admin = await signer(0)
+        treasury = (await signer(1)).address
+        member = (await signer(2)).address
+        otherMember = (await signer(3)).address
+        bondFactory = await deployContract<BondFactory>('BondFactory', treasury)
+    })
+
+    beforeEach(async () => {
+        fromBlock = await hre.ethers.provider.getBlockNumber()
+        mediator = await deployContractWithProxy<BondMediator>(
+            'BondMediator',
+            bondFactory.address,
+            treasury
+        )
+        roles = await roleAccessControlAt(hre, mediator.address)
+    })
+
+    it('deployer is the super user', async () => {
+        const snapshot = await roleMembership(roles, fromBlock)
+
+        expect(snapshot.mediator).equals(mediator.address)
+        expect(snapshot.fromBlock).equals(fromBlock)
+        expect(membersOf(snapshot.global)).deep.equals([
+            ['SUPER_USER', admin.address]
+        ])
+        expect(snapshot.daos).deep.equals({})
+    })
+
+    describe('global', () => {
+        it('grant', async () => {
+            await successfulTransaction(mediator.grantSysAdminRole(member))
+
+            expect(
+                membersOf((await roleMembership(roles, fromBlock)).global)
+            ).deep.equals([
+                ['SUPER_USER', admin.address],
+                ['SYSTEM_ADMIN', member]
+            ])
+        })
+
+        it('revoke', async () => {
+            await successfulTransaction(mediator.grantSysAdminRole(member))
+            await successfulTransaction(mediator.revokeSysAdminRole(member))
+
+            expect(
+                membersOf((await roleMembership(roles, fromBlock)).global)
+            ).deep.equals([['SUPER_USER', admin.address]])
+        })
+
+        it('re-grant', async () => {
+            await successfulTransaction(mediator.grantSysAdminRole(member))
+            await successfulTransaction(mediator.revokeSysAdminRole(member))
+            const regrant = await successfulTransaction(
+                mediator.grantSysAdminRole(member)
+            )
+
+            const global = (await roleMembership(roles, fromBlock)).global
+
+            expect(membersOf(global)).deep.equals([
+                ['SUPER_USER', admin.address],
+                ['SYSTEM_ADMIN', member]
+            ])
+            expect(global[1]).deep.includes({
+                instigator: admin.address,
+                blockNumber: regrant.blockNumber,
+                transactionHash: regrant.transactionHash
+            })
+        })
+    })
+
+    describe('DAO', () => {
+        beforeEach(async () => {
+            await successfulTransaction(mediator.createDao(treasury))
+        })
+
+        it('without members', async () => {
+            expect((await roleMembership(roles, fromBlock)).daos).deep.equals(
+                {}
+            )
+        })
+
+        it('grant', async () => {
+            await successfulTransaction(
+                mediator.grantDaoMeepleRole(FIRST_DAO_ID, member)
+            )
+
+            expect(
+                membersOf((await roleMembership(roles, fromBlock)).daos['1'])
+            ).deep.equals([['DAO_MEEPLE', member]])
+        })
+
+        it('revoke', async () => {
+            await successfulTransaction(
+                mediator.grantDaoMeepleRole(FIRST_DAO_ID, member)
+            )
+            await successfulTransaction(
+                mediator.revokeDaoMeepleRole(FIRST_DAO_ID, member)
+            )
+
+            expect((await roleMembership(roles, fromBlock)).daos).deep.equals(
+                {}
+            )
+        })
+
+        it('re-grant', async () => {
+            await successfulTransaction(
+                mediator.grantDaoMeepleRole(FIRST_DAO_ID, member)
+            )
+            await successfulTransaction(
+                mediator.revokeDaoMeepleRole(FIRST_DAO_ID, member)
+            )
+            const regrant = await successfulTransaction(
+                mediator.grantDaoMeepleRole(FIRST_DAO_ID, member)
+            )
+
+            const members = (await roleMembership(roles, fromBlock)).daos['1']
+
+            expect(membersOf(members)).deep.equals([['DAO_MEEPLE', member]])
+            expect(members[0]).deep.includes({
+                blockNumber: regrant.blockNumber,
+                transactionHash: regrant.transactionHash
+            })
+        })
+
+        it('several DAOs', async () => {
+            await successfulTransaction(mediator.createDao(treasury))
+            await successfulTransaction(
+                mediator.grantDaoMeepleRole(FIRST_DAO_ID, member)
+            )
+            await successfulTransaction(
+                mediator.grantDaoAdminRole(SECOND_DAO_ID, otherMember)
+            )
+            await successfulTransaction(
+                mediator.grantDaoMeepleRole(SECOND_DAO_ID, member)
+            )
+            await successfulTransaction(
+                mediator.revokeDaoMeepleRole(SECOND_DAO_ID, member)
+            )
+
+            const snapshot = await roleMembership(roles, fromBlock)
+
+            expect(Object.keys(snapshot.daos)).deep.equals(['1', '2'])
+            expect(membersOf(snapshot.daos['1'])).deep.equals([
+                ['DAO_MEEPLE', member]
+            ])
+            expect(membersOf(snapshot.daos['2'])).deep.equals([
+                ['DAO_ADMIN', otherMember]
+            ])
+            expect(membersOf(snapshot.global)).deep.equals([
+                ['SUPER_USER', admin.address]
+            ])
+        })
+    })
+
+    describe('within a single block', () => {
+        it('grant then revoke', async () => {
+            const block = await sameBlock([
+                () =>
+                    mediator.grantSysAdminRole(member, {
+                        gasLimit: MANUAL_GAS_LIMIT
+                    }),
+                () =>
+                    mediator.revokeSysAdminRole(member, {
+                        gasLimit: MANUAL_GAS_LIMIT
+                    })
+            ])
+
+            const snapshot = await roleMembership(roles, fromBlock)
+
+            expect(snapshot.toBlock).equals(block)
+            expect(membersOf(snapshot.global)).deep.equals([
+                ['SUPER_USER', admin.address]
+            ])
+        })
+
+        it('revoke then grant', async () => {
+            await successfulTransaction(mediator.grantSysAdminRole(member))
+            const block = await sameBlock([
+                () =>
+                    mediator.revokeSysAdminRole(member, {
+                        gasLimit: MANUAL_GAS_LIMIT
+                    }),
+                () =>
+                    mediator.grantSysAdminRole(member, {
+                        gasLimit: MANUAL_GAS_LIMIT
+                    })
+            ])
+
+            const global = (await roleMembership(roles, fromBlock)).global
+
+            expect(membersOf(global)).deep.equals([
+                ['SUPER_USER', admin.address],
+                ['SYSTEM_ADMIN', member]
+            ])
+            expect(global[1].blockNumber).equals(block)
+        })
+    })
+
+    describe('on-chain verification', () => {
+        beforeEach(async () => {
+            await successfulTransaction(mediator.createDao(treasury))
+            await successfulTransaction(mediator.grantSysAdminRole(member))
+            await successfulTransaction(
+                mediator.grantDaoMeepleRole(FIRST_DAO_ID, otherMember)
+            )
+            snapshot = await roleMembership(roles, fromBlock)
+        })
+
+        it('matches', async () => {
+            expect(await verifyRoleMembership(roles, snapshot)).equals(0)
+            expect(onChainOf(snapshot.global)).deep.equals([true, true])
+            expect(onChainOf(snapshot.daos['1'])).deep.equals([true])
+        })
+
+        it('mismatch', async () => {
+            await successfulTransaction(mediator.revokeSysAdminRole(member))
+            await successfulTransaction(
+                mediator.revokeDaoMeepleRole(FIRST_DAO_ID, otherMember)
+            )
+
+            expect(await verifyRoleMembership(roles, snapshot)).equals(2)
+            expect(onChainOf(snapshot.global)).deep.equals([true, false])
+            expect(onChainOf(snapshot.daos['1'])).deep.equals([false])
+        })
+
+        let snapshot: RoleMembershipSnapshot
+    })
+
+    /**
+     * Mines the transactions together in a single block, in the given order.
+     *
+     * @return number of the block the transactions were mined in.
+     */
+    async function sameBlock(
+        transactions: (() => Promise<ContractTransaction>)[]
+    ): Promise<number> {
+        const pending: ContractTransaction[] = []
+
+        await hre.ethers.provider.send('evm_setAutomine', [false])
+        try {
+            for (const transaction of transactions) {
+                pending.push(await transaction())
+            }
+        } finally {
+            await hre.ethers.provider.send('evm_setAutomine', [true])
+            await hre.ethers.provider.send('evm_mine', [])
+        }
+
+        const receipts = await Promise.all(pending.map((tx) => tx.wait()))
+        expect(
+            new Set(receipts.map((receipt) => receipt.blockNumber)).size
+        ).equals(1)
+
+        return receipts[0].blockNumber
+    }
+
+    let admin: SignerWithAddress
+    let treasury: string
+    let member: string
+    let otherMember: string
+    let bondFactory: BondFactory
+    let mediator: BondMediator
+    let roles: RoleAccessControl
+    let fromBlock: number
+})
+
+function membersOf(members: RoleMember[]): [string, string][] {
+    return members.map((member) => [member.role, member.account])
+}
+
+function onChainOf(members: RoleMember[]): (boolean | undefined)[] {
+    return members.map((member) => member.onChain)
+}
@@ -0,0 +1,291 @@
+// Start - Support direct Mocha run & debug
+import 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+
+import chai, {expect} from 'chai'
+import {before} from 'mocha'
+import {solidity} from 'ethereum-waffle'
+import {SignerWithAddress} from '@nomiclabs/hardhat-ethers/signers'
+import {ERC20PresetMinterPauser, StakingPool} from '../../../typechain-types'
+import {deployContract, signer} from '../../framework/contracts'
+import {randomBetween, seededRandom} from '../../framework/random'
+import {getTimestampNow} from '../../framework/time'
+import {successfulTransaction} from '../../framework/transaction'
+import {RewardType} from '../../event/staking/staking-events'
+import {
+    StakingPoolRewardsState,
+    calculateFixedRewards,
+    calculateFloatingReward,
+    computeFloatingRewardsPerShare,
+    depositorRewards,
+    expectedRewards,
+    initialRewardsState,
+    reconstructRewardsState,
+    simulateDeposit
+} from '../../../scripts/staking/rewards-calculator'
+
+// Wires up Waffle with Chai
+chai.use(solidity)
+
+const EPOCH_DURATION = 60
+const START_DELAY = 3600
+const REWARDS_AVAILABLE_OFFSET = 20
+const MAX_TOTAL_POOL_STAKE = 10000000n
+const MINIMUM_CONTRIBUTION = 5n
+const RANDOM_SEED = 16
+const RANDOM_SCENARIOS = 6
+
+describe('Staking rewards calculator', () => {
+    before(async () => {
+        admin = (await signer(0)).address
+        depositors = [await signer(1), await signer(2), await signer(3)]
+        random = seededRandom(RANDOM_SEED)
+        rewardTokens = [
+            await deployContract<ERC20PresetMinterPauser>(
+                'ERC20PresetMinterPauser',
+                'First Reward Token',
+                'RWD1'
+            ),
+            await deployContract<ERC20PresetMinterPauser>(
+                'ERC20PresetMinterPauser',
+                'Second Reward Token',
+                'RWD2'
+            )
+        ]
+    })
+
+    beforeEach(async () => {
+        stakeTokens = await deployContract<ERC20PresetMinterPauser>(
+            'ERC20PresetMinterPauser',
+            'Stake Token',
+            'STK'
+        )
+    })
+
+    describe('hypothetical', () => {
+        it('fixed rewards accumulate', () => {
+            const pools = [{tokens: admin, maxAmount: 1000n, ratio: 3n}]
+
+            expect(calculateFixedRewards(pools, [12n], 5n)).deep.equals([27n])
+        })
+
+        it('floating rewards per share are floored', () => {
+            expect(computeFloatingRewardsPerShare(1000n, 3n)).equals(
+                333333333333333333333n
+            )
+            expect(calculateFloatingReward(333333333333333333333n, 2n)).equals(
+                666n
+            )
+        })
+
+        it('floating deposit dilutes earlier depositors', () => {
+            const state: StakingPoolRewardsState = {
+                rewardType: RewardType.FLOATING,
+                minimumContribution: MINIMUM_CONTRIBUTION,
+                maxTotalPoolStake: MAX_TOTAL_POOL_STAKE,
+                rewardTokens: [{tokens: admin, maxAmount: 900n, ratio: 0n}],
+                totalStaked: 0n,
+                depositors: {}
+            }
+            const first = simulateDeposit(state, depositors[0].address, 100n)
+            const second = simulateDeposit(first, depositors[1].address, 200n)
+
+            expect(expectedRewards(first, depositors[0].address)).deep.equals([
+                900n
+            ])
+            expect(expectedRewards(second, depositors[0].address)).deep.equals([
+                300n
+            ])
+            expect(expectedRewards(second, depositors[1].address)).deep.equals([
+                600n
+            ])
+        })
+
+        it('deposit below minimum contribution', () => {
+            expect(() =>
+                simulateDeposit(
+                    {
+                        rewardType: RewardType.NONE,
+                        minimumContribution: MINIMUM_CONTRIBUTION,
+                        maxTotalPoolStake: MAX_TOTAL_POOL_STAKE,
+                        rewardTokens: [],
+                        totalStaked: 0n,
+                        depositors: {}
+                    },
+                    admin,
+                    4n
+                )
+            ).to.throw('Deposit of 4 is below the minimum contribution of 5')
+        })
+
+        it('deposit oversubscribed', () => {
+            expect(() =>
+                simulateDeposit(
+                    {
+                        rewardType: RewardType.NONE,
+                        minimumContribution: MINIMUM_CONTRIBUTION,
+                        maxTotalPoolStake: 10n,
+                        rewardTokens: [],
+                        totalStaked: 6n,
+                        depositors: {}
+                    },
+                    admin,
+                    5n
+                )
+            ).to.throw(
+                'Deposit of 5 oversubscribes the max total pool stake of 10'
+            )
+        })
+    })
+
+    describe('matches on-chain rewards', () => {
+        for (let i = 0; i < RANDOM_SCENARIOS; i++) {
+            it(`fixed random scenario ${i}`, verifyFixedRandomScenario)
+            it(`floating random scenario ${i}`, verifyFloatingRandomScenario)
+        }
+    })
+
+    async function verifyFixedRandomScenario(): Promise<void> {
+        await verifyDeposits(
+            RewardType.FIXED,
+            rewardTokens.map(() => ({
+                maxAmount: randomBetween(random, 1n, 10n ** 15n),
+                ratio: randomBetween(random, 1n, 1000n)
+            })),
+            randomDeposits(random)
+        )
+    }
+
+    async function verifyFloatingRandomScenario(): Promise<void> {
+        await verifyDeposits(
+            RewardType.FLOATING,
+            rewardTokens.map(() => ({
+                maxAmount: randomBetween(random, 1n, 10n ** 15n),
+                ratio: 0n
+            })),
+            randomDeposits(random)
+        )
+    }
+
+    /**
+     * Makes the deposits into a new StakingPool, verifying the rewards of
+     * every depositor against the calculator after each deposit.
+     */
+    async function verifyDeposits(
+        rewardType: RewardType,
+        rewards: {maxAmount: bigint; ratio: bigint}[],
+        deposits: {depositor: number; amount: bigint}[]
+    ): Promise<void> {
+        const stakingPool = await createStakingPool(rewardType, rewards)
+        const fromBlock = await stakingPool.provider.getBlockNumber()
+        let state = await initialRewardsState(stakingPool)
+
+        for (const deposit of deposits) {
+            const depositor = depositors[deposit.depositor]
+            state = simulateDeposit(state, depositor.address, deposit.amount)
+
+            await stakeTokens.mint(depositor.address, deposit.amount)
+            await stakeTokens
+                .connect(depositor)
+                .increaseAllowance(stakingPool.address, deposit.amount)
+            await successfulTransaction(
+                stakingPool.connect(depositor).deposit(deposit.amount)
+            )
+
+            await verifyRewards(stakingPool, state)
+        }
+
+        expect(
+            await reconstructRewardsState(stakingPool, fromBlock)
+        ).deep.equals(state)
+    }
+
+    async function verifyRewards(
+        stakingPool: StakingPool,
+        state: StakingPoolRewardsState
+    ): Promise<void> {
+        expect((await stakingPool.totalStakedAmount()).toBigInt()).equals(
+            state.totalStaked
+        )
+
+        for (const expected of depositorRewards(state)) {
+            const onChain = await stakingPool.currentExpectedRewards(
+                expected.depositor
+            )
+            const user = await stakingPool.getUser(expected.depositor)
+
+            expect(user.depositAmount.toBigInt()).equals(expected.depositAmount)
+            expect(onChain.map((amount) => amount.toBigInt())).deep.equals(
+                expected.rewards
+            )
+            expect(
+                (await stakingPool.currentRewards(expected.depositor)).map(
+                    (owed) => owed.amount.toBigInt()
+                )
+            ).deep.equals(expected.rewards)
+        }
+    }
+
+    async function createStakingPool(
+        rewardType: RewardType,
+        rewards: {maxAmount: bigint; ratio: bigint}[]
+    ): Promise<StakingPool> {
+        const epochStartTimestamp = (await getTimestampNow()) + START_DELAY
+        const stakingPool = await deployContract<StakingPool>('StakingPool')
+
+        await stakingPool.initialize(
+            {
+                daoId: 0,
+                minTotalPoolStake: 0,
+                maxTotalPoolStake: MAX_TOTAL_POOL_STAKE,
+                minimumContribution: MINIMUM_CONTRIBUTION,
+                epochDuration: EPOCH_DURATION,
+                epochStartTimestamp,
+                treasury: admin,
+                stakeToken: stakeTokens.address,
+                rewardType,
+                rewardTokens: rewards.map((reward, i) => ({
+                    tokens: rewardTokens[i].address,
+                    maxAmount: reward.maxAmount,
+                    ratio: reward.ratio
+                }))
+            },
+            false,
+            epochStartTimestamp + EPOCH_DURATION + REWARDS_AVAILABLE_OFFSET,
+            admin
+        )
+
+        return stakingPool
+    }
+
+    let admin: string
+    let depositors: SignerWithAddress[]
+    let random: () => number
+    let rewardTokens: ERC20PresetMinterPauser[]
+    let stakeTokens: ERC20PresetMinterPauser
+})
+
+/**
+ * Between two and six deposits, spread across three depositors, with each
+ * depositor possibly depositing more than once.
+ */
+function randomDeposits(
+    random: () => number
+): {depositor: number; amount: bigint}[] {
+    const deposits: {depositor: number; amount: bigint}[] = []
+    const count = randomBetween(random, 2n, 6n)
+
+    for (let i = 0n; i < count; i++) {
+        deposits.push({
+            depositor: Number(randomBetween(random, 0n, 2n)),
+            amount: randomBetween(
+                random,
+                MINIMUM_CONTRIBUTION,
+                MAX_TOTAL_POOL_STAKE / 6n
+            )
+        })
+    }
+
+    return deposits
+}
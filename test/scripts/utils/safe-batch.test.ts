@@ -0,0 +1,193 @@
+// Start - Support direct Mocha run & debug
+import hre from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+
+import chai, {expect} from 'chai'
+import {before} from 'mocha'
+import {solidity} from 'ethereum-waffle'
+import {PopulatedTransaction} from 'ethers'
+import {mkdtempSync, readFileSync, rmSync} from 'fs'
+import {tmpdir} from 'os'
+import {join} from 'path'
+import {BondFactory, BondMediator, PermitERC20} from '../../../typechain-types'
+import {Bond} from '../../../typechain-types/contracts/bond/BondMediator'
+import {
+    deployContract,
+    deployContractWithProxy,
+    signer
+} from '../../framework/contracts'
+import {successfulTransaction} from '../../framework/transaction'
+import {events} from '../../framework/events'
+import {createDaoEvents} from '../../event/bond/bond-mediator-events'
+import {
+    SafeBatch,
+    appendSafeBatch,
+    readSafeBatch,
+    safeBatchTransaction
+} from '../../../scripts/utils/safe-batch'
+import {submitTransaction} from '../../../scripts/utils/transaction-event-log'
+
+// Wires up Waffle with Chai
+chai.use(solidity)
+
+const DEBT_TOKENS = 500n
+const EXPIRY = 1900000000n
+const MINIMUM_DEPOSIT = 25n
+
+describe('Safe batch', () => {
+    before(async () => {
+        meeple = (await signer(1)).address
+        treasury = (await signer(2)).address
+        safe = (await signer(3)).address
+        chainId = (await hre.ethers.provider.getNetwork()).chainId
+        collateralTokens = await deployContract<PermitERC20>(
+            'PermitERC20',
+            'Collateral Tokens',
+            'CT',
+            1000n
+        )
+        const creator = await deployContract<BondFactory>(
+            'BondFactory',
+            treasury
+        )
+        mediator = await deployContractWithProxy<BondMediator>(
+            'BondMediator',
+            creator.address,
+            treasury
+        )
+
+        const receipt = await successfulTransaction(
+            mediator.createDao(treasury)
+        )
+        daoId = createDaoEvents(events('CreateDao', receipt))[0].id.toBigInt()
+    })
+
+    beforeEach(() => {
+        directory = mkdtempSync(join(tmpdir(), 'safe-batch-'))
+        batch = join(directory, 'batch.json')
+    })
+
+    afterEach(() => {
+        rmSync(directory, {recursive: true, force: true})
+    })
+
+    it('whitelist, create bond and grant role', async () => {
+        await append(
+            mediator.populateTransaction.whitelistCollateral(
+                daoId,
+                collateralTokens.address
+            )
+        )
+        await append(
+            mediator.populateTransaction.createManagedBond(
+                daoId,
+                {name: 'Batched Bond', symbol: 'BB001', data: 'batched'},
+                {
+                    debtTokenAmount: DEBT_TOKENS,
+                    collateralTokens: collateralTokens.address,
+                    expiryTimestamp: EXPIRY,
+                    minimumDeposit: MINIMUM_DEPOSIT
+                },
+                []
+            )
+        )
+        expect(
+            await append(
+                mediator.populateTransaction.grantDaoMeepleRole(daoId, meeple)
+            )
+        ).equals(3)
+
+        const written = <SafeBatch>JSON.parse(readFileSync(batch, 'utf8'))
+        expect(written.chainId).equals(String(chainId))
+        expect(written.meta.createdFromSafeAddress).equals(safe)
+        expect(written.transactions).has.length(3)
+
+        const [whitelist, create, grant] = written.transactions.map(
+            (transaction) => {
+                expect(transaction.to).equals(mediator.address)
+                expect(transaction.value).equals('0')
+                return mediator.interface.parseTransaction({
+                    data: transaction.data
+                })
+            }
+        )
+
+        expect(whitelist.name).equals('whitelistCollateral')
+        expect(whitelist.args.daoId).equals(daoId)
+        expect(whitelist.args.erc20CollateralTokens).equals(
+            collateralTokens.address
+        )
+        expect(written.transactions[0].contractInputsValues).deep.equals({
+            daoId: String(daoId),
+            erc20CollateralTokens: collateralTokens.address
+        })
+
+        expect(create.name).equals('createManagedBond')
+        const metadata = <Bond.MetaDataStructOutput>create.args.metadata
+        const configuration = <Bond.SettingsStructOutput>(
+            create.args.configuration
+        )
+        expect(metadata.symbol).equals('BB001')
+        expect(configuration.debtTokenAmount).equals(DEBT_TOKENS)
+        expect(configuration.collateralTokens).equals(collateralTokens.address)
+        expect(written.transactions[1].contractMethod.inputs[2]).deep.equals({
+            name: 'configuration',
+            type: 'tuple',
+            components: [
+                {name: 'debtTokenAmount', type: 'uint256'},
+                {name: 'collateralTokens', type: 'address'},
+                {name: 'expiryTimestamp', type: 'uint256'},
+                {name: 'minimumDeposit', type: 'uint256'}
+            ]
+        })
+
+        expect(grant.name).equals('grantDaoMeepleRole')
+        expect(grant.args.daoId).equals(daoId)
+        expect(grant.args.account).equals(meeple)
+    })
+
+    it('chain mismatch', async () => {
+        await append(
+            mediator.populateTransaction.grantDaoMeepleRole(daoId, meeple)
+        )
+
+        expect(() => readSafeBatch(batch, chainId + 1)).to.throw(
+            `Batch ${batch} is for chain ${chainId}, not chain ${chainId + 1}`
+        )
+    })
+
+    it('submit when batching does not send', async () => {
+        const receipt = await submitTransaction(
+            {batch, safe},
+            mediator,
+            mediator.populateTransaction.grantDaoMeepleRole(daoId, meeple)
+        )
+
+        expect(receipt).is.null
+        expect(readSafeBatch(batch, chainId).transactions).has.length(1)
+        expect(await mediator.hasDaoMeepleAccess(daoId, meeple)).is.false
+    })
+
+    async function append(
+        transaction: Promise<PopulatedTransaction>
+    ): Promise<number> {
+        return appendSafeBatch(
+            batch,
+            chainId,
+            safe,
+            safeBatchTransaction(mediator, await transaction),
+            'test'
+        )
+    }
+
+    let batch: string
+    let chainId: number
+    let collateralTokens: PermitERC20
+    let daoId: bigint
+    let directory: string
+    let mediator: BondMediator
+    let meeple: string
+    let safe: string
+    let treasury: string
+})
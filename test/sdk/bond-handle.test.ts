@@ -0,0 +1,210 @@
+// Start - Support direct Mocha run & debug
+import 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+
+import chai, {expect} from 'chai'
+import {before} from 'mocha'
+import {solidity} from 'ethereum-waffle'
+import {constants} from 'ethers'
+import {SignerWithAddress} from '@nomiclabs/hardhat-ethers/signers'
+import {
+    BondFactory,
+    BondMediator,
+    ERC20PresetMinterPauser,
+    PermitERC20
+} from '../../typechain-types'
+import {
+    deployContract,
+    deployContractWithProxy,
+    signer
+} from '../framework/contracts'
+import {successfulTransaction} from '../framework/transaction'
+import {
+    BondHandle,
+    DaoHandle,
+    TreasuryAddresses,
+    TreasuryClient
+} from '../../sdk'
+
+// Wires up Waffle with Chai
+chai.use(solidity)
+
+const DEBT_TOKENS = 1000n
+const BOND_EXPIRY = 750000n
+const MINIMUM_DEPOSIT = 100n
+
+describe('Bond handle', () => {
+    before(async () => {
+        admin = await signer(0)
+        treasury = (await signer(1)).address
+        guarantor = await signer(2)
+        const creator = await deployContract<BondFactory>(
+            'BondFactory',
+            treasury
+        )
+        mediator = await deployContractWithProxy<BondMediator>(
+            'BondMediator',
+            creator.address,
+            treasury
+        )
+        addresses = {
+            bondMediator: mediator.address,
+            stakingPoolMediator: constants.AddressZero
+        }
+        dao = (await new TreasuryClient(admin, addresses).createDao(treasury))
+            .dao
+    })
+
+    describe('deposit', () => {
+        before(async () => {
+            collateralTokens = await deployContract<ERC20PresetMinterPauser>(
+                'ERC20PresetMinterPauser',
+                'Collateral',
+                'COL'
+            )
+            await collateralTokens.mint(guarantor.address, DEBT_TOKENS)
+            await dao.whitelistCollateral(collateralTokens.address)
+        })
+
+        beforeEach(async () => {
+            bond = await createBond(collateralTokens.address)
+        })
+
+        it('approves only the amount', async () => {
+            const deposited = await bond.deposit(MINIMUM_DEPOSIT)
+
+            expect(deposited.authorization).equals('approve')
+            expect(deposited.debtIssue.debtAmount.toBigInt()).equals(
+                MINIMUM_DEPOSIT
+            )
+            expect(
+                await collateralTokens.allowance(
+                    guarantor.address,
+                    bond.address
+                )
+            ).equals(0)
+        })
+
+        it('uses the existing allowance', async () => {
+            await collateralTokens
+                .connect(guarantor)
+                .approve(bond.address, MINIMUM_DEPOSIT)
+
+            const deposited = await bond.deposit(MINIMUM_DEPOSIT)
+
+            expect(deposited.authorization).equals('allowance')
+        })
+
+        it('falls back to approve without permit support', async () => {
+            const deposited = await bond.deposit(MINIMUM_DEPOSIT, {
+                permit: true
+            })
+
+            expect(deposited.authorization).equals('approve')
+        })
+
+        it('below minimum deposit', async () => {
+            expect(
+                await failure(bond.checkDeposit(MINIMUM_DEPOSIT - 1n))
+            ).equals('Deposit of 99 is below the minimum deposit of 100')
+        })
+
+        it('exceeding debt tokens remaining', async () => {
+            expect(await failure(bond.checkDeposit(DEBT_TOKENS + 1n))).equals(
+                'Deposit of 1001 exceeds the 1000 debt tokens remaining'
+            )
+        })
+
+        it('when paused', async () => {
+            await successfulTransaction(
+                mediator.bondPause(dao.daoId, bond.address)
+            )
+
+            expect(await failure(bond.checkDeposit(MINIMUM_DEPOSIT))).equals(
+                `Bond ${bond.address} is paused`
+            )
+        })
+
+        it('when redeemable', async () => {
+            await successfulTransaction(
+                mediator.bondAllowRedemption(
+                    dao.daoId,
+                    bond.address,
+                    'redeemable test'
+                )
+            )
+
+            expect(await failure(bond.checkDeposit(MINIMUM_DEPOSIT))).equals(
+                `Bond ${bond.address} is redeemable, no longer accepting deposits`
+            )
+        })
+    })
+
+    describe('deposit with permit', () => {
+        before(async () => {
+            permitTokens = await deployContract<PermitERC20>(
+                'PermitERC20',
+                'Permit Collateral',
+                'PMT',
+                DEBT_TOKENS
+            )
+            await permitTokens.transfer(guarantor.address, DEBT_TOKENS)
+            await dao.whitelistCollateral(permitTokens.address)
+        })
+
+        it('permits only the amount', async () => {
+            bond = await createBond(permitTokens.address)
+
+            const deposited = await bond.deposit(MINIMUM_DEPOSIT, {
+                permit: true
+            })
+
+            expect(deposited.authorization).equals('permit')
+            expect(deposited.deposit.collateralAmount.toBigInt()).equals(
+                MINIMUM_DEPOSIT
+            )
+            expect(await permitTokens.nonces(guarantor.address)).equals(1)
+            expect(
+                await permitTokens.allowance(guarantor.address, bond.address)
+            ).equals(0)
+        })
+    })
+
+    async function createBond(tokens: string): Promise<BondHandle> {
+        const created = await dao.createBond({
+            metadata: {name: 'Deposit Bond', symbol: 'DEP001', data: ''},
+            configuration: {
+                collateralTokens: tokens,
+                debtTokenAmount: DEBT_TOKENS,
+                expiryTimestamp: BOND_EXPIRY,
+                minimumDeposit: MINIMUM_DEPOSIT
+            },
+            rewards: []
+        })
+
+        return new TreasuryClient(guarantor, addresses).bond(
+            created.bond.address
+        )
+    }
+
+    let addresses: TreasuryAddresses
+    let admin: SignerWithAddress
+    let bond: BondHandle
+    let collateralTokens: ERC20PresetMinterPauser
+    let dao: DaoHandle
+    let guarantor: SignerWithAddress
+    let mediator: BondMediator
+    let permitTokens: PermitERC20
+    let treasury: string
+})
+
+/**
+ * Message of the error the promise is rejected with.
+ */
+async function failure(promise: Promise<unknown>): Promise<string> {
+    return promise.then(
+        () => 'resolved',
+        (error: Error) => error.message
+    )
+}
@@ -0,0 +1,167 @@
+// Start - Support direct Mocha run & debug
+import 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+
+import chai, {expect} from 'chai'
+import {before} from 'mocha'
+import {solidity} from 'ethereum-waffle'
+import {constants} from 'ethers'
+import {SignerWithAddress} from '@nomiclabs/hardhat-ethers/signers'
+import {BitDAO, BondFactory, BondMediator} from '../../typechain-types'
+import {
+    deployContract,
+    deployContractWithProxy,
+    signer
+} from '../framework/contracts'
+import {successfulTransaction} from '../framework/transaction'
+import {ActualCreateDaoEvent} from '../event/bond/bond-mediator-events'
+import {
+    BondHandle,
+    DaoHandle,
+    TreasuryAddresses,
+    TreasuryClient
+} from '../../sdk'
+
+// Wires up Waffle with Chai
+chai.use(solidity)
+
+const DEBT_TOKENS = 1000n
+const BOND_EXPIRY = 750000n
+
+describe('Treasury client', () => {
+    before(async () => {
+        admin = await signer(0)
+        treasury = (await signer(1)).address
+        guarantor = await signer(2)
+        collateralTokens = await deployContract<BitDAO>('BitDAO', admin.address)
+        const creator = await deployContract<BondFactory>(
+            'BondFactory',
+            treasury
+        )
+        mediator = await deployContractWithProxy<BondMediator>(
+            'BondMediator',
+            creator.address,
+            treasury
+        )
+        addresses = {
+            bondMediator: mediator.address,
+            stakingPoolMediator: constants.AddressZero
+        }
+        client = new TreasuryClient(admin, addresses)
+
+        const created = await client.createDao(treasury)
+        dao = created.dao
+        daoCreated = created.createDao
+        await dao.whitelistCollateral(collateralTokens.address)
+    })
+
+    it('creates a DAO', () => {
+        expect(daoCreated.id.toBigInt()).equals(dao.daoId)
+        expect(daoCreated.treasury).equals(treasury)
+        expect(daoCreated.instigator).equals(admin.address)
+    })
+
+    describe('bond', () => {
+        beforeEach(async () => {
+            const created = await dao.createBond({
+                metadata: {name: 'SDK Bond', symbol: 'SDK001', data: ''},
+                configuration: {
+                    collateralTokens: collateralTokens.address,
+                    debtTokenAmount: DEBT_TOKENS,
+                    expiryTimestamp: BOND_EXPIRY,
+                    minimumDeposit: 1n
+                },
+                rewards: []
+            })
+
+            expect(created.createBond.bond).equals(created.bond.address)
+            expect(created.addBond.bond).equals(created.bond.address)
+            expect(created.addBond.daoId.toBigInt()).equals(dao.daoId)
+
+            bond = new TreasuryClient(guarantor, addresses).bond(
+                created.bond.address
+            )
+            await collateralTokens.transfer(guarantor.address, DEBT_TOKENS)
+        })
+
+        it('is listed by the DAO', async () => {
+            const bonds = await dao.bonds()
+
+            expect(bonds.map((listed) => listed.address)).contains(bond.address)
+        })
+
+        it('deposit approves the collateral', async () => {
+            const deposited = await bond.deposit(400n)
+
+            expect(deposited.deposit.depositor).equals(guarantor.address)
+            expect(deposited.deposit.collateralAmount.toBigInt()).equals(400n)
+            expect(deposited.debtIssue.receiver).equals(guarantor.address)
+            expect(deposited.debtIssue.debtAmount.toBigInt()).equals(400n)
+            expect(deposited.fullCollateral).is.empty
+        })
+
+        it('final deposit reaches full collateral', async () => {
+            await bond.deposit(400n)
+            const deposited = await bond.deposit(600n)
+
+            expect(deposited.fullCollateral).has.length(1)
+            expect(
+                deposited.fullCollateral[0].collateralAmount.toBigInt()
+            ).equals(DEBT_TOKENS)
+        })
+
+        it('redeem', async () => {
+            await bond.deposit(DEBT_TOKENS)
+            await successfulTransaction(
+                mediator.bondAllowRedemption(
+                    dao.daoId,
+                    bond.address,
+                    'redeem test'
+                )
+            )
+
+            const redemption = await bond.redeem(250n)
+
+            expect(redemption.redeemer).equals(guarantor.address)
+            expect(redemption.debtAmount.toBigInt()).equals(250n)
+            expect(redemption.collateralAmount.toBigInt()).equals(250n)
+        })
+
+        it('claim rewards without any reward pools', async () => {
+            await bond.deposit(DEBT_TOKENS)
+            await successfulTransaction(
+                mediator.bondAllowRedemption(
+                    dao.daoId,
+                    bond.address,
+                    'claim test'
+                )
+            )
+
+            expect(await bond.claimRewards()).is.empty
+        })
+    })
+
+    it('staking DAO cannot list Bonds', async () => {
+        const failure = await client
+            .stakingDao(dao.daoId)
+            .bonds()
+            .then(
+                () => 'resolved',
+                (error: Error) => error.message
+            )
+
+        expect(failure).equals('Only the BondMediator supports listing Bonds')
+    })
+
+    let addresses: TreasuryAddresses
+    let admin: SignerWithAddress
+    let bond: BondHandle
+    let client: TreasuryClient
+    let collateralTokens: BitDAO
+    let dao: DaoHandle
+    let daoCreated: ActualCreateDaoEvent
+    let guarantor: SignerWithAddress
+    let mediator: BondMediator
+    let treasury: string
+})